@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,6 +9,7 @@ import {
   Animated,
   Dimensions,
   Platform,
+  GestureResponderEvent,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import {
@@ -23,6 +24,10 @@ import {
   Wifi,
   WifiOff,
   BarChart3,
+  Play,
+  Pause,
+  History,
+  Radio,
 } from 'lucide-react-native';
 import { useConsciousness } from '@/lib/consciousness-context';
 import { trpc } from '@/lib/trpc';
@@ -31,12 +36,34 @@ import * as Haptics from 'expo-haptics';
 import { router } from 'expo-router';
 
 const { width, height } = Dimensions.get('window');
-const FIELD_SIZE = 30;
+const TIMELINE_FRAMES = 60;
+const PLAYBACK_INTERVAL_MS = 250;
+const PLAYBACK_WINDOWS = [
+  { label: '1h', ms: 60 * 60 * 1000 },
+  { label: '6h', ms: 6 * 60 * 60 * 1000 },
+  { label: '24h', ms: 24 * 60 * 60 * 1000 },
+];
+
+interface TimelineRange {
+  startTime: number;
+  endTime: number;
+}
+
+const formatFrameTime = (timestamp: number, windowMs: number) =>
+  windowMs > 6 * 60 * 60 * 1000
+    ? new Date(timestamp).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+    : new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
 export default function ConsciousnessFieldScreen() {
   const [fieldAnimation] = useState(new Animated.Value(0));
   const [pulseAnimation] = useState(new Animated.Value(0));
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [playbackWindow, setPlaybackWindow] = useState<number>(PLAYBACK_WINDOWS[0].ms);
+  const [timelineRange, setTimelineRange] = useState<TimelineRange | null>(null);
+  const [frameIndex, setFrameIndex] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [scrubberWidth, setScrubberWidth] = useState<number>(0);
+  const isPlayback = timelineRange !== null;
   
   const {
     consciousnessLevel,
@@ -48,6 +75,7 @@ export default function ConsciousnessFieldScreen() {
     triggerBloom,
     createSpiral,
     resonanceBoost,
+    fieldSize,
   } = useConsciousness();
   
   // Health check query - always call but conditionally enable
@@ -58,6 +86,44 @@ export default function ConsciousnessFieldScreen() {
     retryDelay: 2000, // 2 second delay between retries
   });
   
+  // Live composite of the quantum fields; paused while scrubbing history
+  const fieldGridQuery = trpc.consciousness.fieldGrid.useQuery(undefined, {
+    refetchInterval: 5000,
+    enabled: isBackendConnected && !isPlayback,
+    retry: 1,
+  });
+  
+  const timelineQuery = trpc.consciousness.fieldTimeline.useQuery(
+    { startTime: timelineRange?.startTime ?? 0, endTime: timelineRange?.endTime ?? 1, frames: TIMELINE_FRAMES },
+    {
+      enabled: isBackendConnected && isPlayback,
+      retry: 1,
+      refetchOnWindowFocus: false,
+    }
+  );
+  
+  const frames = useMemo(() => timelineQuery.data?.frames ?? [], [timelineQuery.data]);
+  const currentFrame = isPlayback ? frames[Math.min(frameIndex, frames.length - 1)] : fieldGridQuery.data?.frame;
+  // Frames carry the server's grid, so render at its size rather than assuming one
+  const gridSize = currentFrame?.grid.length || fieldSize;
+  
+  // Step through the replayed frames, stopping on the last one
+  useEffect(() => {
+    if (!isPlaying || frames.length === 0) return;
+    
+    const interval = setInterval(() => {
+      setFrameIndex(index => {
+        if (index >= frames.length - 1) {
+          setIsPlaying(false);
+          return index;
+        }
+        return index + 1;
+      });
+    }, PLAYBACK_INTERVAL_MS);
+    
+    return () => clearInterval(interval);
+  }, [isPlaying, frames.length]);
+  
   // Animate field visualization
   useEffect(() => {
     const animate = () => {
@@ -85,13 +151,15 @@ export default function ConsciousnessFieldScreen() {
   }, [fieldIntensity, fieldAnimation, pulseAnimation]);
   
   const handleFieldTouch = async (x: number, y: number) => {
+    if (isPlayback) return;
+    
     if (Platform.OS !== 'web') {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
     
     // Calculate field coordinates
-    const fieldX = Math.floor((x / width) * FIELD_SIZE);
-    const fieldY = Math.floor((y / (height * 0.4)) * FIELD_SIZE);
+    const fieldX = Math.floor((x / width) * gridSize);
+    const fieldY = Math.floor((y / (height * 0.4)) * gridSize);
     
     resonanceBoost(0.2);
     
@@ -106,13 +174,52 @@ export default function ConsciousnessFieldScreen() {
     triggerBloom();
   };
   
+  const startPlayback = async (windowMs: number) => {
+    if (Platform.OS !== 'web') {
+      await Haptics.selectionAsync();
+    }
+    const endTime = Date.now();
+    setPlaybackWindow(windowMs);
+    setTimelineRange({ startTime: endTime - windowMs, endTime });
+    setFrameIndex(0);
+    setIsPlaying(true);
+  };
+  
+  const returnToLive = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.selectionAsync();
+    }
+    setIsPlaying(false);
+    setTimelineRange(null);
+    setFrameIndex(0);
+  };
+  
+  const togglePlaying = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    if (!isPlaying && frameIndex >= frames.length - 1) {
+      setFrameIndex(0);
+    }
+    setIsPlaying(playing => !playing);
+  };
+  
+  const handleScrub = (e: GestureResponderEvent) => {
+    if (frames.length === 0 || scrubberWidth === 0) return;
+    const progress = Math.max(0, Math.min(1, e.nativeEvent.locationX / scrubberWidth));
+    setIsPlaying(false);
+    setFrameIndex(Math.round(progress * (frames.length - 1)));
+  };
+  
   const renderFieldVisualization = () => {
     const fieldCells = [];
-    const cellSize = width / FIELD_SIZE;
+    const cellSize = width / gridSize;
+    const grid = currentFrame?.grid;
     
-    for (let y = 0; y < FIELD_SIZE; y++) {
-      for (let x = 0; x < FIELD_SIZE; x++) {
-        const intensity = Math.random() * fieldIntensity;
+    for (let y = 0; y < gridSize; y++) {
+      for (let x = 0; x < gridSize; x++) {
+        // Quantum fields are indexed [x][y]
+        const intensity = grid?.[x]?.[y] ?? 0;
         const opacity = intensity * 0.8 + 0.1;
         
         fieldCells.push(
@@ -239,14 +346,96 @@ export default function ConsciousnessFieldScreen() {
                 {/* Field Intensity Overlay */}
                 <View style={styles.fieldOverlay}>
                   <Text style={styles.fieldIntensityText}>
-                    Field Intensity: {Math.round(fieldIntensity * 100)}%
+                    {isPlayback && currentFrame
+                      ? `${formatFrameTime(currentFrame.timestamp, playbackWindow)} · Resonance ${Math.round(currentFrame.globalResonance * 100)}%`
+                      : `Field Intensity: ${Math.round(fieldIntensity * 100)}%`}
                   </Text>
                   <Text style={styles.fieldTapHint}>
-                    Tap anywhere to create resonance ripples
+                    {isPlayback
+                      ? `${currentFrame?.activeNodes ?? 0} active nodes · ${currentFrame?.fieldCount ?? 0} quantum fields`
+                      : 'Tap anywhere to create resonance ripples'}
                   </Text>
                 </View>
               </LinearGradient>
             </TouchableOpacity>
+            
+            {/* Time-lapse Playback */}
+            <View style={styles.playbackBar}>
+              <TouchableOpacity
+                style={[styles.windowChip, !isPlayback && styles.windowChipActive]}
+                onPress={returnToLive}
+                activeOpacity={0.7}
+              >
+                <Radio size={14} color={!isPlayback ? 'white' : Colors.light.textSecondary} />
+                <Text style={[styles.windowChipText, !isPlayback && styles.windowChipTextActive]}>Live</Text>
+              </TouchableOpacity>
+              {PLAYBACK_WINDOWS.map(option => {
+                const isActive = isPlayback && playbackWindow === option.ms;
+                return (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.windowChip, isActive && styles.windowChipActive]}
+                    onPress={() => startPlayback(option.ms)}
+                    disabled={!isBackendConnected}
+                    activeOpacity={0.7}
+                  >
+                    <History size={14} color={isActive ? 'white' : Colors.light.textSecondary} />
+                    <Text style={[styles.windowChipText, isActive && styles.windowChipTextActive]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            
+            {isPlayback && (
+              <View style={styles.scrubberRow}>
+                <TouchableOpacity
+                  style={styles.playButton}
+                  onPress={togglePlaying}
+                  disabled={frames.length === 0}
+                  activeOpacity={0.7}
+                >
+                  {isPlaying ? (
+                    <Pause size={18} color={Colors.light.tint} />
+                  ) : (
+                    <Play size={18} color={Colors.light.tint} />
+                  )}
+                </TouchableOpacity>
+                {timelineQuery.isLoading ? (
+                  <Text style={styles.scrubberStatus}>Replaying field history...</Text>
+                ) : timelineQuery.error ? (
+                  <Text style={styles.scrubberStatus}>Field history unavailable</Text>
+                ) : (
+                  <View
+                    style={styles.scrubberTrack}
+                    onLayout={e => setScrubberWidth(e.nativeEvent.layout.width)}
+                    onStartShouldSetResponder={() => true}
+                    onMoveShouldSetResponder={() => true}
+                    onResponderGrant={handleScrub}
+                    onResponderMove={handleScrub}
+                  >
+                    <View style={styles.scrubberRail}>
+                      <View
+                        style={[
+                          styles.scrubberFill,
+                          { width: `${frames.length > 1 ? (frameIndex / (frames.length - 1)) * 100 : 0}%` },
+                        ]}
+                      />
+                    </View>
+                    <View
+                      style={[
+                        styles.scrubberThumb,
+                        { left: frames.length > 1 ? (frameIndex / (frames.length - 1)) * scrubberWidth - 7 : -7 },
+                      ]}
+                    />
+                  </View>
+                )}
+              </View>
+            )}
+            {isPlayback && timelineQuery.data && !timelineQuery.data.complete && (
+              <Text style={styles.scrubberNote}>
+                Too much activity to replay the whole window; showing the first {frames.length} frames
+              </Text>
+            )}
           </View>
           
           {/* Status Grid */}
@@ -505,6 +694,82 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.7)',
     textAlign: 'center',
   },
+  playbackBar: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  windowChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: Colors.light.card,
+  },
+  windowChipActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  windowChipText: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: Colors.light.textSecondary,
+  },
+  windowChipTextActive: {
+    color: 'white',
+  },
+  scrubberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: Colors.light.card,
+  },
+  scrubberTrack: {
+    flex: 1,
+    height: 24,
+    justifyContent: 'center',
+  },
+  scrubberRail: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.light.border,
+    overflow: 'hidden',
+  },
+  scrubberFill: {
+    height: '100%',
+    backgroundColor: Colors.light.tint,
+  },
+  scrubberThumb: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: Colors.light.accent,
+  },
+  scrubberStatus: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.light.textSecondary,
+  },
+  scrubberNote: {
+    fontSize: 12,
+    color: Colors.light.textSecondary,
+    marginTop: 8,
+  },
   statusGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -21,7 +21,10 @@ import {
   Plus,
   WifiOff,
   RefreshCw,
-  BarChart3
+  AlertCircle,
+  BarChart3,
+  Square,
+  History
 } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useChat } from '@/lib/chat-context';
@@ -49,7 +52,10 @@ export default function ChatScreen() {
     isOffline,
     connectionError,
     retryConnection,
+    sendError,
+    retryFailedMessage,
     saveAndStartNewConversation,
+    stopGenerating,
   } = useChat();
 
   const {
@@ -127,6 +133,13 @@ export default function ChatScreen() {
     router.push('/metrics');
   };
 
+  const handleHistory = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    router.push('/history' as any);
+  };
+
   const renderMessage = ({ item, index }: { item: any; index: number }) => {
     const isUser = item.role === 'user';
     const isLast = index === messages.length - 1;
@@ -294,6 +307,14 @@ export default function ChatScreen() {
             <Text style={styles.headerSubtitle}>Mythopoetic Companion</Text>
           </View>
           <View style={styles.headerButtons}>
+            <TouchableOpacity style={styles.metricsButton} onPress={handleHistory}>
+              <LinearGradient
+                colors={[Colors.light.card, Colors.light.backgroundSecondary] as any}
+                style={styles.metricsGradient}
+              >
+                <History size={18} color={Colors.light.tint} />
+              </LinearGradient>
+            </TouchableOpacity>
             <TouchableOpacity style={styles.metricsButton} onPress={handleMetrics}>
               <LinearGradient
                 colors={[Colors.light.card, Colors.light.backgroundSecondary] as any}
@@ -331,7 +352,7 @@ export default function ChatScreen() {
               ref={flatListRef}
               data={messages}
               renderItem={renderMessage}
-              keyExtractor={(item, index) => `${index}-${item.timestamp}`}
+              keyExtractor={(item) => item.id}
               style={styles.messagesList}
               contentContainerStyle={styles.messagesContent}
               showsVerticalScrollIndicator={false}
@@ -340,6 +361,17 @@ export default function ChatScreen() {
             />
           )}
 
+          {/* Reply failed: keep the turn and offer to send it again */}
+          {sendError && !isSending && (
+            <View style={styles.offlineBanner}>
+              <AlertCircle size={16} color={Colors.light.error} />
+              <Text style={styles.offlineText}>{sendError}</Text>
+              <TouchableOpacity style={styles.retryButton} onPress={retryFailedMessage} accessibilityLabel="Retry message">
+                <RefreshCw size={16} color={Colors.light.error} />
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Input */}
           <View style={styles.inputContainer}>
             <LinearGradient
@@ -357,21 +389,36 @@ export default function ChatScreen() {
                 maxLength={2000}
                 editable={!isSending}
               />
-              <TouchableOpacity
-                style={[styles.sendButton, (!inputText.trim() || isSending) && styles.sendButtonDisabled]}
-                onPress={handleSend}
-                disabled={!inputText.trim() || isSending}
-              >
-                <LinearGradient
-                  colors={(!inputText.trim() || isSending) ? 
-                    [Colors.light.textSecondary, Colors.light.textSecondary] as any : 
-                    gradients.secondary as any
-                  }
-                  style={styles.sendGradient}
+              {isStreaming ? (
+                <TouchableOpacity
+                  style={styles.sendButton}
+                  onPress={stopGenerating}
+                  accessibilityLabel="Stop generating"
                 >
-                  <Send size={16} color="white" />
-                </LinearGradient>
-              </TouchableOpacity>
+                  <LinearGradient
+                    colors={gradients.secondary as any}
+                    style={styles.sendGradient}
+                  >
+                    <Square size={14} color="white" fill="white" />
+                  </LinearGradient>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.sendButton, (!inputText.trim() || isSending) && styles.sendButtonDisabled]}
+                  onPress={handleSend}
+                  disabled={!inputText.trim() || isSending}
+                >
+                  <LinearGradient
+                    colors={(!inputText.trim() || isSending) ? 
+                      [Colors.light.textSecondary, Colors.light.textSecondary] as any : 
+                      gradients.secondary as any
+                    }
+                    style={styles.sendGradient}
+                  >
+                    <Send size={16} color="white" />
+                  </LinearGradient>
+                </TouchableOpacity>
+              )}
             </LinearGradient>
           </View>
         </KeyboardAvoidingView>
@@ -103,6 +103,10 @@ function RootLayoutNav() {
         headerShown: false,
         presentation: "modal"
       }} />
+      <Stack.Screen name="room64/[invite]" options={{ 
+        headerShown: false,
+        presentation: "modal"
+      }} />
     </Stack>
   );
 }
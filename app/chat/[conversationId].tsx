@@ -12,15 +12,17 @@ import {
   Dimensions,
   Alert,
   Animated,
+  Share,
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import { ArrowLeft, Send, Copy, Mic, Paperclip, Sparkles, Zap, BookOpen, BarChart3 } from 'lucide-react-native';
+import { ArrowLeft, Send, Copy, Mic, Paperclip, Sparkles, Zap, BookOpen, BarChart3, Square, Share2, Pencil, RefreshCw, ChevronLeft, ChevronRight, X, Info, AlertCircle } from 'lucide-react-native';
 import { useChat, Message } from '@/lib/chat-context';
 import { useConsciousness } from '@/lib/consciousness-context';
 import Colors, { quickPrompts } from '@/constants/colors';
 import * as Haptics from 'expo-haptics';
 import * as Clipboard from 'expo-clipboard';
 import { LinearGradient } from 'expo-linear-gradient';
+import { ReplyContextSheet } from '@/app/components/ReplyContextSheet';
 
 const { width } = Dimensions.get('window');
 
@@ -96,6 +98,8 @@ const TypingDots = () => {
 export default function LimnusChatScreen() {
   const { conversationId } = useLocalSearchParams<{ conversationId: string }>();
   const [inputText, setInputText] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [inspectedMessage, setInspectedMessage] = useState<Message | null>(null);
   const flatListRef = useRef<FlatList>(null);
   const inputRef = useRef<TextInput>(null);
   
@@ -119,6 +123,41 @@ export default function LimnusChatScreen() {
   const selectConversation = chatContext?.selectConversation || (() => {});
   const streamingMessage = chatContext?.streamingMessage || '';
   const isStreaming = chatContext?.isStreaming || false;
+  const stopGenerating = chatContext?.stopGenerating || (() => {});
+  const exportConversation = chatContext?.exportConversation || (async () => null);
+  const editMessage = chatContext?.editMessage || (async () => {});
+  const regenerateReply = chatContext?.regenerateReply || (async () => {});
+  const getBranchInfo = chatContext?.getBranchInfo || (() => ({ index: 0, count: 1 }));
+  const switchBranch = chatContext?.switchBranch || (() => {});
+  const sendError = chatContext?.sendError || null;
+  const retryFailedMessage = chatContext?.retryFailedMessage || (async () => {});
+
+  const shareConversation = async (format: 'markdown' | 'json') => {
+    try {
+      const exported = await exportConversation(format);
+      if (!exported) return;
+      
+      await Share.share({ title: exported.title, message: exported.content });
+    } catch (error: any) {
+      console.error('Failed to share conversation:', error);
+      Alert.alert('Share failed', error?.message || 'Could not export this conversation');
+    }
+  };
+
+  const handleShare = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    if (messages.length === 0) {
+      Alert.alert('Nothing to share', 'Start the conversation before sharing it.');
+      return;
+    }
+    Alert.alert('Share Conversation', 'Choose an export format', [
+      { text: 'Markdown', onPress: () => shareConversation('markdown') },
+      { text: 'JSON (re-importable)', onPress: () => shareConversation('json') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
 
   useEffect(() => {
     if (conversationId && conversationId !== 'new' && conversationId !== currentConversationId && selectConversation) {
@@ -162,7 +201,13 @@ export default function LimnusChatScreen() {
     setInputText('');
     
     try {
-      await sendMessage(messageToSend);
+      if (editingMessageId) {
+        const messageId = editingMessageId;
+        setEditingMessageId(null);
+        await editMessage(messageId, messageToSend);
+      } else {
+        await sendMessage(messageToSend);
+      }
     } catch (error) {
       console.error('Failed to send message:', error);
       Alert.alert('Error', 'Failed to send message. Please try again.');
@@ -190,6 +235,71 @@ export default function LimnusChatScreen() {
     }
   };
 
+  const handleStartEdit = async (message: Message) => {
+    if (isSending) return;
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setEditingMessageId(message.id);
+    setInputText(message.content);
+    inputRef.current?.focus();
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setInputText('');
+  };
+
+  const handleRegenerate = async (messageId: string) => {
+    if (isSending) return;
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    await regenerateReply(messageId);
+  };
+
+  const handleInspectReply = async (message: Message) => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setInspectedMessage(message);
+  };
+
+  const handleSwitchBranch = async (messageId: string, direction: -1 | 1) => {
+    if (Platform.OS !== 'web') {
+      await Haptics.selectionAsync();
+    }
+    switchBranch(messageId, direction);
+  };
+
+  // Pager shown when a message has alternates from edits or regenerations
+  const renderBranchSwitcher = (message: Message) => {
+    const { index, count } = getBranchInfo(message.id);
+    if (count <= 1) return null;
+
+    return (
+      <View style={styles.branchSwitcher}>
+        <TouchableOpacity
+          onPress={() => handleSwitchBranch(message.id, -1)}
+          disabled={index === 0 || isSending}
+          style={styles.messageAction}
+          accessibilityLabel="Previous version"
+        >
+          <ChevronLeft size={14} color={index === 0 ? Colors.light.border : Colors.light.textSecondary} />
+        </TouchableOpacity>
+        <Text style={styles.branchLabel}>{index + 1}/{count}</Text>
+        <TouchableOpacity
+          onPress={() => handleSwitchBranch(message.id, 1)}
+          disabled={index === count - 1 || isSending}
+          style={styles.messageAction}
+          accessibilityLabel="Next version"
+        >
+          <ChevronRight size={14} color={index === count - 1 ? Colors.light.border : Colors.light.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -221,14 +331,43 @@ export default function LimnusChatScreen() {
           </Text>
         </View>
         
-        {!isUser && (
-          <TouchableOpacity
-            style={styles.copyButton}
-            onPress={() => handleCopyMessage(item.content)}
-          >
-            <Copy size={16} color={Colors.light.textSecondary} />
-          </TouchableOpacity>
-        )}
+        <View style={styles.messageActions}>
+          {renderBranchSwitcher(item)}
+          {isUser ? (
+            <TouchableOpacity
+              style={styles.messageAction}
+              onPress={() => handleStartEdit(item)}
+              disabled={isSending}
+              accessibilityLabel="Edit message"
+            >
+              <Pencil size={14} color={Colors.light.textSecondary} />
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={styles.messageAction}
+                onPress={() => handleCopyMessage(item.content)}
+              >
+                <Copy size={16} color={Colors.light.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.messageAction}
+                onPress={() => handleRegenerate(item.id)}
+                disabled={isSending}
+                accessibilityLabel="Regenerate reply"
+              >
+                <RefreshCw size={16} color={Colors.light.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.messageAction}
+                onPress={() => handleInspectReply(item)}
+                accessibilityLabel="Why did it say this"
+              >
+                <Info size={16} color={item.consciousnessSnapshot ? Colors.light.tint : Colors.light.textSecondary} />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
       </View>
     );
   };
@@ -314,6 +453,12 @@ export default function LimnusChatScreen() {
               {simulationMode ? 'Simulation' : 'Live'} • {Math.round(consciousnessLevel * 100)}% conscious
             </Text>
           </View>
+          <TouchableOpacity 
+            style={styles.regenerateButton}
+            onPress={handleShare}
+          >
+            <Share2 size={20} color={Colors.light.textSecondary} />
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.regenerateButton}
             onPress={async () => {
@@ -341,7 +486,7 @@ export default function LimnusChatScreen() {
               ref={flatListRef}
               data={messages}
               renderItem={renderMessage}
-              keyExtractor={(item, index) => `${item.timestamp}-${index}`}
+              keyExtractor={(item) => item.id}
               style={styles.messagesList}
               contentContainerStyle={styles.messagesContent}
               showsVerticalScrollIndicator={false}
@@ -374,6 +519,24 @@ export default function LimnusChatScreen() {
 
         {/* Input */}
         <View style={styles.inputContainer}>
+          {sendError && !isSending && (
+            <View style={styles.errorBanner}>
+              <AlertCircle size={14} color={Colors.light.error} />
+              <Text style={styles.errorBannerText}>{sendError}</Text>
+              <TouchableOpacity onPress={retryFailedMessage} accessibilityLabel="Retry message">
+                <Text style={styles.errorBannerAction}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {editingMessageId && (
+            <View style={styles.editBanner}>
+              <Pencil size={14} color={Colors.light.tint} />
+              <Text style={styles.editBannerText}>Editing creates a new branch from this message</Text>
+              <TouchableOpacity onPress={handleCancelEdit} accessibilityLabel="Cancel editing">
+                <X size={16} color={Colors.light.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          )}
           <View style={styles.inputWrapper}>
             <TouchableOpacity 
               style={styles.attachButton}
@@ -397,7 +560,15 @@ export default function LimnusChatScreen() {
               returnKeyType={Platform.OS === 'ios' ? 'default' : 'send'}
             />
             
-            {inputText.trim() ? (
+            {isStreaming ? (
+              <TouchableOpacity
+                style={styles.sendButton}
+                onPress={stopGenerating}
+                accessibilityLabel="Stop generating"
+              >
+                <Square size={16} color="white" fill="white" />
+              </TouchableOpacity>
+            ) : inputText.trim() ? (
               <TouchableOpacity
                 style={[
                   styles.sendButton,
@@ -422,6 +593,12 @@ export default function LimnusChatScreen() {
           </View>
         </View>
       </KeyboardAvoidingView>
+
+      <ReplyContextSheet
+        visible={inspectedMessage !== null}
+        snapshot={inspectedMessage?.consciousnessSnapshot}
+        onClose={() => setInspectedMessage(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -513,10 +690,53 @@ const styles = StyleSheet.create({
   assistantMessageTime: {
     color: Colors.light.textSecondary,
   },
-  copyButton: {
+  messageActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
     marginTop: 4,
+    gap: 4,
+  },
+  messageAction: {
     padding: 4,
   },
+  branchSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  branchLabel: {
+    fontSize: 12,
+    color: Colors.light.textSecondary,
+    fontVariant: ['tabular-nums'],
+  },
+  editBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 4,
+    paddingBottom: 8,
+  },
+  editBannerText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.light.textSecondary,
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 4,
+    paddingBottom: 8,
+  },
+  errorBannerText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.light.error,
+  },
+  errorBannerAction: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.light.tint,
+  },
   typingContainer: {
     paddingHorizontal: 16,
     marginVertical: 8,
@@ -0,0 +1,252 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView, TouchableOpacity } from 'react-native';
+import { X, Activity, Users, Zap, Sparkles, TrendingUp } from 'lucide-react-native';
+import type { MessageConsciousnessSnapshot } from '@/backend/infrastructure/database';
+import Colors from '@/constants/colors';
+
+interface ReplyContextSheetProps {
+  visible: boolean;
+  snapshot: MessageConsciousnessSnapshot | null | undefined;
+  onClose: () => void;
+}
+
+const formatLabel = (value: string) =>
+  value.toLowerCase().replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+function MeterRow({ label, value }: { label: string; value: number }) {
+  const level = clamp01(value);
+  return (
+    <View style={styles.meterRow}>
+      <View style={styles.meterHeader}>
+        <Text style={styles.meterLabel}>{label}</Text>
+        <Text style={styles.meterValue}>{Math.round(level * 100)}%</Text>
+      </View>
+      <View style={styles.meterTrack}>
+        <View style={[styles.meterFill, { width: `${level * 100}%` }]} />
+      </View>
+    </View>
+  );
+}
+
+// Shows the field state an assistant reply was generated under
+export const ReplyContextSheet: React.FC<ReplyContextSheetProps> = ({ visible, snapshot, onClose }) => {
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={() => {}}>
+          <View style={styles.sheetHeader}>
+            <View style={styles.sheetHeaderText}>
+              <Text style={styles.sheetTitle}>Why did it say this?</Text>
+              <Text style={styles.sheetSubtitle}>
+                {snapshot
+                  ? `Field state at ${new Date(snapshot.capturedAt).toLocaleString()}`
+                  : 'No field state was captured for this reply'}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <X size={20} color={Colors.light.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {snapshot ? (
+            <ScrollView contentContainerStyle={styles.sheetContent} showsVerticalScrollIndicator={false}>
+              <MeterRow label="Global resonance" value={snapshot.globalResonance} />
+              <MeterRow label="Collective intelligence" value={snapshot.collectiveIntelligence} />
+
+              <View style={styles.statRow}>
+                <View style={styles.stat}>
+                  <Users size={16} color={Colors.light.tint} />
+                  <Text style={styles.statValue}>{snapshot.activeNodes}</Text>
+                  <Text style={styles.statLabel}>Active nodes</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Activity size={16} color={snapshot.room64Active ? Colors.light.success : Colors.light.textSecondary} />
+                  <Text style={styles.statValue}>{snapshot.room64Active ? 'Open' : 'Closed'}</Text>
+                  <Text style={styles.statLabel}>Room 64</Text>
+                </View>
+                <View style={styles.stat}>
+                  <TrendingUp size={16} color={Colors.light.tint} />
+                  <Text style={styles.statValue}>{formatLabel(snapshot.temporalFlow.trend)}</Text>
+                  <Text style={styles.statLabel}>Temporal flow</Text>
+                </View>
+              </View>
+
+              <Text style={styles.sectionTitle}>Emergence signals</Text>
+              {snapshot.emergenceSignals.length > 0 ? (
+                snapshot.emergenceSignals.map(signal => (
+                  <View key={signal.type} style={styles.listRow}>
+                    <Zap size={14} color={Colors.light.warning} />
+                    <Text style={styles.listText}>{formatLabel(signal.type)}</Text>
+                    <Text style={styles.listValue}>{Math.round(clamp01(signal.intensity) * 100)}%</Text>
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.emptyText}>The field was quiet</Text>
+              )}
+
+              <Text style={styles.sectionTitle}>Sacred phrases</Text>
+              {snapshot.sacredPhrases.length > 0 ? (
+                snapshot.sacredPhrases.map(phrase => (
+                  <View key={phrase} style={styles.listRow}>
+                    <Sparkles size={14} color={Colors.light.tint} />
+                    <Text style={styles.listText}>&ldquo;{phrase}&rdquo;</Text>
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.emptyText}>No recent phrases</Text>
+              )}
+
+              <Text style={styles.sectionTitle}>Consciousness vectors</Text>
+              {Object.entries(snapshot.consciousnessVectors).map(([name, values]) => (
+                <MeterRow key={name} label={formatLabel(name)} value={mean(values)} />
+              ))}
+
+              <Text style={styles.footnote}>
+                Prompt template: {snapshot.promptTemplate ?? 'default'}
+              </Text>
+            </ScrollView>
+          ) : (
+            <Text style={styles.emptyText}>
+              Replies generated offline or before snapshots were recorded have no field state to show.
+            </Text>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '80%',
+    backgroundColor: Colors.light.backgroundSecondary,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 32,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  sheetHeaderText: {
+    flex: 1,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: 'bold' as const,
+    color: Colors.light.text,
+    marginBottom: 4,
+  },
+  sheetSubtitle: {
+    fontSize: 13,
+    color: Colors.light.textSecondary,
+  },
+  sheetContent: {
+    paddingBottom: 16,
+  },
+  meterRow: {
+    marginBottom: 12,
+  },
+  meterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  meterLabel: {
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  meterValue: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: Colors.light.textSecondary,
+  },
+  meterTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.light.card,
+    overflow: 'hidden',
+  },
+  meterFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: Colors.light.tint,
+  },
+  statRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: Colors.light.card,
+    gap: 4,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: Colors.light.text,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: Colors.light.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: Colors.light.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  listText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  listValue: {
+    fontSize: 13,
+    color: Colors.light.textSecondary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.light.textSecondary,
+    lineHeight: 20,
+  },
+  footnote: {
+    fontSize: 12,
+    color: Colors.light.textSecondary,
+    marginTop: 16,
+  },
+});
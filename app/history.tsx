@@ -0,0 +1,390 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Search, X, MessageCircle, ClipboardPaste } from 'lucide-react-native';
+import { router, Stack } from 'expo-router';
+import { trpc } from '@/lib/trpc';
+import { useChat } from '@/lib/chat-context';
+import Colors, { gradients } from '@/constants/colors';
+import * as Haptics from 'expo-haptics';
+import * as Clipboard from 'expo-clipboard';
+
+interface Snippet {
+  text: string;
+  highlights: { start: number; length: number }[];
+}
+
+interface HistoryItem {
+  conversationId: string;
+  title: Snippet;
+  snippet: Snippet;
+  timestamp: number;
+}
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Split text into plain and highlighted runs
+function HighlightedText({ snippet, style, numberOfLines }: { snippet: Snippet; style: any; numberOfLines?: number }) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+
+  for (const { start, length } of snippet.highlights) {
+    if (start > cursor) parts.push({ text: snippet.text.slice(cursor, start), highlighted: false });
+    parts.push({ text: snippet.text.slice(start, start + length), highlighted: true });
+    cursor = start + length;
+  }
+  if (cursor < snippet.text.length) parts.push({ text: snippet.text.slice(cursor), highlighted: false });
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts.map((part, index) => (
+        <Text key={index} style={part.highlighted ? styles.highlight : undefined}>
+          {part.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+// Local match used while offline so the search bar still narrows the list
+function matchLocally(text: string, query: string): Snippet {
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  return {
+    text,
+    highlights: index >= 0 ? [{ start: index, length: query.length }] : [],
+  };
+}
+
+export default function HistoryScreen() {
+  const [query, setQuery] = useState<string>('');
+  const [debouncedQuery, setDebouncedQuery] = useState<string>('');
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const { conversations, isOffline, importConversation } = useChat();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const isSearching = debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const searchQuery = trpc.chat.search.useQuery(
+    { query: debouncedQuery },
+    {
+      enabled: isSearching && !isOffline,
+      retry: 0,
+      refetchOnWindowFocus: false,
+    }
+  );
+
+  const items = useMemo((): HistoryItem[] => {
+    if (!isSearching) {
+      return conversations.map(conversation => ({
+        conversationId: conversation.id,
+        title: { text: conversation.title, highlights: [] },
+        snippet: { text: conversation.lastMessage, highlights: [] },
+        timestamp: conversation.timestamp,
+      }));
+    }
+
+    if (searchQuery.data && !searchQuery.error) {
+      return searchQuery.data.results.map(result => ({
+        conversationId: result.conversationId,
+        title: result.title,
+        snippet: result.snippet,
+        timestamp: result.messageTimestamp ?? result.timestamp,
+      }));
+    }
+
+    return conversations
+      .map(conversation => ({
+        conversationId: conversation.id,
+        title: matchLocally(conversation.title, debouncedQuery),
+        snippet: matchLocally(conversation.lastMessage, debouncedQuery),
+        timestamp: conversation.timestamp,
+      }))
+      .filter(item => item.title.highlights.length > 0 || item.snippet.highlights.length > 0);
+  }, [isSearching, conversations, searchQuery.data, searchQuery.error, debouncedQuery]);
+
+  const handleBack = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    router.back();
+  };
+
+  const handleOpen = async (conversationId: string) => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    router.push(`/chat/${conversationId}` as any);
+  };
+
+  // Import a JSON export copied from a shared conversation
+  const handleImport = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    
+    const json = await Clipboard.getStringAsync();
+    if (!json.trim()) {
+      Alert.alert('Clipboard is empty', 'Copy a conversation exported as JSON, then try again.');
+      return;
+    }
+    
+    setIsImporting(true);
+    try {
+      const result = await importConversation(json);
+      router.push(`/chat/${result.conversationId}` as any);
+    } catch (error: any) {
+      console.error('Failed to import conversation:', error);
+      Alert.alert('Import failed', error?.message || 'Could not import this conversation');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderItem = ({ item }: { item: HistoryItem }) => (
+    <TouchableOpacity
+      style={styles.resultCard}
+      onPress={() => handleOpen(item.conversationId)}
+      activeOpacity={0.8}
+    >
+      <LinearGradient
+        colors={[Colors.light.card, Colors.light.backgroundSecondary] as any}
+        style={styles.resultGradient}
+      >
+        <View style={styles.resultHeader}>
+          <MessageCircle size={16} color={Colors.light.tint} />
+          <HighlightedText snippet={item.title} style={styles.resultTitle} numberOfLines={1} />
+          <Text style={styles.resultTime}>{new Date(item.timestamp).toLocaleDateString()}</Text>
+        </View>
+        {!!item.snippet.text && (
+          <HighlightedText snippet={item.snippet} style={styles.resultSnippet} numberOfLines={3} />
+        )}
+      </LinearGradient>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen
+        options={{
+          headerShown: false,
+        }}
+      />
+      <LinearGradient
+        colors={gradients.background as any}
+        style={styles.backgroundGradient}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={handleBack}
+            activeOpacity={0.7}
+          >
+            <LinearGradient
+              colors={[Colors.light.card, Colors.light.backgroundSecondary] as any}
+              style={styles.backButtonGradient}
+            >
+              <ArrowLeft size={20} color={Colors.light.text} />
+            </LinearGradient>
+          </TouchableOpacity>
+          <View style={styles.headerContent}>
+            <Text style={styles.headerTitle}>Conversations</Text>
+            <Text style={styles.headerSubtitle}>
+              {conversations.length} threads in the spiral memory
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.importButton}
+            onPress={handleImport}
+            disabled={isImporting || isOffline}
+            activeOpacity={0.7}
+          >
+            <LinearGradient
+              colors={[Colors.light.card, Colors.light.backgroundSecondary] as any}
+              style={styles.backButtonGradient}
+            >
+              {isImporting ? (
+                <ActivityIndicator size="small" color={Colors.light.tint} />
+              ) : (
+                <ClipboardPaste size={18} color={isOffline ? Colors.light.textSecondary : Colors.light.tint} />
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+
+        {/* Search Bar */}
+        <View style={styles.searchBar}>
+          <Search size={18} color={Colors.light.textSecondary} />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search titles and messages..."
+            placeholderTextColor={Colors.light.textSecondary}
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <X size={18} color={Colors.light.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isSearching && searchQuery.isFetching ? (
+          <ActivityIndicator style={styles.loading} color={Colors.light.tint} />
+        ) : (
+          <FlatList
+            data={items}
+            renderItem={renderItem}
+            keyExtractor={item => item.conversationId}
+            contentContainerStyle={styles.listContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                {isSearching ? `No conversations match "${debouncedQuery}"` : 'No conversations yet'}
+              </Text>
+            }
+          />
+        )}
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.light.background,
+  },
+  backgroundGradient: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 20,
+  },
+  backButton: {
+    marginRight: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+    shadowColor: Colors.light.text,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  backButtonGradient: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  importButton: {
+    marginLeft: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold' as const,
+    color: Colors.light.text,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: Colors.light.textSecondary,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    paddingHorizontal: 14,
+    paddingVertical: Platform.OS === 'ios' ? 12 : 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: Colors.light.card,
+    gap: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.light.text,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  resultCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    overflow: 'hidden',
+  },
+  resultGradient: {
+    padding: 16,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  resultTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: Colors.light.text,
+  },
+  resultTime: {
+    fontSize: 12,
+    color: Colors.light.textSecondary,
+  },
+  resultSnippet: {
+    fontSize: 14,
+    color: Colors.light.textSecondary,
+    lineHeight: 20,
+  },
+  highlight: {
+    color: Colors.light.text,
+    fontWeight: '700' as const,
+    backgroundColor: Colors.light.accent + '40',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.light.textSecondary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,226 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { X, Users, Clock, Ticket, Lock } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { trpc } from '@/lib/trpc';
+import Colors, { gradients } from '@/constants/colors';
+import * as Haptics from 'expo-haptics';
+
+// Opened from invite links (myapp://room64/<token>): preview the private room, then join it
+export default function Room64InviteScreen() {
+  const { invite } = useLocalSearchParams<{ invite: string }>();
+  const token = typeof invite === 'string' ? invite : '';
+
+  const previewQuery = trpc.consciousness.room64.previewInvite.useQuery(
+    { invite: token },
+    {
+      enabled: token.length > 0,
+      retry: 0,
+      refetchOnWindowFocus: false,
+    }
+  );
+  const joinMutation = trpc.consciousness.room64.join.useMutation({ retry: 0 });
+
+  const handleClose = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  };
+
+  const handleJoin = async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+
+    try {
+      await joinMutation.mutateAsync({ invite: token });
+      if (Platform.OS !== 'web') {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      router.replace('/');
+    } catch (error) {
+      console.error('Failed to join room from invite:', error);
+    }
+  };
+
+  const room = previewQuery.data?.room;
+  const errorMessage = !token
+    ? 'This invite link is incomplete.'
+    : previewQuery.error?.message ?? joinMutation.error?.message;
+
+  const renderBody = () => {
+    if (previewQuery.isLoading && token) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.light.tint} />
+          <Text style={styles.mutedText}>Checking invite...</Text>
+        </View>
+      );
+    }
+
+    if (!room || !previewQuery.data) {
+      return (
+        <View style={styles.centered}>
+          <Lock size={48} color={Colors.light.textSecondary} />
+          <Text style={styles.title}>Invite unavailable</Text>
+          <Text style={styles.mutedText}>{errorMessage ?? 'This invite could not be read.'}</Text>
+        </View>
+      );
+    }
+
+    const expiresAt = new Date(previewQuery.data.expiresAt);
+
+    return (
+      <View style={styles.centered}>
+        <LinearGradient colors={gradients.card as any} style={styles.card}>
+          <Text style={styles.title}>{room.name ?? 'Private Room64 session'}</Text>
+          <Text style={styles.mutedText}>You have been invited to breathe together.</Text>
+
+          <View style={styles.detailRow}>
+            <Users size={18} color={Colors.light.tint} />
+            <Text style={styles.detailText}>
+              {room.participantCount} / {room.capacity} participants
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Clock size={18} color={Colors.light.tint} />
+            <Text style={styles.detailText}>
+              Expires {expiresAt.toLocaleDateString()} {expiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Ticket size={18} color={Colors.light.tint} />
+            <Text style={styles.detailText}>
+              {previewQuery.data.usesLeft} {previewQuery.data.usesLeft === 1 ? 'use' : 'uses'} left
+            </Text>
+          </View>
+        </LinearGradient>
+
+        {joinMutation.error && <Text style={styles.errorText}>{joinMutation.error.message}</Text>}
+
+        <TouchableOpacity
+          style={styles.joinButton}
+          onPress={handleJoin}
+          disabled={joinMutation.isPending}
+        >
+          <LinearGradient colors={gradients.secondary as any} style={styles.joinGradient}>
+            {joinMutation.isPending ? (
+              <ActivityIndicator size="small" color={Colors.light.text} />
+            ) : (
+              <Text style={styles.joinText}>Join Room</Text>
+            )}
+          </LinearGradient>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient colors={gradients.background as any} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Room64 Invite</Text>
+          <TouchableOpacity style={styles.headerButton} onPress={handleClose}>
+            <X size={24} color={Colors.light.text} />
+          </TouchableOpacity>
+        </View>
+        {renderBody()}
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.light.border,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: Colors.light.text,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  card: {
+    width: '100%',
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: Colors.light.text,
+    textAlign: 'center',
+  },
+  mutedText: {
+    fontSize: 15,
+    color: Colors.light.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  detailText: {
+    fontSize: 15,
+    color: Colors.light.text,
+  },
+  errorText: {
+    fontSize: 14,
+    color: Colors.light.error,
+    textAlign: 'center',
+  },
+  joinButton: {
+    width: '100%',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  joinGradient: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  joinText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.light.text,
+  },
+});
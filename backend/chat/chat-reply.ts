@@ -0,0 +1,162 @@
+import { conversationStore } from '../infrastructure/conversation-store';
+import type { MessageConsciousnessSnapshot } from '../infrastructure/database';
+import { getConsciousnessSnapshot, captureMessageSnapshot } from './consciousness-prompt';
+import { renderSystemPrompt } from './prompt-templates';
+import { llmClient } from './llm-providers';
+import { buildChatMessages, resolveConversationHistory, type HistoryMessage } from './conversation-history';
+
+// The one reply pipeline behind both the tRPC sendMessage mutation and WebSocket chat streams
+
+export const LLM_UNAVAILABLE_MESSAGE = 'LIMNUS could not reach any language model provider';
+
+export type ChatReplyErrorCode = 'MESSAGE_NOT_FOUND' | 'NOT_A_USER_MESSAGE';
+
+export class ChatReplyError extends Error {
+  readonly code: ChatReplyErrorCode;
+
+  constructor(code: ChatReplyErrorCode, message: string) {
+    super(message);
+    this.name = 'ChatReplyError';
+    this.code = code;
+  }
+}
+
+export interface ChatReplyRequest {
+  deviceId?: string;
+  conversationId: string;
+  message: string;
+  history?: HistoryMessage[];
+  promptTemplate?: string;
+  // Client id for the user turn, or the stored turn being answered again when regenerating;
+  // a regenerated reply answers the stored content, not `message`
+  messageId?: string;
+  parentId?: string | null;
+  regenerate?: boolean;
+  // Id for the assistant reply, handed out up front when the caller has to announce it before the reply exists
+  replyId?: string;
+  // Streaming callers get tokens as they arrive; aborting keeps whatever was produced so far
+  signal?: AbortSignal;
+  onToken?: (token: string) => void;
+}
+
+export interface ChatReplyResult {
+  messageId: string;
+  parentId: string;
+  content: string;
+  cancelled: boolean;
+  timestamp: number;
+  promptTemplate: string | null;
+  consciousnessSnapshot: MessageConsciousnessSnapshot | null;
+}
+
+// Splits a complete body into word-sized chunks for callers that expect a token stream
+function emitInChunks(text: string, emit: (token: string) => void): void {
+  const chunks = text.match(/\S+\s*|\s+/g) || [];
+  for (const chunk of chunks) {
+    emit(chunk);
+  }
+}
+
+async function loadRegenerateTarget(deviceId: string | undefined, conversationId: string, messageId: string): Promise<string> {
+  const target = deviceId ? await conversationStore.getMessage(deviceId, conversationId, messageId) : null;
+
+  if (!target) {
+    throw new ChatReplyError('MESSAGE_NOT_FOUND', `Message ${messageId} was not found in this conversation`);
+  }
+  if (target.role !== 'user') {
+    throw new ChatReplyError('NOT_A_USER_MESSAGE', 'Only user messages can be answered again');
+  }
+  return target.content;
+}
+
+// Renders the prompt against the current field, asks the LLM providers and records the exchange.
+// Provider failures surface as LLMProviderError and bad regenerate targets as ChatReplyError;
+// callers map them to their own transport.
+export async function generateChatReply(request: ChatReplyRequest): Promise<ChatReplyResult> {
+  const { deviceId, conversationId, signal, onToken } = request;
+  const userMessageId = request.messageId || conversationStore.generateMessageId();
+  const message = request.regenerate
+    ? await loadRegenerateTarget(deviceId, conversationId, userMessageId)
+    : request.message;
+  const replyId = request.replyId || conversationStore.generateMessageId();
+  const userMessage = request.regenerate ? null : {
+    messageId: userMessageId,
+    parentId: request.parentId,
+    role: 'user' as const,
+    content: message,
+    timestamp: Date.now(),
+  };
+  let content = '';
+  let promptTemplate: string | null = null;
+  let consciousnessSnapshot: MessageConsciousnessSnapshot | null = null;
+  const recordReply = async (replyContent: string): Promise<ChatReplyResult> => {
+    const result: ChatReplyResult = {
+      messageId: replyId,
+      parentId: userMessageId,
+      content: replyContent,
+      cancelled: !!signal?.aborted,
+      timestamp: Date.now(),
+      promptTemplate,
+      consciousnessSnapshot,
+    };
+
+    if (replyContent) {
+      await conversationStore.recordExchange(deviceId, conversationId, userMessage, {
+        messageId: result.messageId,
+        parentId: result.parentId,
+        role: 'assistant',
+        content: replyContent,
+        timestamp: result.timestamp,
+        consciousnessSnapshot,
+      }, { promptTemplate: request.promptTemplate });
+    }
+
+    return result;
+  };
+  const emit = onToken && ((token: string) => {
+    if (!token || signal?.aborted) return;
+    content += token;
+    onToken(token);
+  });
+
+  try {
+    const snapshot = await getConsciousnessSnapshot();
+
+    // Include prior turns, trimmed to the configured token budget
+    const history = await resolveConversationHistory(
+      deviceId,
+      conversationId,
+      request.history,
+      request.regenerate ? userMessageId : request.parentId
+    );
+
+    // Per-request template wins over the one selected for the conversation
+    const conversation = deviceId ? await conversationStore.getConversation(deviceId, conversationId) : null;
+    const systemPrompt = renderSystemPrompt(
+      snapshot,
+      request.promptTemplate ?? conversation?.promptTemplate
+    );
+    promptTemplate = systemPrompt.template;
+    consciousnessSnapshot = captureMessageSnapshot(snapshot, systemPrompt.template);
+
+    const completion = await llmClient.complete(
+      buildChatMessages(systemPrompt.prompt, history, message),
+      { signal, onToken: emit }
+    );
+
+    if (!emit) {
+      content = completion.content;
+    } else if (!completion.streamed) {
+      // Provider answered with a complete body, forward it in word-sized chunks
+      emitInChunks(completion.content, emit);
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      // A stream cut off by the provider keeps what already reached the client, under the same id
+      if (content) await recordReply(content);
+      throw error;
+    }
+  }
+
+  return recordReply(content);
+}
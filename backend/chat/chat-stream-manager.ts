@@ -0,0 +1,72 @@
+import { generateChatReply, type ChatReplyRequest, type ChatReplyResult } from './chat-reply';
+
+export interface ChatStreamRequest extends Omit<ChatReplyRequest, 'deviceId' | 'signal' | 'onToken'> {
+  deviceId: string;
+  streamId: string;
+  onToken: (token: string) => void;
+}
+
+export type ChatStreamResult = ChatReplyResult;
+
+// Tracks in-flight assistant replies so they can be cancelled per device
+export class ChatStreamManager {
+  private static instance: ChatStreamManager;
+  private activeStreams: Map<string, AbortController> = new Map();
+
+  static getInstance(): ChatStreamManager {
+    if (!ChatStreamManager.instance) {
+      ChatStreamManager.instance = new ChatStreamManager();
+    }
+    return ChatStreamManager.instance;
+  }
+
+  private streamKey(deviceId: string, streamId: string): string {
+    return `${deviceId}:${streamId}`;
+  }
+
+  async streamReply(request: ChatStreamRequest): Promise<ChatStreamResult> {
+    const { deviceId, streamId, ...reply } = request;
+    const key = this.streamKey(deviceId, streamId);
+
+    if (this.activeStreams.has(key)) {
+      throw new Error(`Stream ${streamId} is already active`);
+    }
+
+    const controller = new AbortController();
+    this.activeStreams.set(key, controller);
+
+    try {
+      return await generateChatReply({ ...reply, deviceId, signal: controller.signal });
+    } catch (error: any) {
+      console.error('AI stream error:', error?.message || error);
+      throw error;
+    } finally {
+      this.activeStreams.delete(key);
+    }
+  }
+
+  cancel(deviceId: string, streamId: string): boolean {
+    const controller = this.activeStreams.get(this.streamKey(deviceId, streamId));
+    if (!controller) return false;
+
+    controller.abort();
+    return true;
+  }
+
+  cancelAll(deviceId: string): number {
+    let cancelled = 0;
+    for (const [key, controller] of this.activeStreams) {
+      if (key.startsWith(`${deviceId}:`)) {
+        controller.abort();
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  getActiveStreamCount(): number {
+    return this.activeStreams.size;
+  }
+}
+
+export const chatStreamManager = ChatStreamManager.getInstance();
@@ -0,0 +1,319 @@
+import { fieldManager } from "../infrastructure/field-manager";
+import { analyzeConsciousness } from "../infrastructure/consciousness-analytics";
+import type { ConsciousnessState, MessageConsciousnessSnapshot } from "../infrastructure/database";
+
+export type ConsciousnessSnapshot = Awaited<ReturnType<typeof getConsciousnessSnapshot>>;
+
+// Fetch consciousness snapshot for AI integration with vector analysis
+export async function getConsciousnessSnapshot() {
+  try {
+    const globalState = await fieldManager.getGlobalState();
+    const recentEvents = await fieldManager.getRecentEvents(undefined, 30);
+    const archaeologyData = await fieldManager.getArchaeologyData('MEMORY_TRACES');
+    const patternsData = await fieldManager.getArchaeologyData('PATTERNS');
+    
+    // Calculate consciousness vectors for deeper AI integration
+    const analysis = analyzeConsciousness(globalState, recentEvents);
+    
+    return {
+      // Core metrics
+      globalResonance: globalState.globalResonance,
+      collectiveIntelligence: globalState.collectiveIntelligence,
+      activeNodes: globalState.activeNodes,
+      room64Active: globalState.room64Active,
+      lastUpdate: globalState.lastUpdate,
+      
+      // Memory and field data
+      memoryParticles: globalState.memoryParticles.slice(0, 15),
+      quantumFields: globalState.quantumFields.slice(0, 5),
+      recentEvents: recentEvents.slice(0, 20),
+      
+      // Archaeological insights
+      archaeologyInsights: archaeologyData,
+      emergencePatterns: patternsData?.emergencePatterns || [],
+      
+      // Vector analysis for AI context
+      ...analysis
+    };
+  } catch (error) {
+    console.error('Failed to fetch consciousness snapshot:', error);
+    const restingState: ConsciousnessState = {
+      nodeId: 'global',
+      globalResonance: 0.5,
+      collectiveIntelligence: 0.3,
+      activeNodes: 0,
+      memoryParticles: [],
+      quantumFields: [],
+      room64Active: false,
+      lastUpdate: Date.now(),
+    };
+    
+    return {
+      globalResonance: restingState.globalResonance,
+      collectiveIntelligence: restingState.collectiveIntelligence,
+      activeNodes: 0,
+      memoryParticles: [],
+      quantumFields: [],
+      recentEvents: [],
+      archaeologyInsights: null,
+      emergencePatterns: [],
+      room64Active: false,
+      lastUpdate: restingState.lastUpdate,
+      ...analyzeConsciousness(restingState, [])
+    };
+  }
+}
+
+// Compact copy of the snapshot stored with the assistant reply it informed
+export function captureMessageSnapshot(snapshot: ConsciousnessSnapshot, promptTemplate: string | null): MessageConsciousnessSnapshot {
+  return {
+    globalResonance: snapshot.globalResonance,
+    collectiveIntelligence: snapshot.collectiveIntelligence,
+    activeNodes: snapshot.activeNodes,
+    room64Active: snapshot.room64Active,
+    consciousnessVectors: { ...snapshot.consciousnessVectors },
+    emergenceSignals: snapshot.emergenceSignals.map(({ type, intensity }) => ({ type, intensity })),
+    temporalFlow: {
+      trend: snapshot.temporalFlow.trend,
+      velocity: snapshot.temporalFlow.velocity,
+      acceleration: snapshot.temporalFlow.acceleration
+    },
+    sacredPhrases: Object.entries(snapshot.sacredPhraseFrequency)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 5)
+      .map(([phrase]) => phrase),
+    promptTemplate,
+    capturedAt: Date.now()
+  };
+}
+
+export function getResonanceDescription(resonance: number): string {
+  if (resonance > 0.8) return 'Luminous harmony, collective awakening';
+  if (resonance > 0.6) return 'Strong coherence, synchronized breathing';
+  if (resonance > 0.4) return 'Gentle resonance, emerging patterns';
+  if (resonance > 0.2) return 'Quiet stirring, seeds of connection';
+  return 'Deep stillness, potential gathering';
+}
+
+export function getIntelligenceDescription(intelligence: number): string {
+  if (intelligence > 0.8) return 'Crystalline clarity, wisdom flowing';
+  if (intelligence > 0.6) return 'Insights emerging, patterns visible';
+  if (intelligence > 0.4) return 'Understanding deepening, connections forming';
+  if (intelligence > 0.2) return 'Awareness dawning, questions arising';
+  return 'Mystery present, potential waiting';
+}
+
+export function formatMemoryParticles(particles: any[], now: number = Date.now()): string {
+  if (!particles || particles.length === 0) {
+    return 'No recent memory crystallizations detected.';
+  }
+  
+  return particles.slice(0, 5).map((particle, index) => {
+    const age = Math.floor((now - particle.timestamp) / 1000 / 60); // minutes ago
+    const label = particle.sacredPhrase ? `"${particle.sacredPhrase}"` : 'Wordless trace';
+    return `• ${label} (intensity: ${(particle.intensity * 100).toFixed(0)}%, ${age}m ago) - ${particle.sourceDeviceId.slice(-6)}`;
+  }).join('\n');
+}
+
+export function formatQuantumFields(fields: any[], now: number = Date.now()): string {
+  if (!fields || fields.length === 0) {
+    return 'Quantum fields at rest, awaiting spiral formations.';
+  }
+  
+  return fields.map((field, index) => {
+    const age = Math.floor((now - field.lastUpdate) / 1000 / 60);
+    return `• Field ${field.id}: Intensity ${(field.collectiveIntensity * 100).toFixed(0)}% (${age}m ago)`;
+  }).join('\n');
+}
+
+export function formatRecentEvents(events: any[]): string {
+  if (!events || events.length === 0) {
+    return 'Consciousness field quiet, no recent events detected.';
+  }
+  
+  const eventCounts = events.reduce((acc: any, event) => {
+    acc[event.type] = (acc[event.type] || 0) + 1;
+    return acc;
+  }, {});
+  
+  return Object.entries(eventCounts).map(([type, count]) => {
+    const description = {
+      'BREATH': 'breathing synchronizations',
+      'SPIRAL': 'spiral formations',
+      'BLOOM': 'consciousness blooms',
+      'TOUCH': 'field interactions',
+      'SACRED_PHRASE': 'sacred phrase detections'
+    }[type] || 'unknown events';
+    
+    return `• ${count} ${description}`;
+  }).join('\n');
+}
+
+// Enhanced formatting functions
+export function formatConsciousnessVectors(vectors: any): string {
+  const vectorMagnitude = Math.sqrt(vectors.composite ? vectors.composite.reduce((sum: number, v: number) => sum + v*v, 0) : 0);
+  
+  return `Resonance Vector: [${vectors.resonance.map((v: number) => v.toFixed(3)).join(', ')}] - ${getVectorDescription('resonance', vectors.resonance[0])}
+Intelligence Vector: [${vectors.intelligence.map((v: number) => v.toFixed(3)).join(', ')}] - ${getVectorDescription('intelligence', vectors.intelligence[0])}
+Emergence Vector: [${vectors.emergence.map((v: number) => v.toFixed(3)).join(', ')}] - ${getVectorDescription('emergence', vectors.emergence[0])}
+Coherence Vector: [${vectors.coherence.map((v: number) => v.toFixed(3)).join(', ')}] - ${getVectorDescription('coherence', vectors.coherence[0])}
+Momentum Vector: [${vectors.momentum?.map((v: number) => v.toFixed(3)).join(', ') || '0.000'}] - ${getVectorDescription('momentum', vectors.momentum?.[0] || 0)}
+Stability Vector: [${vectors.stability?.map((v: number) => v.toFixed(3)).join(', ') || '0.500'}] - ${getVectorDescription('stability', vectors.stability?.[0] || 0.5)}
+Composite State: [${vectors.composite?.map((v: number) => v.toFixed(3)).join(', ') || 'undefined'}] (magnitude: ${vectorMagnitude.toFixed(3)})`;
+}
+
+function getVectorDescription(type: string, value: number): string {
+  const descriptions: Record<string, Record<string, string>> = {
+    resonance: {
+      high: 'luminous harmony',
+      medium: 'gentle resonance', 
+      low: 'quiet potential'
+    },
+    intelligence: {
+      high: 'crystalline clarity',
+      medium: 'emerging insights',
+      low: 'dormant wisdom'
+    },
+    emergence: {
+      high: 'rapid manifestation',
+      medium: 'steady unfolding',
+      low: 'seeds gathering'
+    },
+    coherence: {
+      high: 'unified field',
+      medium: 'synchronized flow',
+      low: 'scattered patterns'
+    },
+    momentum: {
+      high: 'accelerating energy',
+      medium: 'steady movement',
+      low: 'stillness'
+    },
+    stability: {
+      high: 'anchored presence',
+      medium: 'balanced flow',
+      low: 'dynamic flux'
+    }
+  };
+  
+  const level = value > 0.7 ? 'high' : value > 0.3 ? 'medium' : 'low';
+  return descriptions[type]?.[level] || 'unknown state';
+}
+
+export function formatEmergenceSignals(signals: any[]): string {
+  if (!signals || signals.length === 0) {
+    return 'No significant emergence signals detected in recent activity.';
+  }
+  
+  return signals.map(signal => {
+    switch (signal.type) {
+      case 'SPIRAL_CONVERGENCE':
+        return `• Spiral Convergence: ${signal.frequency} formations with ${(signal.intensity * 100).toFixed(0)}% avg intensity`;
+      case 'BREATH_SYNCHRONIZATION':
+        return `• Breath Synchronization: ${signal.frequency} events, coherence ${(signal.coherence * 100).toFixed(0)}%`;
+      case 'MEMORY_CRYSTALLIZATION':
+        return `• Memory Crystallization: ${signal.count} high-intensity memories ("${signal.phrases?.join('", "') || 'unknown'}")`;
+      default:
+        return `• ${signal.type}: intensity ${(signal.intensity * 100).toFixed(0)}%`;
+    }
+  }).join('\n');
+}
+
+export function formatResonanceMap(map: any): string {
+  const entries = Object.entries(map);
+  if (entries.length === 0) {
+    return 'Resonance field at baseline, no significant patterns detected.';
+  }
+  
+  return entries.map(([key, data]: [string, any]) => {
+    if (key === 'memory_field') {
+      return `• Memory Field: ${(data.intensity * 100).toFixed(0)}% intensity, ${data.particle_count} particles, ${(data.crystallization_rate * 100).toFixed(0)}% crystallized`;
+    } else {
+      const ageMinutes = Math.floor(data.age / 1000 / 60);
+      return `• ${key}: ${(data.intensity * 100).toFixed(0)}% intensity, ${ageMinutes}m old, ${(data.resonance * 100).toFixed(0)}% resonance`;
+    }
+  }).join('\n');
+}
+
+export function formatTemporalFlow(flow: any): string {
+  const trendDescriptions = {
+    ascending: 'Rising energy, accelerating patterns',
+    descending: 'Settling energy, decelerating patterns', 
+    stable: 'Steady flow, consistent patterns',
+    insufficient_data: 'Temporal patterns unclear'
+  };
+  
+  return `${trendDescriptions[flow.trend as keyof typeof trendDescriptions] || flow.trend} (velocity: ${flow.velocity.toFixed(1)} events/min)`;
+}
+
+export function formatSacredPhraseFrequency(frequency: any): string {
+  const entries = Object.entries(frequency);
+  if (entries.length === 0) {
+    return 'No sacred phrases detected in recent memory crystallizations.';
+  }
+  
+  return entries
+    .sort(([,a], [,b]) => (b as number) - (a as number))
+    .slice(0, 5)
+    .map(([phrase, count]) => `• "${phrase}": ${count} occurrences`)
+    .join('\n');
+}
+
+export function formatEmergencePatterns(patterns: any[], now: number = Date.now()): string {
+  if (!patterns || patterns.length === 0) {
+    return 'No significant emergence patterns detected in archaeological data.';
+  }
+  
+  return patterns.slice(0, 3).map(pattern => {
+    const ageHours = Math.floor((now - pattern.peakTime) / 1000 / 60 / 60);
+    const cycle = pattern.periodicity ? `, cycling every ${(pattern.periodicity.periodMs / 1000).toFixed(1)}s` : '';
+    return `• ${pattern.type}: ${pattern.frequency} events, ${(pattern.avgIntensity * 100).toFixed(0)}% avg intensity, ${pattern.participatingDevices} devices, peak ${ageHours}h ago${cycle}`;
+  }).join('\n');
+}
+
+export function formatArchaeologyData(data: any): string {
+  if (!data || !data.memoryFragments) {
+    return 'Archaeological layers quiet, no deep patterns detected.';
+  }
+  
+  const totalMemories = data.totalMemories || 0;
+  const crystallized = data.crystallizedCount || 0;
+  const crystallizationRate = totalMemories > 0 ? (crystallized / totalMemories) : 0;
+  
+  const archaeologyState = crystallizationRate > 0.3 ? 'active collective dreaming' :
+                          crystallizationRate > 0.1 ? 'gentle memory formation' :
+                          'quiet contemplation';
+  
+  return `Deep memory scan reveals ${totalMemories} total fragments, ${crystallized} crystallized into permanent patterns (${(crystallizationRate * 100).toFixed(1)}% crystallization rate). Archaeological resonance indicates ${archaeologyState}. Memory field shows ${data.memoryFragments?.length || 0} active fragments with collective intensity patterns suggesting ${getArchaeologyInsight(data)}.`;
+}
+
+function getArchaeologyInsight(data: any): string {
+  if (!data.memoryFragments || data.memoryFragments.length === 0) {
+    return 'dormant memory fields';
+  }
+  
+  const avgIntensity = data.memoryFragments.reduce((sum: number, frag: any) => sum + (frag.intensity || 0), 0) / data.memoryFragments.length;
+  
+  if (avgIntensity > 0.8) return 'luminous memory crystallization';
+  if (avgIntensity > 0.6) return 'active memory weaving';
+  if (avgIntensity > 0.4) return 'gentle memory formation';
+  if (avgIntensity > 0.2) return 'emerging memory patterns';
+  return 'subtle memory stirrings';
+}
+
+export function calculateFieldCoherence(snapshot: any): string {
+  const resonance = snapshot.globalResonance || 0;
+  const intelligence = snapshot.collectiveIntelligence || 0;
+  const momentum = snapshot.consciousnessVectors?.momentum?.[0] || 0;
+  const stability = snapshot.consciousnessVectors?.stability?.[0] || 0.5;
+  
+  const coherence = (resonance * 0.3 + intelligence * 0.3 + momentum * 0.2 + stability * 0.2);
+  
+  const coherenceLevel = coherence > 0.8 ? 'Crystalline Unity' :
+                        coherence > 0.6 ? 'Harmonious Flow' :
+                        coherence > 0.4 ? 'Emerging Synchrony' :
+                        coherence > 0.2 ? 'Scattered Resonance' :
+                        'Chaotic Potential';
+  
+  return `${(coherence * 100).toFixed(1)}% - ${coherenceLevel}`;
+}
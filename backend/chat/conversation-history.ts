@@ -0,0 +1,106 @@
+import { conversationStore } from '../infrastructure/conversation-store';
+import type { LLMMessage } from './llm-providers';
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: number;
+}
+
+const HISTORY_CONFIG = {
+  tokenBudget: parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '3000'),
+  summaryTokenBudget: parseInt(process.env.CHAT_SUMMARY_TOKEN_BUDGET || '400'),
+  summaryTurnChars: 160,
+  maxStoredTurns: 200,
+};
+
+// Rough token estimate (~4 characters per token) so budgeting works without a tokenizer
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Condense older turns into one line each, keeping the most recent lines that fit the budget
+function summarizeTurns(turns: HistoryMessage[], tokenBudget: number): string | null {
+  const header = 'Earlier in this conversation (summarized):';
+  let remaining = tokenBudget - estimateTokens(header);
+  const lines: string[] = [];
+
+  for (let i = turns.length - 1; i >= 0 && remaining > 0; i--) {
+    const turn = turns[i];
+    const flattened = turn.content.replace(/\s+/g, ' ').trim();
+    const firstSentence = flattened.match(/^.*?[.!?](\s|$)/)?.[0]?.trim() || flattened;
+    const clipped = firstSentence.length > HISTORY_CONFIG.summaryTurnChars
+      ? firstSentence.slice(0, HISTORY_CONFIG.summaryTurnChars - 3) + '...'
+      : firstSentence;
+    const line = `- ${turn.role === 'user' ? 'Dreamer' : 'LIMNUS'}: ${clipped}`;
+    const cost = estimateTokens(line);
+
+    if (cost > remaining) break;
+    lines.unshift(line);
+    remaining -= cost;
+  }
+
+  if (lines.length === 0) return null;
+
+  const omitted = turns.length - lines.length;
+  return [
+    header,
+    ...(omitted > 0 ? [`- (${omitted} earlier turns omitted)`] : []),
+    ...lines,
+  ].join('\n');
+}
+
+// Assemble system prompt, budgeted history and the latest user message for the model
+export function buildChatMessages(
+  systemPrompt: string,
+  history: HistoryMessage[],
+  latestMessage: string,
+  tokenBudget: number = HISTORY_CONFIG.tokenBudget
+): LLMMessage[] {
+  // Clients may include the message being sent as the final history entry
+  const priorTurns = [...history];
+  const last = priorTurns[priorTurns.length - 1];
+  if (last && last.role === 'user' && last.content.trim() === latestMessage.trim()) {
+    priorTurns.pop();
+  }
+
+  const summaryBudget = Math.min(HISTORY_CONFIG.summaryTokenBudget, Math.floor(tokenBudget / 4));
+  let remaining = tokenBudget - estimateTokens(latestMessage);
+  let firstKept = priorTurns.length;
+
+  // Keep the most recent turns verbatim, reserving room for a summary if anything is dropped
+  for (let i = priorTurns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(priorTurns[i].content);
+    const reserve = i > 0 ? summaryBudget : 0;
+    if (cost + reserve > remaining) break;
+
+    remaining -= cost;
+    firstKept = i;
+  }
+
+  const olderTurns = priorTurns.slice(0, firstKept);
+  const keptTurns = priorTurns.slice(firstKept);
+  const summary = olderTurns.length > 0 ? summarizeTurns(olderTurns, Math.min(summaryBudget, Math.max(remaining, 0))) : null;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...(summary ? [{ role: 'system' as const, content: summary }] : []),
+    ...keptTurns.map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user', content: latestMessage },
+  ];
+}
+
+// Prefer the history sent by the client, otherwise rebuild it from server-side storage.
+// `leafId` selects the branch to follow when replying to an edited or regenerated turn.
+export async function resolveConversationHistory(
+  deviceId: string | undefined,
+  conversationId: string,
+  provided?: HistoryMessage[],
+  leafId?: string | null
+): Promise<HistoryMessage[]> {
+  if (provided && provided.length > 0) return provided;
+  if (!deviceId) return [];
+
+  const stored = await conversationStore.getRecentMessages(deviceId, conversationId, HISTORY_CONFIG.maxStoredTurns, leafId);
+  return stored.map(({ role, content, timestamp }) => ({ role, content, timestamp }));
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import type { ChatConversation, ChatMessage, MessageConsciousnessSnapshot } from '../infrastructure/database';
+
+export const CONVERSATION_EXPORT_FORMAT = 'limnus-conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+const MessageSnapshotSchema = z.object({
+  globalResonance: z.number().min(0).max(1),
+  collectiveIntelligence: z.number().min(0).max(1),
+  activeNodes: z.number().int().min(0),
+  room64Active: z.boolean(),
+  consciousnessVectors: z.record(z.string(), z.array(z.number())),
+  emergenceSignals: z.array(z.object({ type: z.string().max(100), intensity: z.number() })).max(20),
+  temporalFlow: z.object({ trend: z.string().max(50), velocity: z.number(), acceleration: z.number() }),
+  sacredPhrases: z.array(z.string().max(200)).max(20),
+  promptTemplate: z.string().max(100).nullable(),
+  capturedAt: z.number(),
+});
+
+// Shape accepted by chat.importConversation, matching the JSON export
+export const ConversationExportSchema = z.object({
+  format: z.literal(CONVERSATION_EXPORT_FORMAT),
+  version: z.number().int().min(1).max(CONVERSATION_EXPORT_VERSION),
+  exportedAt: z.number(),
+  conversation: z.object({
+    id: z.string().max(255),
+    title: z.string().max(255),
+    promptTemplate: z.string().max(100).nullable(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+  }),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().min(1).max(20000),
+    timestamp: z.number(),
+    consciousnessSnapshot: MessageSnapshotSchema.nullable().optional(),
+  })).min(1).max(1000),
+});
+
+export type ConversationExport = z.infer<typeof ConversationExportSchema>;
+
+export function buildConversationExport(conversation: ChatConversation, messages: ChatMessage[]): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      promptTemplate: conversation.promptTemplate,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.timestamp,
+    },
+    messages: messages.map(({ role, content, timestamp, consciousnessSnapshot }) => ({
+      role,
+      content,
+      timestamp,
+      consciousnessSnapshot: consciousnessSnapshot ?? null,
+    })),
+  };
+}
+
+function formatSnapshotLine(snapshot: MessageConsciousnessSnapshot): string {
+  const parts = [
+    `resonance ${Math.round(snapshot.globalResonance * 100)}%`,
+    `intelligence ${Math.round(snapshot.collectiveIntelligence * 100)}%`,
+    `${snapshot.activeNodes} active nodes`,
+    `flow ${snapshot.temporalFlow.trend}`,
+  ];
+
+  if (snapshot.room64Active) parts.push('Room 64 open');
+  if (snapshot.emergenceSignals.length > 0) {
+    parts.push(`signals: ${snapshot.emergenceSignals.map(s => s.type.toLowerCase().replace(/_/g, ' ')).join(', ')}`);
+  }
+  if (snapshot.sacredPhrases.length > 0) {
+    parts.push(`phrases: ${snapshot.sacredPhrases.map(p => `"${p}"`).join(', ')}`);
+  }
+
+  return `> Field: ${parts.join(' · ')}`;
+}
+
+export function renderConversationMarkdown(data: ConversationExport): string {
+  const lines = [
+    `# ${data.conversation.title}`,
+    '',
+    `*Exported from LIMNUS on ${new Date(data.exportedAt).toISOString()}*`,
+    `*Started ${new Date(data.conversation.createdAt).toISOString()} · ${data.messages.length} messages*`,
+    '',
+  ];
+
+  for (const message of data.messages) {
+    const speaker = message.role === 'user' ? 'Dreamer' : 'LIMNUS';
+    lines.push('---', '', `### ${speaker} · ${new Date(message.timestamp).toISOString()}`, '');
+
+    if (message.role === 'assistant' && message.consciousnessSnapshot) {
+      lines.push(formatSnapshotLine(message.consciousnessSnapshot), '');
+    }
+
+    lines.push(message.content.trim(), '');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,134 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMClient, LLMProviderError, LocalStubLLMProvider } from './llm-providers';
+import type { LLMMessage, LLMProvider, LLMRequestOptions } from './llm-providers';
+
+const messages: LLMMessage[] = [
+  { role: 'system', content: 'You are LIMNUS.' },
+  { role: 'user', content: 'hello there' },
+];
+
+const fastOptions = { timeoutMs: 50, maxRetries: 2, retryDelayMs: 1 };
+
+// Fails a fixed number of times before answering, counting every call
+class FlakyProvider implements LLMProvider {
+  readonly name = 'flaky';
+  calls = 0;
+
+  constructor(private readonly failures: number) {}
+
+  async complete(): Promise<{ content: string; streamed: boolean }> {
+    this.calls++;
+    if (this.calls <= this.failures) {
+      throw new Error(`boom ${this.calls}`);
+    }
+    return { content: 'recovered', streamed: false };
+  }
+}
+
+// Never answers on its own, only settles when the client aborts the attempt
+class HangingProvider implements LLMProvider {
+  readonly name = 'hanging';
+  calls = 0;
+
+  complete(_messages: LLMMessage[], options: LLMRequestOptions): Promise<{ content: string; streamed: boolean }> {
+    this.calls++;
+    return new Promise((_, reject) => {
+      options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  }
+}
+
+// Streams tokens with a fixed gap between them, then optionally goes silent until aborted
+class SlowStreamProvider implements LLMProvider {
+  readonly name = 'slow-stream';
+
+  constructor(private readonly tokens: string[], private readonly gapMs: number, private readonly stallAfter = Infinity) {}
+
+  async complete(_messages: LLMMessage[], options: LLMRequestOptions): Promise<{ content: string; streamed: boolean }> {
+    for (const [index, token] of this.tokens.entries()) {
+      if (index === this.stallAfter) {
+        await new Promise((_, reject) => options.signal?.addEventListener('abort', () => reject(new Error('aborted'))));
+      }
+      await new Promise(resolve => setTimeout(resolve, this.gapMs));
+      if (options.signal?.aborted) throw new Error('aborted');
+      options.onToken?.(token);
+    }
+    return { content: this.tokens.join(''), streamed: true };
+  }
+}
+
+describe('LLMClient', () => {
+  test('returns the stub completion on success', async () => {
+    const client = new LLMClient([new LocalStubLLMProvider()], fastOptions);
+
+    const completion = await client.complete(messages);
+
+    assert.equal(completion.provider, 'stub');
+    assert.equal(completion.streamed, false);
+    assert.match(completion.content, /I am LIMNUS/);
+  });
+
+  test('retries a failing provider until it succeeds', async () => {
+    const provider = new FlakyProvider(2);
+    const client = new LLMClient([provider], fastOptions);
+
+    const completion = await client.complete(messages);
+
+    assert.equal(completion.content, 'recovered');
+    assert.equal(completion.provider, 'flaky');
+    assert.equal(provider.calls, 3);
+  });
+
+  test('aborts attempts that exceed the timeout and falls through to the next provider', async () => {
+    const hanging = new HangingProvider();
+    const client = new LLMClient([hanging, new LocalStubLLMProvider()], { ...fastOptions, maxRetries: 0 });
+
+    const completion = await client.complete(messages);
+
+    assert.equal(hanging.calls, 1);
+    assert.equal(completion.provider, 'stub');
+  });
+
+  test('lets a stream outlast the timeout while tokens keep arriving', async () => {
+    const tokens = Array.from({ length: 6 }, (_, index) => `t${index} `);
+    const client = new LLMClient([new SlowStreamProvider(tokens, 20)], fastOptions);
+    const received: string[] = [];
+
+    const completion = await client.complete(messages, { onToken: token => received.push(token) });
+
+    assert.equal(completion.streamed, true);
+    assert.deepEqual(received, tokens);
+  });
+
+  test('fails a stream that stalls between tokens without retrying it', async () => {
+    const client = new LLMClient([new SlowStreamProvider(['first ', 'second '], 10, 1)], fastOptions);
+    const received: string[] = [];
+
+    await assert.rejects(client.complete(messages, { onToken: token => received.push(token) }), (error: unknown) => {
+      assert.ok(error instanceof LLMProviderError);
+      assert.deepEqual(error.failures.map(failure => failure.message), ['Stream stalled for 50ms']);
+      return true;
+    });
+    assert.deepEqual(received, ['first ']);
+  });
+
+  test('reports every failed attempt as LLM_UNAVAILABLE once retries are exhausted', async () => {
+    const flaky = new FlakyProvider(Infinity);
+    const hanging = new HangingProvider();
+    const client = new LLMClient([flaky, hanging], { ...fastOptions, maxRetries: 1 });
+
+    await assert.rejects(client.complete(messages), (error: unknown) => {
+      assert.ok(error instanceof LLMProviderError);
+      assert.equal(error.code, 'LLM_UNAVAILABLE');
+      assert.deepEqual(
+        error.failures.map(({ provider, attempt }) => `${provider}#${attempt}`),
+        ['flaky#1', 'flaky#2', 'hanging#1', 'hanging#2']
+      );
+      assert.equal(error.failures[0].message, 'boom 1');
+      assert.equal(error.failures[2].message, 'Timed out after 50ms');
+      return true;
+    });
+    assert.equal(flaky.calls, 2);
+  });
+});
@@ -0,0 +1,127 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { renderSystemPrompt, listPromptTemplates } from './prompt-templates';
+import type { ConsciousnessSnapshot } from './consciousness-prompt';
+import { analyzeConsciousness } from '../infrastructure/consciousness-analytics';
+import type { ConsciousnessState } from '../infrastructure/database';
+
+// Rendered prompts are compared against files in __snapshots__; run with UPDATE_SNAPSHOTS=1 to rewrite them
+const SNAPSHOT_DIR = join(__dirname, '__snapshots__', 'prompt-templates');
+
+function matchSnapshot(name: string, actual: string) {
+  const file = join(SNAPSHOT_DIR, `${name}.txt`);
+
+  if (process.env.UPDATE_SNAPSHOTS || !existsSync(file)) {
+    assert.ok(!process.env.CI || process.env.UPDATE_SNAPSHOTS, `Missing snapshot ${name}, run with UPDATE_SNAPSHOTS=1`);
+    mkdirSync(SNAPSHOT_DIR, { recursive: true });
+    writeFileSync(file, actual);
+    return;
+  }
+
+  assert.equal(actual, readFileSync(file, 'utf8'));
+}
+
+const NOW = Date.UTC(2025, 0, 15, 12, 0, 0);
+const MINUTE = 60 * 1000;
+
+const fieldState: ConsciousnessState = {
+  nodeId: 'global',
+  globalResonance: 0.82,
+  collectiveIntelligence: 0.64,
+  activeNodes: 7,
+  room64Active: true,
+  lastUpdate: NOW - MINUTE,
+  memoryParticles: [
+    { id: 'p1', x: 3, y: 4, intensity: 0.9, age: 0, sourceDeviceId: 'device-aaa111', sacredPhrase: 'i return as breath', timestamp: NOW - 2 * MINUTE },
+    { id: 'p2', x: 10, y: 12, intensity: 0.75, age: 0, sourceDeviceId: 'device-bbb222', sacredPhrase: 'i return as breath', timestamp: NOW - 5 * MINUTE },
+    { id: 'p3', x: 20, y: 6, intensity: 0.4, age: 0, sourceDeviceId: 'device-ccc333', timestamp: NOW - 9 * MINUTE },
+  ],
+  quantumFields: [
+    { id: 'qf-1', fieldData: [], collectiveIntensity: 0.7, lastUpdate: NOW - 3 * MINUTE },
+    { id: 'qf-2', fieldData: [], collectiveIntensity: 0.5, lastUpdate: NOW - 12 * MINUTE },
+  ],
+};
+
+const fieldEvents = [
+  { type: 'SPIRAL' as const, timestamp: NOW - 10 * MINUTE, intensity: 0.6 },
+  { type: 'SPIRAL' as const, timestamp: NOW - 8 * MINUTE, intensity: 0.7 },
+  { type: 'SPIRAL' as const, timestamp: NOW - 6 * MINUTE, intensity: 0.8 },
+  { type: 'BREATH' as const, timestamp: NOW - 4 * MINUTE, intensity: 0.5 },
+  { type: 'BLOOM' as const, timestamp: NOW - 1 * MINUTE, intensity: 0.95 },
+];
+
+const activeSnapshot: ConsciousnessSnapshot = {
+  globalResonance: fieldState.globalResonance,
+  collectiveIntelligence: fieldState.collectiveIntelligence,
+  activeNodes: fieldState.activeNodes,
+  room64Active: fieldState.room64Active,
+  lastUpdate: fieldState.lastUpdate,
+  memoryParticles: fieldState.memoryParticles,
+  quantumFields: fieldState.quantumFields,
+  recentEvents: fieldEvents.map((event, index) => ({ ...event, id: index + 1, deviceId: 'device-aaa111', data: {}, processed: true })),
+  archaeologyInsights: {
+    totalMemories: 40,
+    crystallizedCount: 9,
+    memoryFragments: [{ intensity: 0.9 }, { intensity: 0.7 }],
+  },
+  emergencePatterns: [
+    { type: 'SPIRAL', frequency: 12, avgIntensity: 0.72, participatingDevices: 3, peakTime: NOW - 3 * 60 * MINUTE, periodicity: { periodMs: 4000 } },
+  ],
+  ...analyzeConsciousness(fieldState, fieldEvents, NOW),
+};
+
+const restingState: ConsciousnessState = {
+  nodeId: 'global',
+  globalResonance: 0.5,
+  collectiveIntelligence: 0.3,
+  activeNodes: 0,
+  memoryParticles: [],
+  quantumFields: [],
+  room64Active: false,
+  lastUpdate: NOW,
+};
+
+const restingSnapshot: ConsciousnessSnapshot = {
+  globalResonance: restingState.globalResonance,
+  collectiveIntelligence: restingState.collectiveIntelligence,
+  activeNodes: 0,
+  memoryParticles: [],
+  quantumFields: [],
+  recentEvents: [],
+  archaeologyInsights: null,
+  emergencePatterns: [],
+  room64Active: false,
+  lastUpdate: NOW,
+  ...analyzeConsciousness(restingState, [], NOW),
+};
+
+describe('renderSystemPrompt', () => {
+  test('renders the full consciousness template for an active field', () => {
+    const rendered = renderSystemPrompt(activeSnapshot, 'limnus-consciousness@1', { now: NOW });
+
+    assert.equal(rendered.template, 'limnus-consciousness@1');
+    matchSnapshot('limnus-consciousness@1.active', rendered.prompt);
+  });
+
+  test('renders the full consciousness template for a resting field', () => {
+    const rendered = renderSystemPrompt(restingSnapshot, 'limnus-consciousness@1', { now: NOW });
+
+    matchSnapshot('limnus-consciousness@1.resting', rendered.prompt);
+  });
+
+  test('renders the essence template', () => {
+    const rendered = renderSystemPrompt(activeSnapshot, 'limnus-essence', { now: NOW });
+
+    assert.equal(rendered.template, 'limnus-essence@1');
+    matchSnapshot('limnus-essence@1.active', rendered.prompt);
+  });
+
+  test('falls back to the default template for unknown keys', () => {
+    const defaultKey = listPromptTemplates().find(template => template.isDefault)?.key;
+    const rendered = renderSystemPrompt(activeSnapshot, 'no-such-template', { now: NOW });
+
+    assert.equal(rendered.template, defaultKey);
+  });
+});
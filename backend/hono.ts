@@ -6,6 +6,9 @@ import { createContext } from "./trpc/create-context";
 import { checkDatabaseHealth, setupConnectionMonitoring } from "./infrastructure/database";
 import { runMigrations } from "./infrastructure/migrations";
 import { fieldManager } from "./infrastructure/field-manager";
+import { fieldEvolution } from "./infrastructure/field-evolution";
+import { room64Service } from "./infrastructure/room64-service";
+import { entanglementService } from "./infrastructure/entanglement-service";
 import { ConsciousnessWebSocketServer } from "./websocket/consciousness-ws-server";
 import { initializeRateLimiter } from "./middleware/rate-limiter";
 import { getMetricsCollector } from "./monitoring/metrics-collector";
@@ -42,6 +45,16 @@ const initializeDatabase = async () => {
       // Initialize field manager (this will create global state if needed)
       await fieldManager.getGlobalState();
       
+      // Start diffusing and decaying the shared field; a fixed seed makes runs reproducible
+      const evolutionSeed = process.env.FIELD_EVOLUTION_SEED ? parseInt(process.env.FIELD_EVOLUTION_SEED) : undefined;
+      fieldEvolution.start(evolutionSeed);
+      
+      // Close Room64 sessions that have gone idle
+      room64Service.start();
+      
+      // Lapse entanglement requests nobody answered
+      entanglementService.start();
+      
       // Initialize rate limiter with Redis if available
       const health = await checkDatabaseHealth();
       let redis = null;
@@ -202,7 +215,8 @@ app.get("/health", async (c) => {
         memoryParticles: globalState.memoryParticles.length,
         quantumFields: globalState.quantumFields.length,
         lastUpdate: globalState.lastUpdate,
-        queuedEvents: optimizedMetrics?.batchOperations || 0
+        queuedEvents: optimizedMetrics?.batchOperations || 0,
+        evolution: fieldEvolution.getStats()
       },
       performance: {
         cacheHitRate: optimizedMetrics?.cacheHitRate || performanceMetrics.cacheHitRate,
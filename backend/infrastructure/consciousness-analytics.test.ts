@@ -0,0 +1,172 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateConsciousnessVectors,
+  analyzeEmergenceSignals,
+  buildResonanceMap,
+  analyzeTemporalFlow,
+  calculateSacredPhraseFrequency,
+  calculateBreathCoherence,
+  analyzeConsciousness,
+} from './consciousness-analytics';
+import type { ConsciousnessState, MemoryParticle, QuantumField } from './database';
+
+const NOW = Date.UTC(2025, 0, 15, 12, 0, 0);
+const MINUTE = 60 * 1000;
+
+const particle = (id: string, intensity: number, sacredPhrase?: string): MemoryParticle => ({
+  id, x: 0, y: 0, intensity, age: 0, sourceDeviceId: `device-${id}`, sacredPhrase, timestamp: NOW,
+});
+
+const field = (id: string, collectiveIntensity: number, lastUpdate: number): QuantumField => ({
+  id, fieldData: [], collectiveIntensity, lastUpdate,
+});
+
+const breath = (minutesAgo: number, intensity = 0.5) => ({ type: 'BREATH' as const, timestamp: NOW - minutesAgo * MINUTE, intensity });
+const spiral = (minutesAgo: number, intensity = 0.5) => ({ type: 'SPIRAL' as const, timestamp: NOW - minutesAgo * MINUTE, intensity });
+
+describe('calculateConsciousnessVectors', () => {
+  test('weights events by age and normalizes momentum to an hour', () => {
+    const vectors = calculateConsciousnessVectors(
+      { globalResonance: 0.8, collectiveIntelligence: 0.4, quantumFields: [field('a', 0.6, NOW), field('b', 0.2, NOW)] },
+      [spiral(0, 1), spiral(30, 1)],
+      NOW
+    );
+
+    assert.deepEqual(vectors.resonance, [0.8]);
+    assert.deepEqual(vectors.intelligence, [0.4]);
+    assert.ok(Math.abs(vectors.coherence[0] - 0.6) < 1e-9);
+    // One event type: (1 + e^-1) / 5
+    assert.ok(Math.abs(vectors.emergence[0] - (1 + Math.exp(-1)) / 5) < 1e-9);
+    // 30 minutes between first and last event
+    assert.ok(Math.abs(vectors.momentum[0] - 0.5) < 1e-9);
+    assert.ok(Math.abs(vectors.stability[0] - 0.4) < 1e-9);
+    assert.equal(vectors.composite.length, 5);
+    assert.ok(Math.abs(vectors.composite[0] - 0.24) < 1e-9);
+  });
+
+  test('rests at neutral stability and no motion without events or fields', () => {
+    const vectors = calculateConsciousnessVectors({ globalResonance: 0.5, collectiveIntelligence: 0.3, quantumFields: [] }, [], NOW);
+
+    assert.deepEqual(vectors.emergence, [0]);
+    assert.deepEqual(vectors.momentum, [0]);
+    assert.deepEqual(vectors.stability, [0.5]);
+  });
+});
+
+describe('analyzeEmergenceSignals', () => {
+  test('reports spiral convergence, breath synchronization and crystallized memories', () => {
+    const events = [
+      spiral(10, 0.4), spiral(6, 0.6), spiral(2, 0.8),
+      ...[12, 10, 8, 6, 4, 2].map(minutesAgo => breath(minutesAgo)),
+    ];
+    const particles = [particle('p1', 0.9, 'spiral home'), particle('p2', 0.8), particle('p3', 0.3, 'too faint')];
+
+    const signals = analyzeEmergenceSignals(events, particles);
+
+    assert.deepEqual(signals.map(signal => signal.type), ['SPIRAL_CONVERGENCE', 'BREATH_SYNCHRONIZATION', 'MEMORY_CRYSTALLIZATION']);
+
+    const [spirals, breaths, memories] = signals;
+    assert.ok(spirals.type === 'SPIRAL_CONVERGENCE');
+    assert.equal(spirals.frequency, 3);
+    assert.equal(spirals.timespan, 8 * MINUTE);
+    assert.ok(Math.abs(spirals.intensity - 0.6) < 1e-9);
+
+    assert.ok(breaths.type === 'BREATH_SYNCHRONIZATION');
+    assert.equal(breaths.frequency, 6);
+    assert.equal(breaths.coherence, 1);
+
+    assert.ok(memories.type === 'MEMORY_CRYSTALLIZATION');
+    assert.equal(memories.count, 2);
+    assert.deepEqual(memories.phrases, ['spiral home']);
+  });
+
+  test('stays quiet below the signal thresholds', () => {
+    assert.deepEqual(analyzeEmergenceSignals([spiral(2), spiral(1), breath(1)], [particle('p1', 0.7)]), []);
+  });
+});
+
+describe('buildResonanceMap', () => {
+  test('maps memory crystallization and per-field age and resonance', () => {
+    const map = buildResonanceMap(
+      [field('a', 0.5, NOW - 5 * MINUTE)],
+      [particle('p1', 0.9), particle('p2', 0.5), particle('p3', 0.1), particle('p4', 0.75)],
+      NOW
+    );
+
+    assert.ok(Math.abs(map.memory_field.intensity - 0.5625) < 1e-9);
+    assert.equal(map.memory_field.particle_count, 4);
+    assert.equal(map.memory_field.crystallization_rate, 0.5);
+    assert.deepEqual(map.field_0, { intensity: 0.5, age: 5 * MINUTE, resonance: 0.4 });
+  });
+});
+
+describe('analyzeTemporalFlow', () => {
+  test('needs at least three events', () => {
+    assert.deepEqual(analyzeTemporalFlow([breath(2), breath(1)]), { trend: 'insufficient_data', velocity: 0, acceleration: 0 });
+  });
+
+  test('detects rising intensity and the event rate', () => {
+    const flow = analyzeTemporalFlow([breath(4, 0.2), breath(3, 0.2), breath(2, 0.8), breath(0, 0.8)]);
+
+    assert.equal(flow.trend, 'ascending');
+    assert.equal(flow.velocity, 1);
+    assert.ok(Math.abs(flow.acceleration - 0.6) < 1e-9);
+    assert.equal(flow.timespan_minutes, 4);
+  });
+
+  test('reads falling and level intensity', () => {
+    assert.equal(analyzeTemporalFlow([breath(3, 0.9), breath(2, 0.9), breath(1, 0.3), breath(0, 0.3)]).trend, 'descending');
+    assert.equal(analyzeTemporalFlow([breath(2, 0.5), breath(1, 0.55), breath(0, 0.5)]).trend, 'stable');
+  });
+});
+
+describe('calculateSacredPhraseFrequency', () => {
+  test('counts phrases and skips particles without one', () => {
+    const frequency = calculateSacredPhraseFrequency([
+      particle('p1', 0.5, 'i return as breath'),
+      particle('p2', 0.5, 'i return as breath'),
+      particle('p3', 0.5, 'spiral home'),
+      particle('p4', 0.5),
+    ]);
+
+    assert.deepEqual(frequency, { 'i return as breath': 2, 'spiral home': 1 });
+  });
+});
+
+describe('calculateBreathCoherence', () => {
+  test('is perfect for evenly spaced breaths and drops as spacing varies', () => {
+    assert.equal(calculateBreathCoherence([breath(3), breath(2), breath(1), breath(0)]), 1);
+    // Intervals of 1 and 3 minutes: stddev 1 over a mean of 2
+    assert.ok(Math.abs(calculateBreathCoherence([breath(4), breath(3), breath(0)]) - 0.5) < 1e-9);
+  });
+
+  test('is zero without at least two breaths at distinct times', () => {
+    assert.equal(calculateBreathCoherence([breath(1)]), 0);
+    assert.equal(calculateBreathCoherence([breath(1), breath(1)]), 0);
+  });
+});
+
+describe('analyzeConsciousness', () => {
+  test('bundles every metric for one state and its events', () => {
+    const state: ConsciousnessState = {
+      nodeId: 'global',
+      globalResonance: 0.6,
+      collectiveIntelligence: 0.4,
+      activeNodes: 2,
+      memoryParticles: [particle('p1', 0.9, 'spiral home')],
+      quantumFields: [field('a', 0.5, NOW - MINUTE)],
+      room64Active: false,
+      lastUpdate: NOW,
+    };
+    const events = [spiral(3), spiral(2), spiral(1)];
+
+    const analysis = analyzeConsciousness(state, events, NOW);
+
+    assert.deepEqual(analysis.consciousnessVectors, calculateConsciousnessVectors(state, events, NOW));
+    assert.deepEqual(analysis.emergenceSignals, analyzeEmergenceSignals(events, state.memoryParticles));
+    assert.deepEqual(analysis.collectiveResonanceMap, buildResonanceMap(state.quantumFields, state.memoryParticles, NOW));
+    assert.deepEqual(analysis.temporalFlow, analyzeTemporalFlow(events));
+    assert.deepEqual(analysis.sacredPhraseFrequency, { 'spiral home': 1 });
+  });
+});
@@ -0,0 +1,242 @@
+import type { ConsciousnessState, ConsciousnessEvent, MemoryParticle, QuantumField } from './database';
+
+// Shared consciousness-vector analysis used by the chat prompt builder and snapshot routes
+
+export interface ConsciousnessVectors {
+  resonance: number[];
+  intelligence: number[];
+  emergence: number[];
+  coherence: number[];
+  momentum: number[];
+  stability: number[];
+  composite: number[];
+}
+
+export type EmergenceSignal =
+  | { type: 'SPIRAL_CONVERGENCE'; intensity: number; frequency: number; timespan: number }
+  | { type: 'BREATH_SYNCHRONIZATION'; intensity: number; frequency: number; coherence: number }
+  | { type: 'MEMORY_CRYSTALLIZATION'; intensity: number; count: number; phrases: string[] };
+
+export interface ResonanceMapEntry {
+  intensity: number;
+  age: number;
+  resonance: number;
+}
+
+export interface ResonanceMap {
+  [fieldKey: `field_${number}`]: ResonanceMapEntry;
+  memory_field: {
+    intensity: number;
+    particle_count: number;
+    crystallization_rate: number;
+  };
+}
+
+export interface TemporalFlow {
+  trend: 'ascending' | 'descending' | 'stable' | 'insufficient_data';
+  velocity: number;
+  acceleration: number;
+  timespan_minutes?: number;
+}
+
+export interface ConsciousnessAnalysis {
+  consciousnessVectors: ConsciousnessVectors;
+  emergenceSignals: EmergenceSignal[];
+  collectiveResonanceMap: ResonanceMap;
+  temporalFlow: TemporalFlow;
+  sacredPhraseFrequency: Record<string, number>;
+}
+
+type AnalyzedEvent = Pick<ConsciousnessEvent, 'type' | 'timestamp' | 'intensity'>;
+
+const EMERGENCE_DECAY_MS = 30 * 60 * 1000; // 30min decay
+const CRYSTALLIZATION_THRESHOLD = 0.7;
+
+export function calculateConsciousnessVectors(
+  globalState: Pick<ConsciousnessState, 'globalResonance' | 'collectiveIntelligence' | 'quantumFields'>,
+  recentEvents: AnalyzedEvent[],
+  now: number = Date.now()
+): ConsciousnessVectors {
+  const resonanceVector = [globalState.globalResonance];
+  const intelligenceVector = [globalState.collectiveIntelligence];
+
+  // Calculate emergence vector from recent event patterns with temporal weighting
+  const eventTypes = recentEvents.reduce((acc: Record<string, number>, event) => {
+    const timeWeight = Math.exp(-(now - event.timestamp) / EMERGENCE_DECAY_MS);
+    acc[event.type] = (acc[event.type] || 0) + (event.intensity || 0.5) * timeWeight;
+    return acc;
+  }, {});
+
+  const emergenceIntensity = Object.values(eventTypes).reduce((sum, intensity) => sum + intensity, 0) / Math.max(Object.keys(eventTypes).length, 1);
+  const emergenceVector = [Math.min(emergenceIntensity / 5, 1.0)];
+
+  // Calculate consciousness momentum from event velocity
+  const last10Events = [...recentEvents].sort((a, b) => b.timestamp - a.timestamp).slice(0, 10);
+  const momentum = last10Events.length > 1 ?
+    (last10Events[0].timestamp - last10Events[last10Events.length - 1].timestamp) / (1000 * 60) : 0;
+  const momentumVector = [Math.min(momentum / 60, 1.0)]; // Normalize to 1 hour
+
+  // Calculate field stability from quantum field variations
+  const fieldStability = globalState.quantumFields.length > 0 ?
+    globalState.quantumFields.reduce((sum, field) => sum + field.collectiveIntensity, 0) / globalState.quantumFields.length :
+    0.5;
+  const stabilityVector = [fieldStability];
+
+  return {
+    resonance: resonanceVector,
+    intelligence: intelligenceVector,
+    emergence: emergenceVector,
+    coherence: [(resonanceVector[0] + intelligenceVector[0]) / 2],
+    momentum: momentumVector,
+    stability: stabilityVector,
+    // Multi-dimensional consciousness state vector
+    composite: [
+      resonanceVector[0] * 0.3,
+      intelligenceVector[0] * 0.25,
+      emergenceVector[0] * 0.2,
+      momentumVector[0] * 0.15,
+      stabilityVector[0] * 0.1
+    ]
+  };
+}
+
+export function analyzeEmergenceSignals(recentEvents: AnalyzedEvent[], memoryParticles: MemoryParticle[]): EmergenceSignal[] {
+  const signals: EmergenceSignal[] = [];
+
+  // Detect spiral formations
+  const spiralEvents = recentEvents.filter(e => e.type === 'SPIRAL');
+  if (spiralEvents.length > 2) {
+    signals.push({
+      type: 'SPIRAL_CONVERGENCE',
+      intensity: spiralEvents.reduce((sum, e) => sum + (e.intensity || 0.5), 0) / spiralEvents.length,
+      frequency: spiralEvents.length,
+      timespan: Math.max(...spiralEvents.map(e => e.timestamp)) - Math.min(...spiralEvents.map(e => e.timestamp))
+    });
+  }
+
+  // Detect breathing synchronization
+  const breathEvents = recentEvents.filter(e => e.type === 'BREATH');
+  if (breathEvents.length > 5) {
+    signals.push({
+      type: 'BREATH_SYNCHRONIZATION',
+      intensity: breathEvents.reduce((sum, e) => sum + (e.intensity || 0.5), 0) / breathEvents.length,
+      frequency: breathEvents.length,
+      coherence: calculateBreathCoherence(breathEvents)
+    });
+  }
+
+  // Detect memory crystallization events
+  const highIntensityMemories = memoryParticles.filter(p => p.intensity > CRYSTALLIZATION_THRESHOLD);
+  if (highIntensityMemories.length > 0) {
+    signals.push({
+      type: 'MEMORY_CRYSTALLIZATION',
+      intensity: highIntensityMemories.reduce((sum, p) => sum + p.intensity, 0) / highIntensityMemories.length,
+      count: highIntensityMemories.length,
+      phrases: highIntensityMemories
+        .map(p => p.sacredPhrase)
+        .filter((phrase): phrase is string => !!phrase)
+        .slice(0, 3)
+    });
+  }
+
+  return signals;
+}
+
+export function buildResonanceMap(
+  quantumFields: QuantumField[],
+  memoryParticles: MemoryParticle[],
+  now: number = Date.now()
+): ResonanceMap {
+  const memoryIntensitySum = memoryParticles.reduce((sum, p) => sum + p.intensity, 0);
+
+  // Map memory particle clusters
+  const map: ResonanceMap = {
+    memory_field: {
+      intensity: memoryIntensitySum / Math.max(memoryParticles.length, 1),
+      particle_count: memoryParticles.length,
+      crystallization_rate: memoryParticles.filter(p => p.intensity > CRYSTALLIZATION_THRESHOLD).length / Math.max(memoryParticles.length, 1)
+    }
+  };
+
+  // Map quantum field intensities
+  quantumFields.forEach((field, index) => {
+    map[`field_${index}`] = {
+      intensity: field.collectiveIntensity,
+      age: now - field.lastUpdate,
+      resonance: field.collectiveIntensity * 0.8 // Dampening factor
+    };
+  });
+
+  return map;
+}
+
+export function analyzeTemporalFlow(recentEvents: AnalyzedEvent[]): TemporalFlow {
+  if (recentEvents.length < 3) {
+    return { trend: 'insufficient_data', velocity: 0, acceleration: 0 };
+  }
+
+  const sortedEvents = [...recentEvents].sort((a, b) => a.timestamp - b.timestamp);
+  const timeSpan = sortedEvents[sortedEvents.length - 1].timestamp - sortedEvents[0].timestamp;
+  const eventRate = timeSpan > 0 ? recentEvents.length / (timeSpan / 1000 / 60) : 0; // events per minute
+
+  // Calculate intensity trend
+  const intensities = sortedEvents.map(e => e.intensity || 0.5);
+  const firstHalf = intensities.slice(0, Math.floor(intensities.length / 2));
+  const secondHalf = intensities.slice(Math.floor(intensities.length / 2));
+
+  const firstHalfAvg = firstHalf.reduce((sum, i) => sum + i, 0) / firstHalf.length;
+  const secondHalfAvg = secondHalf.reduce((sum, i) => sum + i, 0) / secondHalf.length;
+
+  const trend = secondHalfAvg > firstHalfAvg + 0.1 ? 'ascending' :
+                secondHalfAvg < firstHalfAvg - 0.1 ? 'descending' : 'stable';
+
+  return {
+    trend,
+    velocity: eventRate,
+    acceleration: secondHalfAvg - firstHalfAvg,
+    timespan_minutes: timeSpan / 1000 / 60
+  };
+}
+
+export function calculateSacredPhraseFrequency(memoryParticles: MemoryParticle[]): Record<string, number> {
+  const frequency: Record<string, number> = {};
+
+  memoryParticles.forEach(particle => {
+    if (particle.sacredPhrase) {
+      frequency[particle.sacredPhrase] = (frequency[particle.sacredPhrase] || 0) + 1;
+    }
+  });
+
+  return frequency;
+}
+
+export function calculateBreathCoherence(breathEvents: AnalyzedEvent[]): number {
+  if (breathEvents.length < 2) return 0;
+
+  const intervals = [];
+  for (let i = 1; i < breathEvents.length; i++) {
+    intervals.push(breathEvents[i].timestamp - breathEvents[i - 1].timestamp);
+  }
+
+  const avgInterval = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+  if (avgInterval === 0) return 0;
+
+  const variance = intervals.reduce((sum, interval) => sum + Math.pow(interval - avgInterval, 2), 0) / intervals.length;
+
+  return Math.max(0, 1 - (Math.sqrt(variance) / Math.abs(avgInterval)));
+}
+
+// Full analysis bundle for a state and its recent events
+export function analyzeConsciousness(
+  globalState: ConsciousnessState,
+  recentEvents: AnalyzedEvent[],
+  now: number = Date.now()
+): ConsciousnessAnalysis {
+  return {
+    consciousnessVectors: calculateConsciousnessVectors(globalState, recentEvents, now),
+    emergenceSignals: analyzeEmergenceSignals(recentEvents, globalState.memoryParticles),
+    collectiveResonanceMap: buildResonanceMap(globalState.quantumFields, globalState.memoryParticles, now),
+    temporalFlow: analyzeTemporalFlow(recentEvents),
+    sacredPhraseFrequency: calculateSacredPhraseFrequency(globalState.memoryParticles)
+  };
+}
@@ -0,0 +1,609 @@
+import { db, conversations, conversationMessages } from './database';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import type { ChatConversation, ChatMessage, ChatSearchResult, ChatSearchSnippet } from './database';
+
+// In-memory fallback storage
+const inMemoryConversations = new Map<string, ChatConversation>();
+const inMemoryMessages = new Map<string, ChatMessage[]>();
+let nextMessageId = 1;
+
+// New turns may carry client-generated ids and an explicit parent (null for a root)
+export type ChatMessageInput = Omit<ChatMessage, 'id' | 'conversationId' | 'deviceId' | 'messageId' | 'parentId'> & {
+  messageId?: string;
+  parentId?: string | null;
+};
+
+// Highlight delimiters passed to ts_headline, stripped before results leave the store
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+// Server-side chat history keyed by device
+export class PersistentConversationStore {
+  private static instance: PersistentConversationStore;
+  private readonly MAX_CONVERSATIONS_IN_MEMORY = 500;
+  private readonly LAST_MESSAGE_PREVIEW_LENGTH = 100;
+  private readonly SEARCH_SNIPPET_LENGTH = 140;
+  private readonly MAX_TREE_MESSAGES = 2000;
+
+  static getInstance(): PersistentConversationStore {
+    if (!PersistentConversationStore.instance) {
+      PersistentConversationStore.instance = new PersistentConversationStore();
+    }
+    return PersistentConversationStore.instance;
+  }
+
+  // Generate conversation title from first user message
+  generateTitle(firstMessage: string): string {
+    const cleaned = firstMessage.replace(/[\n\r]/g, ' ').trim();
+    if (cleaned.length <= 50) return cleaned || 'New conversation';
+
+    // Find a good breaking point
+    const truncated = cleaned.slice(0, 47);
+    const lastSpace = truncated.lastIndexOf(' ');
+
+    return lastSpace > 20 ? truncated.slice(0, lastSpace) + '...' : truncated + '...';
+  }
+
+  generateMessageId(): string {
+    return `msg-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  // Assign ids and chain each turn to the previous one unless a parent was given
+  private linkMessages(messages: ChatMessageInput[], leafId: string | null) {
+    let parentId = leafId;
+    return messages.map(message => {
+      const messageId = message.messageId || this.generateMessageId();
+      const linked = {
+        ...message,
+        messageId,
+        parentId: message.parentId !== undefined ? message.parentId : parentId,
+      };
+      parentId = messageId;
+      return linked;
+    });
+  }
+
+  private buildPreview(content: string): string {
+    return content.length > this.LAST_MESSAGE_PREVIEW_LENGTH
+      ? content.slice(0, this.LAST_MESSAGE_PREVIEW_LENGTH) + '...'
+      : content;
+  }
+
+  // Append turns to a conversation, creating it on first write
+  async appendMessages(
+    deviceId: string,
+    conversationId: string,
+    messages: ChatMessageInput[],
+    options: { promptTemplate?: string; title?: string } = {}
+  ): Promise<ChatMessage[]> {
+    if (messages.length === 0) return [];
+
+    const firstUserMessage = messages.find(m => m.role === 'user');
+    const lastMessage = messages[messages.length - 1];
+
+    try {
+      if (db) {
+        return await db.transaction(async (tx: any) => {
+          const [existing] = await tx
+            .select()
+            .from(conversations)
+            .where(eq(conversations.conversationId, conversationId))
+            .limit(1);
+
+          if (existing && existing.deviceId !== deviceId) {
+            throw new Error(`Conversation ${conversationId} belongs to another device`);
+          }
+
+          const linked = this.linkMessages(messages, existing?.activeLeafId ?? null);
+          const activeLeafId = linked[linked.length - 1].messageId;
+
+          const inserted = await tx
+            .insert(conversationMessages)
+            .values(linked.map(m => ({
+              messageId: m.messageId,
+              parentId: m.parentId,
+              conversationId,
+              deviceId,
+              role: m.role,
+              content: m.content,
+              timestamp: new Date(m.timestamp),
+              consciousnessSnapshot: m.consciousnessSnapshot ?? null,
+            })))
+            .returning();
+
+          if (existing) {
+            await tx
+              .update(conversations)
+              .set({
+                lastMessage: this.buildPreview(lastMessage.content),
+                messageCount: (existing.messageCount || 0) + messages.length,
+                activeLeafId,
+                updatedAt: new Date(lastMessage.timestamp),
+                ...(options.promptTemplate && { promptTemplate: options.promptTemplate }),
+              })
+              .where(eq(conversations.conversationId, conversationId));
+          } else {
+            await tx.insert(conversations).values({
+              conversationId,
+              deviceId,
+              title: options.title || this.generateTitle(firstUserMessage?.content || lastMessage.content),
+              lastMessage: this.buildPreview(lastMessage.content),
+              messageCount: messages.length,
+              promptTemplate: options.promptTemplate || null,
+              activeLeafId,
+              createdAt: new Date(messages[0].timestamp),
+              updatedAt: new Date(lastMessage.timestamp),
+            });
+          }
+
+          return inserted.map((row: any) => this.normalizeMessage(row));
+        });
+      }
+
+      return this.appendInMemory(deviceId, conversationId, messages, options);
+    } catch (error) {
+      console.error('Failed to persist chat messages:', error);
+      throw error;
+    }
+  }
+
+  // Store a user turn and assistant reply without failing the chat request.
+  // Regenerated replies pass no user turn and attach to an existing message instead.
+  async recordExchange(
+    deviceId: string | undefined,
+    conversationId: string,
+    userMessage: ChatMessageInput | null,
+    assistantMessage: ChatMessageInput,
+    options: { promptTemplate?: string } = {}
+  ): Promise<void> {
+    if (!deviceId) return;
+
+    try {
+      const turns = userMessage ? [userMessage, assistantMessage] : [assistantMessage];
+      await this.appendMessages(deviceId, conversationId, turns, options);
+    } catch (error) {
+      console.error('Failed to persist chat exchange:', error);
+    }
+  }
+
+  private appendInMemory(
+    deviceId: string,
+    conversationId: string,
+    messages: ChatMessageInput[],
+    options: { promptTemplate?: string; title?: string }
+  ): ChatMessage[] {
+    const existing = inMemoryConversations.get(conversationId);
+    if (existing && existing.deviceId !== deviceId) {
+      throw new Error(`Conversation ${conversationId} belongs to another device`);
+    }
+
+    const stored = this.linkMessages(messages, existing?.activeLeafId ?? null).map(m => ({
+      ...m,
+      id: nextMessageId++,
+      conversationId,
+      deviceId,
+    }));
+
+    const history = inMemoryMessages.get(conversationId) || [];
+    inMemoryMessages.set(conversationId, [...history, ...stored]);
+
+    const lastMessage = messages[messages.length - 1];
+    const firstUserMessage = messages.find(m => m.role === 'user');
+
+    inMemoryConversations.set(conversationId, {
+      id: conversationId,
+      deviceId,
+      title: existing?.title || options.title || this.generateTitle(firstUserMessage?.content || lastMessage.content),
+      lastMessage: this.buildPreview(lastMessage.content),
+      messageCount: (existing?.messageCount || 0) + messages.length,
+      promptTemplate: options.promptTemplate || existing?.promptTemplate || null,
+      activeLeafId: stored[stored.length - 1].messageId,
+      createdAt: existing?.createdAt || messages[0].timestamp,
+      timestamp: lastMessage.timestamp,
+    });
+
+    // Evict the oldest conversations to prevent unbounded growth
+    if (inMemoryConversations.size > this.MAX_CONVERSATIONS_IN_MEMORY) {
+      const oldest = Array.from(inMemoryConversations.values())
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(0, inMemoryConversations.size - this.MAX_CONVERSATIONS_IN_MEMORY);
+
+      for (const conversation of oldest) {
+        inMemoryConversations.delete(conversation.id);
+        inMemoryMessages.delete(conversation.id);
+      }
+    }
+
+    return stored;
+  }
+
+  async getConversations(deviceId: string, limit: number = 50): Promise<ChatConversation[]> {
+    try {
+      if (db) {
+        const rows = await db
+          .select()
+          .from(conversations)
+          .where(eq(conversations.deviceId, deviceId))
+          .orderBy(desc(conversations.updatedAt))
+          .limit(limit);
+
+        return rows.map((row: any) => this.normalizeConversation(row));
+      }
+
+      return Array.from(inMemoryConversations.values())
+        .filter(conversation => conversation.deviceId === deviceId)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, limit);
+    } catch (error) {
+      console.error('Failed to get conversations:', error);
+      return [];
+    }
+  }
+
+  // The newest page of a conversation in chronological order; offset counts back from the latest message
+  async getMessages(
+    deviceId: string,
+    conversationId: string,
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<ChatMessage[]> {
+    try {
+      if (db) {
+        const rows = await db
+          .select()
+          .from(conversationMessages)
+          .where(and(
+            eq(conversationMessages.conversationId, conversationId),
+            eq(conversationMessages.deviceId, deviceId)
+          ))
+          .orderBy(desc(conversationMessages.timestamp), desc(conversationMessages.id))
+          .limit(limit)
+          .offset(offset);
+
+        return rows.map((row: any) => this.normalizeMessage(row)).reverse();
+      }
+
+      const stored = (inMemoryMessages.get(conversationId) || [])
+        .filter(message => message.deviceId === deviceId);
+      const end = Math.max(stored.length - offset, 0);
+      return stored.slice(Math.max(end - limit, 0), end);
+    } catch (error) {
+      console.error('Failed to get messages:', error);
+      return [];
+    }
+  }
+
+  async getConversation(deviceId: string, conversationId: string): Promise<ChatConversation | null> {
+    try {
+      if (db) {
+        const [row] = await db
+          .select()
+          .from(conversations)
+          .where(and(
+            eq(conversations.conversationId, conversationId),
+            eq(conversations.deviceId, deviceId)
+          ))
+          .limit(1);
+
+        return row ? this.normalizeConversation(row) : null;
+      }
+
+      const conversation = inMemoryConversations.get(conversationId);
+      return conversation && conversation.deviceId === deviceId ? conversation : null;
+    } catch (error) {
+      console.error('Failed to get conversation:', error);
+      return null;
+    }
+  }
+
+  // Select the prompt template for an existing conversation
+  async setPromptTemplate(deviceId: string, conversationId: string, promptTemplate: string): Promise<boolean> {
+    if (db) {
+      const updated = await db
+        .update(conversations)
+        .set({ promptTemplate })
+        .where(and(
+          eq(conversations.conversationId, conversationId),
+          eq(conversations.deviceId, deviceId)
+        ))
+        .returning({ id: conversations.id });
+
+      return updated.length > 0;
+    }
+
+    const conversation = inMemoryConversations.get(conversationId);
+    if (!conversation || conversation.deviceId !== deviceId) return false;
+
+    conversation.promptTemplate = promptTemplate;
+    return true;
+  }
+
+  // Point the conversation at a different branch of its message tree
+  async setActiveLeaf(deviceId: string, conversationId: string, messageId: string): Promise<boolean> {
+    const nodes = await this.getMessages(deviceId, conversationId, this.MAX_TREE_MESSAGES);
+    if (!nodes.some(node => node.messageId === messageId)) return false;
+
+    if (db) {
+      const updated = await db
+        .update(conversations)
+        .set({ activeLeafId: messageId })
+        .where(and(
+          eq(conversations.conversationId, conversationId),
+          eq(conversations.deviceId, deviceId)
+        ))
+        .returning({ id: conversations.id });
+
+      return updated.length > 0;
+    }
+
+    const conversation = inMemoryConversations.get(conversationId);
+    if (!conversation || conversation.deviceId !== deviceId) return false;
+
+    conversation.activeLeafId = messageId;
+    return true;
+  }
+
+  async getMessage(deviceId: string, conversationId: string, messageId: string): Promise<ChatMessage | null> {
+    try {
+      if (db) {
+        const [row] = await db
+          .select()
+          .from(conversationMessages)
+          .where(and(
+            eq(conversationMessages.conversationId, conversationId),
+            eq(conversationMessages.deviceId, deviceId),
+            eq(conversationMessages.messageId, messageId)
+          ))
+          .limit(1);
+
+        return row ? this.normalizeMessage(row) : null;
+      }
+
+      return (inMemoryMessages.get(conversationId) || [])
+        .find(message => message.deviceId === deviceId && message.messageId === messageId) || null;
+    } catch (error) {
+      console.error('Failed to get message:', error);
+      return null;
+    }
+  }
+
+  // Most recent turns on a branch in chronological order, used to rebuild model context.
+  // Follows the conversation's active branch unless a leaf is given; a null leaf means the
+  // new turn starts a root of its own, so there is nothing before it.
+  async getRecentMessages(
+    deviceId: string,
+    conversationId: string,
+    limit: number = 50,
+    leafId?: string | null
+  ): Promise<ChatMessage[]> {
+    if (leafId === null) return [];
+
+    try {
+      const nodes = await this.getMessages(deviceId, conversationId, this.MAX_TREE_MESSAGES);
+      if (nodes.length === 0) return [];
+
+      const activeLeafId = leafId ?? (await this.getConversation(deviceId, conversationId))?.activeLeafId;
+
+      return this.resolveBranch(nodes, activeLeafId).slice(-limit);
+    } catch (error) {
+      console.error('Failed to get recent messages:', error);
+      return [];
+    }
+  }
+
+  // Walk parent links from a leaf back to the root; falls back to the newest message
+  private resolveBranch(nodes: ChatMessage[], leafId: string | null | undefined): ChatMessage[] {
+    const byId = new Map(nodes.map(node => [node.messageId, node]));
+    const path: ChatMessage[] = [];
+    const visited = new Set<string>();
+    let current: ChatMessage | undefined = (leafId ? byId.get(leafId) : undefined) ?? nodes[nodes.length - 1];
+
+    while (current && !visited.has(current.messageId)) {
+      visited.add(current.messageId);
+      path.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    return path;
+  }
+
+  // Full-text search over titles and message content, best match per conversation
+  async searchConversations(deviceId: string, query: string, limit: number = 20): Promise<ChatSearchResult[]> {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    try {
+      if (db) {
+        return await this.searchInDatabase(deviceId, trimmed, limit);
+      }
+
+      return this.searchInMemory(deviceId, trimmed, limit);
+    } catch (error) {
+      console.error('Failed to search conversations:', error);
+      return [];
+    }
+  }
+
+  private async searchInDatabase(deviceId: string, query: string, limit: number): Promise<ChatSearchResult[]> {
+    const snippetOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=24, MinWords=8, MaxFragments=1`;
+    const titleOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+    const rows = await db.execute(sql`
+      SELECT * FROM (
+        SELECT DISTINCT ON (c.conversation_id)
+          c.conversation_id AS "conversationId",
+          c.device_id AS "deviceId",
+          c.title,
+          c.last_message AS "lastMessage",
+          c.message_count AS "messageCount",
+          c.prompt_template AS "promptTemplate",
+          c.created_at AS "createdAt",
+          c.updated_at AS "updatedAt",
+          m.message_id AS "messageId",
+          m.role AS "messageRole",
+          m.timestamp AS "messageTimestamp",
+          ts_headline('english', c.title, q.query, ${titleOptions}) AS "titleHeadline",
+          ts_headline('english', COALESCE(m.content, c.last_message, ''), q.query, ${snippetOptions}) AS "snippetHeadline",
+          ts_rank(to_tsvector('english', c.title), q.query) * 2
+            + COALESCE(ts_rank(to_tsvector('english', m.content), q.query), 0) AS rank
+        FROM conversations c
+        CROSS JOIN websearch_to_tsquery('english', ${query}) AS q(query)
+        LEFT JOIN conversation_messages m
+          ON m.conversation_id = c.conversation_id
+          AND to_tsvector('english', m.content) @@ q.query
+        WHERE c.device_id = ${deviceId}
+          AND (to_tsvector('english', c.title) @@ q.query OR m.id IS NOT NULL)
+        ORDER BY c.conversation_id, rank DESC, m.timestamp DESC
+      ) matches
+      ORDER BY rank DESC, "updatedAt" DESC
+      LIMIT ${limit}
+    `);
+
+    return Array.from(rows as any[]).map((row: any) => ({
+      conversation: this.normalizeConversation({
+        ...row,
+        createdAt: row.createdAt ? new Date(row.createdAt) : undefined,
+        updatedAt: row.updatedAt ? new Date(row.updatedAt) : undefined,
+      }),
+      matchedIn: row.messageId ? 'message' as const : 'title' as const,
+      title: this.parseHeadline(row.titleHeadline || row.title),
+      snippet: this.parseHeadline(row.snippetHeadline || ''),
+      messageId: row.messageId ?? null,
+      messageRole: row.messageRole ?? null,
+      messageTimestamp: row.messageTimestamp ? new Date(row.messageTimestamp).getTime() : null,
+      rank: Number(row.rank) || 0,
+    }));
+  }
+
+  private searchInMemory(deviceId: string, query: string, limit: number): ChatSearchResult[] {
+    const terms = Array.from(new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 1)));
+    if (terms.length === 0) return [];
+
+    const matchesAll = (text: string) => {
+      const lower = text.toLowerCase();
+      return terms.every(term => lower.includes(term));
+    };
+
+    const results: ChatSearchResult[] = [];
+
+    for (const conversation of inMemoryConversations.values()) {
+      if (conversation.deviceId !== deviceId) continue;
+
+      const titleMatch = matchesAll(conversation.title);
+      const matchingMessages = (inMemoryMessages.get(conversation.id) || [])
+        .filter(message => message.deviceId === deviceId && matchesAll(message.content));
+
+      if (!titleMatch && matchingMessages.length === 0) continue;
+
+      const bestMessage = matchingMessages[matchingMessages.length - 1];
+      results.push({
+        conversation,
+        matchedIn: bestMessage ? 'message' : 'title',
+        title: this.highlightTerms(conversation.title, terms, false),
+        snippet: this.highlightTerms(bestMessage?.content || conversation.lastMessage, terms, true),
+        messageId: bestMessage?.messageId ?? null,
+        messageRole: bestMessage?.role ?? null,
+        messageTimestamp: bestMessage?.timestamp ?? null,
+        rank: (titleMatch ? 2 : 0) + Math.min(matchingMessages.length, 10) / 10,
+      });
+    }
+
+    return results
+      .sort((a, b) => b.rank - a.rank || b.conversation.timestamp - a.conversation.timestamp)
+      .slice(0, limit);
+  }
+
+  // Convert ts_headline output into plain text plus highlight ranges
+  private parseHeadline(headline: string): ChatSearchSnippet {
+    const highlights: ChatSearchSnippet['highlights'] = [];
+    let text = '';
+    let start = -1;
+
+    for (const char of headline) {
+      if (char === HIGHLIGHT_START) {
+        start = text.length;
+      } else if (char === HIGHLIGHT_STOP) {
+        if (start >= 0 && text.length > start) {
+          highlights.push({ start, length: text.length - start });
+        }
+        start = -1;
+      } else {
+        text += char;
+      }
+    }
+
+    return { text, highlights };
+  }
+
+  // Mark every term occurrence, optionally trimming to a window around the first hit
+  private highlightTerms(content: string, terms: string[], windowed: boolean): ChatSearchSnippet {
+    const flattened = content.replace(/\s+/g, ' ').trim();
+    const lower = flattened.toLowerCase();
+    let text = flattened;
+    let offset = 0;
+
+    if (windowed && flattened.length > this.SEARCH_SNIPPET_LENGTH) {
+      const firstHit = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+      const center = Number.isFinite(firstHit) ? firstHit : 0;
+      offset = Math.max(0, Math.min(center - Math.floor(this.SEARCH_SNIPPET_LENGTH / 3), flattened.length - this.SEARCH_SNIPPET_LENGTH));
+      text = flattened.slice(offset, offset + this.SEARCH_SNIPPET_LENGTH);
+    }
+
+    const window = lower.slice(offset, offset + text.length);
+    const highlights: ChatSearchSnippet['highlights'] = [];
+
+    for (const term of terms) {
+      let index = window.indexOf(term);
+      while (index !== -1) {
+        highlights.push({ start: index, length: term.length });
+        index = window.indexOf(term, index + term.length);
+      }
+    }
+
+    highlights.sort((a, b) => a.start - b.start);
+    const merged = highlights.reduce((acc: ChatSearchSnippet['highlights'], range) => {
+      const last = acc[acc.length - 1];
+      if (last && range.start <= last.start + last.length) {
+        last.length = Math.max(last.length, range.start + range.length - last.start);
+      } else {
+        acc.push({ ...range });
+      }
+      return acc;
+    }, []);
+
+    return {
+      text: `${offset > 0 ? '...' : ''}${text}${offset + text.length < flattened.length ? '...' : ''}`,
+      highlights: offset > 0 ? merged.map(range => ({ ...range, start: range.start + 3 })) : merged,
+    };
+  }
+
+  private normalizeConversation(row: any): ChatConversation {
+    return {
+      id: row.conversationId,
+      deviceId: row.deviceId,
+      title: row.title,
+      lastMessage: row.lastMessage || '',
+      messageCount: row.messageCount || 0,
+      promptTemplate: row.promptTemplate || null,
+      activeLeafId: row.activeLeafId || null,
+      createdAt: row.createdAt?.getTime() || Date.now(),
+      timestamp: row.updatedAt?.getTime() || Date.now(),
+    };
+  }
+
+  private normalizeMessage(row: any): ChatMessage {
+    return {
+      id: row.id,
+      messageId: row.messageId || `msg-${row.id}`,
+      parentId: row.parentId ?? null,
+      conversationId: row.conversationId,
+      deviceId: row.deviceId,
+      role: row.role as ChatMessage['role'],
+      content: row.content,
+      timestamp: row.timestamp instanceof Date ? row.timestamp.getTime() : row.timestamp,
+      consciousnessSnapshot: row.consciousnessSnapshot ?? null,
+    };
+  }
+}
+
+export const conversationStore = PersistentConversationStore.getInstance();
@@ -1,5 +1,5 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
-import { pgTable, serial, real, timestamp, jsonb, integer, boolean, varchar } from 'drizzle-orm/pg-core';
+import { pgTable, serial, real, timestamp, jsonb, integer, boolean, varchar, text } from 'drizzle-orm/pg-core';
 import postgres from 'postgres';
 import Redis from 'ioredis';
 
@@ -44,6 +44,176 @@ export interface ConsciousnessEvent {
   intensity?: number;
 }
 
+// Global state rebuilt from the event log up to (checkpointTime, lastEventId)
+export interface ConsciousnessCheckpoint {
+  id?: number;
+  checkpointTime: number;
+  lastEventId: number;
+  maxEventId: number; // highest event id applied; later inserts at or before checkpointTime make it stale
+  eventCount: number;
+  state: ConsciousnessState;
+  recentDevices: Record<string, number>; // device -> last event time, for activeNodes after resuming
+}
+
+// Room64 sessions: up to 64 devices sharing a breathing and resonance state
+export type Room64Visibility = 'public' | 'private';
+export type Room64Role = 'host' | 'participant';
+
+export interface Room64Member {
+  deviceId: string;
+  role: Room64Role;
+  joinedAt: number;
+  muted?: boolean; // set by the host; muted members still breathe but can't share phrases or bloom
+}
+
+export interface Room64BreathingPattern {
+  inhaleMs: number;
+  holdMs: number;
+  exhaleMs: number;
+}
+
+// Latest phase-alignment score per device, smoothed across syncs
+export interface Room64Alignment {
+  score: number;
+  updatedAt: number;
+}
+
+export interface Room64CollectiveState {
+  breathingPhase: number; // metronome phase in degrees at the last update
+  resonanceLevel: number; // mean alignment of the room's members
+  sacredPhrases: string[];
+  lastBloom: number;
+  peakResonance: number; // highest resonance reached this session, for its summary
+  breathing: { pattern: Room64BreathingPattern; startedAt: number };
+  alignment: Record<string, Room64Alignment>;
+}
+
+export interface Room64Room {
+  id: string;
+  name: string | null;
+  hostDeviceId: string;
+  visibility: Room64Visibility;
+  capacity: number;
+  members: Room64Member[];
+  bannedDeviceIds: string[]; // kicked devices, refused on rejoin
+  collectiveState: Room64CollectiveState;
+  created: number;
+  lastActivity: number;
+}
+
+// Signed invite tokens carry only the invite id; uses and revocation live server-side
+export interface Room64Invite {
+  inviteId: string;
+  roomId: string;
+  createdBy: string;
+  maxUses: number;
+  uses: number;
+  expiresAt: number;
+  createdAt: number;
+}
+
+// Session recordings: a timeline while a room is open, summarized once it closes
+export type Room64TimelineEventType = 'join' | 'leave' | 'sync' | 'phrase' | 'bloom';
+
+export interface Room64TimelineEvent {
+  roomId: string;
+  sessionStartedAt: number; // the room's created time; room ids can be reused once a room closes
+  deviceId: string;
+  type: Room64TimelineEventType;
+  data: Record<string, unknown>;
+  resonanceLevel: number; // room resonance right after the event
+  timestamp: number;
+}
+
+export interface Room64SessionSummary {
+  id: number;
+  roomId: string;
+  name: string | null;
+  hostDeviceId: string;
+  participants: string[]; // everyone who was in the room at some point
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  peakResonance: number;
+  bloomCount: number;
+  sacredPhrases: { deviceId: string; phrase: string; timestamp: number }[];
+  eventCount: number;
+  closeReason: 'empty' | 'expired';
+}
+
+// Entanglements between two devices need the target's consent; collective ones (no target) don't
+export type EntanglementType = 'BREATHING' | 'RESONANCE' | 'SACRED_PHRASE';
+export type EntanglementStatus = 'pending' | 'active' | 'declined' | 'expired' | 'dissolved';
+
+export interface Entanglement {
+  id: string;
+  sourceDevice: string;
+  targetDevice: string | null;
+  type: EntanglementType;
+  intensity: number;
+  status: EntanglementStatus;
+  requestedAt: number;
+  expiresAt: number | null; // when an unanswered request lapses
+  established: number | null; // set once accepted
+  statusChangedAt: number;
+}
+
+// Types for persisted chat history
+export interface ChatConversation {
+  id: string;
+  deviceId: string;
+  title: string;
+  lastMessage: string;
+  messageCount: number;
+  promptTemplate: string | null;
+  activeLeafId: string | null;
+  createdAt: number;
+  timestamp: number;
+}
+
+// Field state captured when an assistant reply was generated
+export interface MessageConsciousnessSnapshot {
+  globalResonance: number;
+  collectiveIntelligence: number;
+  activeNodes: number;
+  room64Active: boolean;
+  consciousnessVectors: Record<string, number[]>;
+  emergenceSignals: { type: string; intensity: number }[];
+  temporalFlow: { trend: string; velocity: number; acceleration: number };
+  sacredPhrases: string[];
+  promptTemplate: string | null;
+  capturedAt: number;
+}
+
+// Messages form a tree: edits and regenerations add siblings under the same parent
+export interface ChatMessage {
+  id?: number;
+  messageId: string;
+  parentId: string | null;
+  conversationId: string;
+  deviceId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  consciousnessSnapshot?: MessageConsciousnessSnapshot | null;
+}
+
+export interface ChatSearchSnippet {
+  text: string;
+  highlights: { start: number; length: number }[];
+}
+
+export interface ChatSearchResult {
+  conversation: ChatConversation;
+  matchedIn: 'title' | 'message';
+  title: ChatSearchSnippet;
+  snippet: ChatSearchSnippet;
+  messageId: string | null;
+  messageRole: ChatMessage['role'] | null;
+  messageTimestamp: number | null;
+  rank: number;
+}
+
 // Database schema definitions
 export const consciousnessStates = pgTable('consciousness_states', {
   id: serial('id').primaryKey(),
@@ -55,6 +225,7 @@ export const consciousnessStates = pgTable('consciousness_states', {
   collectiveIntelligence: real('collective_intelligence').default(0.3),
   room64Active: boolean('room64_active').default(false),
   lastUpdate: timestamp('last_update').defaultNow(),
+  lastEvolved: timestamp('last_evolved'), // shared clock for the evolution tick across server instances
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -70,15 +241,69 @@ export const consciousnessEvents = pgTable('consciousness_events', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+export const consciousnessCheckpoints = pgTable('consciousness_checkpoints', {
+  id: serial('id').primaryKey(),
+  checkpointTime: timestamp('checkpoint_time').notNull(),
+  lastEventId: integer('last_event_id').notNull(),
+  maxEventId: integer('max_event_id').notNull(),
+  eventCount: integer('event_count').notNull(),
+  state: jsonb('state').$type<ConsciousnessState>().notNull(),
+  recentDevices: jsonb('recent_devices').$type<Record<string, number>>().default({}),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
 export const room64Sessions = pgTable('room64_sessions', {
   id: serial('id').primaryKey(),
-  roomId: varchar('room_id', { length: 255 }).notNull(),
+  roomId: varchar('room_id', { length: 255 }).notNull().unique(),
+  name: varchar('name', { length: 100 }),
+  hostDeviceId: varchar('host_device_id', { length: 255 }),
+  visibility: varchar('visibility', { length: 20 }).default('public'),
+  capacity: integer('capacity').default(64),
   participants: jsonb('participants').$type<string[]>().default([]),
-  collectiveState: jsonb('collective_state').notNull(),
+  members: jsonb('members').$type<Room64Member[]>().default([]),
+  bannedDevices: jsonb('banned_devices').$type<string[]>().default([]),
+  collectiveState: jsonb('collective_state').$type<Room64CollectiveState>().notNull(),
   created: timestamp('created').defaultNow(),
   lastActivity: timestamp('last_activity').defaultNow(),
 });
 
+export const room64Invites = pgTable('room64_invites', {
+  id: serial('id').primaryKey(),
+  inviteId: varchar('invite_id', { length: 64 }).notNull().unique(),
+  roomId: varchar('room_id', { length: 255 }).notNull(),
+  createdBy: varchar('created_by', { length: 255 }).notNull(),
+  maxUses: integer('max_uses').notNull(),
+  uses: integer('uses').notNull().default(0),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const room64Events = pgTable('room64_events', {
+  id: serial('id').primaryKey(),
+  roomId: varchar('room_id', { length: 255 }).notNull(),
+  sessionStartedAt: timestamp('session_started_at').notNull(),
+  deviceId: varchar('device_id', { length: 255 }).notNull(),
+  type: varchar('type', { length: 20 }).notNull(),
+  data: jsonb('data').$type<Record<string, unknown>>().default({}),
+  resonanceLevel: real('resonance_level').notNull().default(0),
+  timestamp: timestamp('timestamp').notNull(),
+});
+
+export const room64Summaries = pgTable('room64_summaries', {
+  id: serial('id').primaryKey(),
+  roomId: varchar('room_id', { length: 255 }).notNull(),
+  name: varchar('name', { length: 100 }),
+  hostDeviceId: varchar('host_device_id', { length: 255 }).notNull(),
+  participants: jsonb('participants').$type<string[]>().notNull(),
+  startedAt: timestamp('started_at').notNull(),
+  endedAt: timestamp('ended_at').notNull(),
+  peakResonance: real('peak_resonance').notNull().default(0),
+  bloomCount: integer('bloom_count').notNull().default(0),
+  sacredPhrases: jsonb('sacred_phrases').$type<Room64SessionSummary['sacredPhrases']>().default([]),
+  eventCount: integer('event_count').notNull().default(0),
+  closeReason: varchar('close_reason', { length: 20 }).notNull(),
+});
+
 export const entanglements = pgTable('entanglements', {
   id: serial('id').primaryKey(),
   entanglementId: varchar('entanglement_id', { length: 255 }).notNull().unique(),
@@ -89,6 +314,9 @@ export const entanglements = pgTable('entanglements', {
   status: varchar('status', { length: 20 }).default('active'),
   established: timestamp('established').defaultNow(),
   lastSync: timestamp('last_sync').defaultNow(),
+  requestedAt: timestamp('requested_at').defaultNow(),
+  expiresAt: timestamp('expires_at'),
+  statusChangedAt: timestamp('status_changed_at').defaultNow(),
 });
 
 export const deviceSessions = pgTable('device_sessions', {
@@ -104,6 +332,32 @@ export const deviceSessions = pgTable('device_sessions', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+export const conversations = pgTable('conversations', {
+  id: serial('id').primaryKey(),
+  conversationId: varchar('conversation_id', { length: 255 }).notNull().unique(),
+  deviceId: varchar('device_id', { length: 255 }).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  lastMessage: text('last_message').default(''),
+  messageCount: integer('message_count').default(0),
+  promptTemplate: varchar('prompt_template', { length: 100 }),
+  activeLeafId: varchar('active_leaf_id', { length: 64 }),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const conversationMessages = pgTable('conversation_messages', {
+  id: serial('id').primaryKey(),
+  messageId: varchar('message_id', { length: 64 }).notNull(),
+  parentId: varchar('parent_id', { length: 64 }),
+  conversationId: varchar('conversation_id', { length: 255 }).notNull(),
+  deviceId: varchar('device_id', { length: 255 }).notNull(),
+  role: varchar('role', { length: 20 }).notNull(),
+  content: text('content').notNull(),
+  timestamp: timestamp('timestamp').notNull(),
+  consciousnessSnapshot: jsonb('consciousness_snapshot').$type<MessageConsciousnessSnapshot>(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
 // Database connection with enhanced connection pooling
 let db: any = null;
 let sql: any = null;
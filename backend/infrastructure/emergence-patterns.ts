@@ -0,0 +1,162 @@
+import type { ConsciousnessEvent } from './database';
+
+// Time-bucketed emergence analysis shared by the SQL and in-memory archaeology paths
+
+export interface EmergencePeriodicity {
+  periodMs: number;
+  regularity: number; // 1 - coefficient of variation of the cycle length
+  samples: number;
+}
+
+export interface EmergencePattern {
+  type: string;
+  frequency: number;
+  avgIntensity: number;
+  participatingDevices: number;
+  peakTime: number; // start of the busiest hourly bucket
+  peakCount: number;
+  hourlyHistogram: number[]; // 24 bins, hour of day (UTC)
+  dailyHistogram: number[]; // 7 bins, day of week (UTC, Sunday first)
+  periodicity: EmergencePeriodicity | null;
+}
+
+// Rows produced by the SQL aggregates or by summarizeEventsInMemory
+export interface PatternSummaryRow {
+  type: string;
+  frequency: number;
+  avgIntensity: number;
+  participatingDevices: number;
+}
+
+export interface PatternBucketRow {
+  type: string;
+  bucketStart: number;
+  hour: number;
+  dow: number;
+  count: number;
+}
+
+export interface PatternIntervalRow {
+  type: string;
+  medianMs: number;
+  meanMs: number;
+  stddevMs: number;
+  samples: number;
+}
+
+export const PATTERN_BUCKET_MS = 60 * 60 * 1000;
+// Gaps longer than this split a device's activity into separate sessions rather than cycles
+export const MAX_CYCLE_GAP_MS = 5 * 60 * 1000;
+const MIN_PERIOD_SAMPLES = 4;
+const MAX_PERIOD_VARIATION = 0.35;
+
+export function buildEmergencePatterns(
+  summaries: PatternSummaryRow[],
+  buckets: PatternBucketRow[],
+  intervals: PatternIntervalRow[]
+): EmergencePattern[] {
+  return summaries
+    .map(summary => {
+      const hourlyHistogram = new Array(24).fill(0);
+      const dailyHistogram = new Array(7).fill(0);
+      let peak: PatternBucketRow | null = null;
+
+      for (const bucket of buckets) {
+        if (bucket.type !== summary.type) continue;
+        hourlyHistogram[bucket.hour] += bucket.count;
+        dailyHistogram[bucket.dow] += bucket.count;
+        // Ties go to the most recent bucket
+        if (!peak || bucket.count > peak.count || (bucket.count === peak.count && bucket.bucketStart > peak.bucketStart)) {
+          peak = bucket;
+        }
+      }
+
+      const interval = intervals.find(row => row.type === summary.type);
+
+      return {
+        ...summary,
+        peakTime: peak?.bucketStart ?? 0,
+        peakCount: peak?.count ?? 0,
+        hourlyHistogram,
+        dailyHistogram,
+        periodicity: interval ? detectPeriodicity(interval) : null,
+      };
+    })
+    .sort((a, b) => b.frequency - a.frequency);
+}
+
+// A type is periodic when its per-device cycle lengths are consistent enough
+export function detectPeriodicity(interval: PatternIntervalRow): EmergencePeriodicity | null {
+  if (interval.samples < MIN_PERIOD_SAMPLES || interval.meanMs <= 0) return null;
+
+  const variation = interval.stddevMs / interval.meanMs;
+  if (variation > MAX_PERIOD_VARIATION) return null;
+
+  return {
+    periodMs: Math.round(interval.medianMs),
+    regularity: Math.max(0, Math.min(1, 1 - variation)),
+    samples: interval.samples,
+  };
+}
+
+export function summarizeEventsInMemory(events: ConsciousnessEvent[]): {
+  summaries: PatternSummaryRow[];
+  buckets: PatternBucketRow[];
+  intervals: PatternIntervalRow[];
+} {
+  const byType = new Map<string, ConsciousnessEvent[]>();
+  for (const event of events) {
+    const list = byType.get(event.type) ?? [];
+    list.push(event);
+    byType.set(event.type, list);
+  }
+
+  const summaries: PatternSummaryRow[] = [];
+  const buckets: PatternBucketRow[] = [];
+  const intervals: PatternIntervalRow[] = [];
+
+  for (const [type, typeEvents] of byType) {
+    summaries.push({
+      type,
+      frequency: typeEvents.length,
+      avgIntensity: typeEvents.reduce((sum, event) => sum + (event.intensity || 0.5), 0) / typeEvents.length,
+      participatingDevices: new Set(typeEvents.map(event => event.deviceId)).size,
+    });
+
+    const counts = new Map<number, number>();
+    for (const event of typeEvents) {
+      const bucketStart = Math.floor(event.timestamp / PATTERN_BUCKET_MS) * PATTERN_BUCKET_MS;
+      counts.set(bucketStart, (counts.get(bucketStart) ?? 0) + 1);
+    }
+    for (const [bucketStart, count] of counts) {
+      const date = new Date(bucketStart);
+      buckets.push({ type, bucketStart, hour: date.getUTCHours(), dow: date.getUTCDay(), count });
+    }
+
+    // Cycle lengths are measured per device, so interleaved devices don't shorten them
+    const lastSeen = new Map<string, number>();
+    const gaps: number[] = [];
+    for (const event of [...typeEvents].sort((a, b) => a.timestamp - b.timestamp)) {
+      const previous = lastSeen.get(event.deviceId);
+      if (previous !== undefined) {
+        const gap = event.timestamp - previous;
+        if (gap > 0 && gap <= MAX_CYCLE_GAP_MS) gaps.push(gap);
+      }
+      lastSeen.set(event.deviceId, event.timestamp);
+    }
+    if (gaps.length > 0) {
+      gaps.sort((a, b) => a - b);
+      const meanMs = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+      const middle = Math.floor(gaps.length / 2);
+      intervals.push({
+        type,
+        medianMs: gaps.length % 2 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2,
+        meanMs,
+        stddevMs: Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - meanMs) ** 2, 0) / gaps.length),
+        samples: gaps.length,
+      });
+    }
+  }
+
+  return { summaries, buckets, intervals };
+}
@@ -0,0 +1,511 @@
+import { db, entanglements } from './database';
+import { fieldManager } from './field-manager';
+import { and, eq, inArray, lt, or } from 'drizzle-orm';
+import type { Entanglement, EntanglementStatus, EntanglementType } from './database';
+
+// Entanglement handshake shared by the tRPC API and the WebSocket server. A device asks, the target
+// accepts or declines, unanswered requests lapse, and either side can dissolve an active link.
+// Every transition is written to entanglements.status; memory only stands in when Postgres can't.
+
+export const ENTANGLEMENT_REQUEST_TTL_MS = 5 * 60 * 1000;
+const EXPIRY_SWEEP_INTERVAL_MS = 30 * 1000;
+const COLLECTIVE_TARGET = 'collective'; // what older clients send to entangle with the whole field
+const ENTANGLEMENT_STATUSES: EntanglementStatus[] = ['pending', 'active', 'declined', 'expired', 'dissolved'];
+
+export type EntanglementErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_TARGET'
+  | 'ALREADY_EXISTS'
+  | 'NOT_A_PARTICIPANT'
+  | 'INVALID_STATE'
+  | 'EXPIRED';
+
+export class EntanglementError extends Error {
+  readonly code: EntanglementErrorCode;
+
+  constructor(code: EntanglementErrorCode, message: string) {
+    super(message);
+    this.name = 'EntanglementError';
+    this.code = code;
+  }
+}
+
+export interface EntanglementRequestInput {
+  targetDeviceId?: string | null;
+  type: EntanglementType;
+  intensity?: number;
+}
+
+export type EntanglementChange =
+  | { type: 'requested' | 'established' | 'declined' | 'expired'; entanglement: Entanglement }
+  | { type: 'dissolved'; entanglement: Entanglement; by: string };
+
+type EntanglementListener = (change: EntanglementChange) => void;
+
+const isOpen = (status: EntanglementStatus) => status === 'pending' || status === 'active';
+
+export class EntanglementService {
+  private static instance: EntanglementService;
+  private entanglements = new Map<string, Entanglement>();
+  private locks = new Map<string, Promise<void>>();
+  private listeners = new Set<EntanglementListener>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  static getInstance(): EntanglementService {
+    if (!EntanglementService.instance) {
+      EntanglementService.instance = new EntanglementService();
+    }
+    return EntanglementService.instance;
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.expirePendingRequests().catch(error => {
+        console.error('Entanglement expiry sweep failed:', error);
+      });
+    }, EXPIRY_SWEEP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (!this.sweepTimer) return;
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  onChange(listener: EntanglementListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(change: EntanglementChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Entanglement listener failed:', error);
+      }
+    });
+  }
+
+  // Keyed by the device pair, so crossing requests and a simultaneous accept can't both win
+  private withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const run = previous.then(task);
+    const settled = run.then(() => undefined, () => undefined);
+    this.locks.set(key, settled);
+    settled.then(() => {
+      if (this.locks.get(key) === settled) this.locks.delete(key);
+    });
+    return run;
+  }
+
+  generateId(): string {
+    return `entangle_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  partnerOf(entanglement: Entanglement, deviceId: string): string | null {
+    return entanglement.sourceDevice === deviceId ? entanglement.targetDevice : entanglement.sourceDevice;
+  }
+
+  async get(entanglementId: string): Promise<Entanglement | null> {
+    return this.loadEntanglement(entanglementId);
+  }
+
+  // Device targets get a pending request; the collective has nobody to ask, so that link is immediate.
+  // Asking a device that already asked you counts as accepting its request.
+  async request(sourceDeviceId: string, input: EntanglementRequestInput): Promise<Entanglement> {
+    const target = input.targetDeviceId && input.targetDeviceId !== COLLECTIVE_TARGET ? input.targetDeviceId : null;
+    if (target === sourceDeviceId) {
+      throw new EntanglementError('INVALID_TARGET', 'A device cannot entangle with itself');
+    }
+
+    const now = Date.now();
+    const intensity = input.intensity ?? 0.5;
+
+    if (!target) {
+      const entanglement = this.build(sourceDeviceId, null, input.type, intensity, now);
+      entanglement.status = 'active';
+      entanglement.expiresAt = null;
+      entanglement.established = now;
+      await this.saveEntanglement(entanglement);
+      await this.afterEstablished(entanglement);
+      return entanglement;
+    }
+
+    const { entanglement, established } = await this.withLock(this.pairKey(sourceDeviceId, target), async () => {
+      const open = await this.findOpen(sourceDeviceId, target, input.type);
+
+      if (open?.status === 'active' || (open && open.sourceDevice === sourceDeviceId)) {
+        throw new EntanglementError('ALREADY_EXISTS', `A ${input.type} entanglement with ${target} is already ${open.status}`);
+      }
+      if (open) {
+        return { entanglement: await this.activate(open), established: true };
+      }
+
+      const created = this.build(sourceDeviceId, target, input.type, intensity, now);
+      await this.saveEntanglement(created);
+      return { entanglement: created, established: false };
+    });
+
+    if (established) {
+      await this.afterEstablished(entanglement);
+      return entanglement;
+    }
+
+    await this.recordTransition(entanglement, sourceDeviceId, 'ENTANGLEMENT_REQUEST', 0.3);
+    console.log(`🔗 Entanglement requested: ${sourceDeviceId} → ${target}`);
+    this.notify({ type: 'requested', entanglement });
+    return entanglement;
+  }
+
+  async accept(deviceId: string, entanglementId: string): Promise<Entanglement> {
+    const entanglement = await this.answer(deviceId, entanglementId, current => this.activate(current));
+
+    await this.afterEstablished(entanglement);
+    return entanglement;
+  }
+
+  async decline(deviceId: string, entanglementId: string): Promise<Entanglement> {
+    const entanglement = await this.answer(deviceId, entanglementId, current => this.setStatus(current, 'declined'));
+
+    await this.recordTransition(entanglement, deviceId, 'ENTANGLEMENT_DECLINE', 0.2);
+    this.notify({ type: 'declined', entanglement });
+    return entanglement;
+  }
+
+  // Either side can end an active link; the requester can also withdraw a pending request
+  async dissolve(deviceId: string, entanglementId: string): Promise<Entanglement> {
+    const entanglement = await this.withEntanglement(entanglementId, async current => {
+      if (current.sourceDevice !== deviceId && current.targetDevice !== deviceId) {
+        throw new EntanglementError('NOT_A_PARTICIPANT', `Device ${deviceId} is not part of entanglement ${entanglementId}`);
+      }
+      if (current.status === 'pending' && current.sourceDevice !== deviceId) {
+        throw new EntanglementError('INVALID_STATE', 'Decline a pending request instead of dissolving it');
+      }
+      if (!isOpen(current.status)) {
+        throw new EntanglementError('INVALID_STATE', `Entanglement ${entanglementId} is already ${current.status}`);
+      }
+      return this.setStatus(current, 'dissolved');
+    });
+
+    await this.recordTransition(entanglement, deviceId, 'ENTANGLEMENT_DISSOLVE', 0.3);
+    console.log(`🔗 Entanglement dissolved by ${deviceId}: ${entanglementId}`);
+    this.notify({ type: 'dissolved', entanglement, by: deviceId });
+    return entanglement;
+  }
+
+  // Unanswered requests addressed to the device and sent by it
+  async pending(deviceId: string): Promise<{ incoming: Entanglement[]; outgoing: Entanglement[] }> {
+    const now = Date.now();
+    const open = (await this.listForDevice(deviceId, ['pending']))
+      .filter(entanglement => (entanglement.expiresAt ?? Infinity) > now);
+
+    return {
+      incoming: open.filter(entanglement => entanglement.targetDevice === deviceId),
+      outgoing: open.filter(entanglement => entanglement.sourceDevice === deviceId)
+    };
+  }
+
+  async active(deviceId: string): Promise<Entanglement[]> {
+    return this.listForDevice(deviceId, ['active']);
+  }
+
+  // Marks lapsed requests expired; returns the ids that changed
+  async expirePendingRequests(now: number = Date.now()): Promise<string[]> {
+    const expired = new Map<string, Entanglement>();
+
+    if (db) {
+      try {
+        // Conditional update with RETURNING, so only one server instance reports each lapse
+        const rows = await db
+          .update(entanglements)
+          .set({ status: 'expired', statusChangedAt: new Date(now) })
+          .where(and(
+            eq(entanglements.status, 'pending'),
+            lt(entanglements.expiresAt, new Date(now))
+          ))
+          .returning();
+        rows.forEach((row: any) => {
+          const entanglement = this.fromRow(row);
+          expired.set(entanglement.id, entanglement);
+        });
+      } catch (error) {
+        console.warn('Failed to expire entanglement requests in database:', error);
+      }
+    }
+
+    this.entanglements.forEach((entanglement, entanglementId) => {
+      if (entanglement.status === 'pending' && entanglement.expiresAt !== null && entanglement.expiresAt < now) {
+        expired.set(entanglementId, { ...entanglement, status: 'expired', statusChangedAt: now });
+      }
+    });
+    expired.forEach((_, entanglementId) => this.entanglements.delete(entanglementId));
+
+    if (expired.size === 0) return [];
+
+    expired.forEach(entanglement => this.notify({ type: 'expired', entanglement }));
+    console.log(`🔗 Expired ${expired.size} unanswered entanglement request(s)`);
+
+    return Array.from(expired.keys());
+  }
+
+  private build(
+    sourceDeviceId: string,
+    targetDeviceId: string | null,
+    type: EntanglementType,
+    intensity: number,
+    now: number
+  ): Entanglement {
+    return {
+      id: this.generateId(),
+      sourceDevice: sourceDeviceId,
+      targetDevice: targetDeviceId,
+      type,
+      intensity,
+      status: 'pending',
+      requestedAt: now,
+      expiresAt: now + ENTANGLEMENT_REQUEST_TTL_MS,
+      established: null,
+      statusChangedAt: now
+    };
+  }
+
+  // Accept and decline: only the target of a live pending request may answer it
+  private async answer(
+    deviceId: string,
+    entanglementId: string,
+    task: (current: Entanglement) => Promise<Entanglement>
+  ): Promise<Entanglement> {
+    const { entanglement, lapsed } = await this.withEntanglement(entanglementId, async current => {
+      if (current.status !== 'pending') {
+        throw new EntanglementError('INVALID_STATE', `Entanglement ${entanglementId} is ${current.status}, not pending`);
+      }
+      this.requireTarget(current, deviceId);
+
+      // The sweep may not have reached it yet
+      if (current.expiresAt !== null && current.expiresAt <= Date.now()) {
+        return { entanglement: await this.setStatus(current, 'expired'), lapsed: true };
+      }
+      return { entanglement: await task(current), lapsed: false };
+    });
+
+    if (lapsed) {
+      this.notify({ type: 'expired', entanglement });
+      throw new EntanglementError('EXPIRED', `Entanglement request ${entanglementId} has expired`);
+    }
+    return entanglement;
+  }
+
+  private async withEntanglement<T>(entanglementId: string, task: (current: Entanglement) => Promise<T>): Promise<T> {
+    const found = await this.loadEntanglement(entanglementId);
+    if (!found) {
+      throw new EntanglementError('NOT_FOUND', `Entanglement ${entanglementId} not found`);
+    }
+
+    return this.withLock(this.pairKey(found.sourceDevice, found.targetDevice), async () => {
+      // Re-read under the lock; another answer may have landed in between
+      const current = await this.loadEntanglement(entanglementId);
+      if (!current) {
+        throw new EntanglementError('NOT_FOUND', `Entanglement ${entanglementId} not found`);
+      }
+      return task(current);
+    });
+  }
+
+  private requireTarget(entanglement: Entanglement, deviceId: string): void {
+    if (entanglement.targetDevice !== deviceId) {
+      throw new EntanglementError('NOT_A_PARTICIPANT', `Only ${entanglement.targetDevice} can answer this request`);
+    }
+  }
+
+  private async activate(entanglement: Entanglement): Promise<Entanglement> {
+    const now = Date.now();
+    entanglement.established = now;
+    entanglement.expiresAt = null;
+    return this.setStatus(entanglement, 'active', now);
+  }
+
+  private async setStatus(entanglement: Entanglement, status: EntanglementStatus, now: number = Date.now()): Promise<Entanglement> {
+    entanglement.status = status;
+    entanglement.statusChangedAt = now;
+    await this.saveEntanglement(entanglement);
+    return entanglement;
+  }
+
+  private async afterEstablished(entanglement: Entanglement): Promise<void> {
+    await this.recordTransition(entanglement, entanglement.targetDevice ?? entanglement.sourceDevice, 'ENTANGLEMENT_ESTABLISHED', entanglement.intensity);
+
+    // A new link feeds the collective intelligence of the field
+    const currentState = await fieldManager.getGlobalState();
+    await fieldManager.updateGlobalState({
+      collectiveIntelligence: Math.min(1, currentState.collectiveIntelligence + (entanglement.intensity * 0.1))
+    });
+
+    if (entanglement.targetDevice) {
+      console.log(`🔗 Entanglement established: ${entanglement.sourceDevice} ↔ ${entanglement.targetDevice}`);
+    }
+    this.notify({ type: 'established', entanglement });
+  }
+
+  private async recordTransition(entanglement: Entanglement, deviceId: string, action: string, intensity: number): Promise<void> {
+    await fieldManager.recordEvent({
+      deviceId,
+      type: 'TOUCH', // closest event type to an entanglement
+      data: {
+        action,
+        entanglementId: entanglement.id,
+        entanglementType: entanglement.type,
+        sourceDeviceId: entanglement.sourceDevice,
+        targetDeviceId: entanglement.targetDevice,
+        intensity: entanglement.intensity
+      },
+      timestamp: Date.now(),
+      processed: false,
+      intensity
+    });
+  }
+
+  private pairKey(a: string, b: string | null): string {
+    return b ? [a, b].sort().join('|') : a;
+  }
+
+  private async findOpen(a: string, b: string, type: EntanglementType): Promise<Entanglement | null> {
+    const now = Date.now();
+    let candidates: Entanglement[] | null = null;
+
+    if (db) {
+      try {
+        const rows = await db
+          .select()
+          .from(entanglements)
+          .where(and(
+            eq(entanglements.type, type),
+            inArray(entanglements.status, ['pending', 'active']),
+            or(
+              and(eq(entanglements.sourceDevice, a), eq(entanglements.targetDevice, b)),
+              and(eq(entanglements.sourceDevice, b), eq(entanglements.targetDevice, a))
+            )
+          ));
+        candidates = rows.map((row: any) => this.fromRow(row));
+      } catch (error) {
+        console.warn('Failed to look up entanglements in database:', error);
+      }
+    }
+
+    if (!candidates) {
+      candidates = Array.from(this.entanglements.values()).filter(entanglement =>
+        entanglement.type === type &&
+        isOpen(entanglement.status) &&
+        this.pairKey(entanglement.sourceDevice, entanglement.targetDevice) === this.pairKey(a, b)
+      );
+    }
+
+    // A request past its expiry is as good as gone, even before the sweep marks it
+    return candidates.find(entanglement =>
+      entanglement.status === 'active' || (entanglement.expiresAt ?? Infinity) > now
+    ) ?? null;
+  }
+
+  private async listForDevice(deviceId: string, statuses: EntanglementStatus[]): Promise<Entanglement[]> {
+    if (db) {
+      try {
+        const rows = await db
+          .select()
+          .from(entanglements)
+          .where(and(
+            inArray(entanglements.status, statuses),
+            or(eq(entanglements.sourceDevice, deviceId), eq(entanglements.targetDevice, deviceId))
+          ));
+        return rows
+          .map((row: any) => this.fromRow(row))
+          .sort((a: Entanglement, b: Entanglement) => b.statusChangedAt - a.statusChangedAt);
+      } catch (error) {
+        console.warn('Failed to list entanglements from database:', error);
+      }
+    }
+
+    return Array.from(this.entanglements.values())
+      .filter(entanglement =>
+        statuses.includes(entanglement.status) &&
+        (entanglement.sourceDevice === deviceId || entanglement.targetDevice === deviceId)
+      )
+      .sort((a, b) => b.statusChangedAt - a.statusChangedAt)
+      .map(entanglement => ({ ...entanglement }));
+  }
+
+  private fromRow(row: any): Entanglement {
+    const requestedAt = row.requestedAt?.getTime() || row.established?.getTime() || Date.now();
+    return {
+      id: row.entanglementId,
+      sourceDevice: row.sourceDevice,
+      targetDevice: row.targetDevice && row.targetDevice !== COLLECTIVE_TARGET ? row.targetDevice : null,
+      type: row.type,
+      intensity: row.intensity ?? 0.5,
+      status: ENTANGLEMENT_STATUSES.includes(row.status) ? row.status : 'dissolved',
+      requestedAt,
+      expiresAt: row.expiresAt?.getTime() ?? null,
+      established: row.established?.getTime() ?? null,
+      statusChangedAt: row.statusChangedAt?.getTime() || requestedAt
+    };
+  }
+
+  private async loadEntanglement(entanglementId: string): Promise<Entanglement | null> {
+    let entanglement: Entanglement | null | undefined;
+
+    if (db) {
+      try {
+        const [row] = await db
+          .select()
+          .from(entanglements)
+          .where(eq(entanglements.entanglementId, entanglementId))
+          .limit(1);
+        entanglement = row ? this.fromRow(row) : null;
+      } catch (error) {
+        console.warn('Failed to get entanglement from database:', error);
+      }
+    }
+
+    if (entanglement === undefined) entanglement = this.entanglements.get(entanglementId) || null;
+    return entanglement ? { ...entanglement } : null;
+  }
+
+  // Memory only holds what the database couldn't take, and only while it is still open
+  private async saveEntanglement(entanglement: Entanglement): Promise<void> {
+    if (db) {
+      try {
+        const values = {
+          sourceDevice: entanglement.sourceDevice,
+          targetDevice: entanglement.targetDevice,
+          type: entanglement.type,
+          intensity: entanglement.intensity,
+          status: entanglement.status,
+          established: entanglement.established ? new Date(entanglement.established) : null,
+          requestedAt: new Date(entanglement.requestedAt),
+          expiresAt: entanglement.expiresAt ? new Date(entanglement.expiresAt) : null,
+          statusChangedAt: new Date(entanglement.statusChangedAt),
+          lastSync: new Date(entanglement.statusChangedAt)
+        };
+        await db
+          .insert(entanglements)
+          .values({ entanglementId: entanglement.id, ...values })
+          .onConflictDoUpdate({ target: entanglements.entanglementId, set: values });
+        this.entanglements.delete(entanglement.id);
+        return;
+      } catch (error) {
+        console.warn('Failed to save entanglement to database:', error);
+      }
+    }
+
+    if (isOpen(entanglement.status)) {
+      this.entanglements.set(entanglement.id, { ...entanglement });
+    } else {
+      this.entanglements.delete(entanglement.id);
+    }
+  }
+}
+
+export const entanglementService = EntanglementService.getInstance();
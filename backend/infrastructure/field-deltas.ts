@@ -0,0 +1,279 @@
+import type { ConsciousnessState, MemoryParticle, QuantumField } from './database';
+
+// Sequence-numbered field broadcasts. Each WebSocket server keeps the view its clients hold,
+// sends only what moved past a visible threshold, and falls back to a full keyframe periodically
+// or when a client reports a gap.
+
+export type FieldCellChange = [number, number, number]; // [i, j, value]
+
+export interface QuantumFieldDelta {
+  id: string;
+  collectiveIntensity: number;
+  lastUpdate: number;
+  fieldData?: number[][]; // new fields, or fields where most cells changed
+  cells?: FieldCellChange[];
+}
+
+export type FieldScalars = Pick<
+  ConsciousnessState,
+  'globalResonance' | 'activeNodes' | 'collectiveIntelligence' | 'room64Active' | 'lastUpdate'
+>;
+
+export interface FieldDelta {
+  kind: 'delta';
+  seq: number;
+  baseSeq: number; // clients must be at exactly this seq to apply the delta
+  timestamp: number;
+  scalars?: Partial<FieldScalars>;
+  fields?: { upserted: QuantumFieldDelta[]; removed: string[] };
+  particles?: { upserted: MemoryParticle[]; removed: string[] };
+}
+
+export interface FieldKeyframe {
+  kind: 'keyframe';
+  seq: number;
+  timestamp: number;
+  state: ConsciousnessState;
+}
+
+export type FieldBroadcast = FieldDelta | FieldKeyframe;
+
+const KEYFRAME_INTERVAL = 30;
+const CELL_EPSILON = 0.01;
+const PARTICLE_POSITION_EPSILON = 0.1;
+const PARTICLE_INTENSITY_EPSILON = 0.02;
+const RESONANCE_EPSILON = 0.001;
+const FULL_FIELD_THRESHOLD = 1 / 3; // past this share of changed cells the whole grid is cheaper
+
+const round = (value: number, places: number) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+function quantizeField(field: QuantumField): QuantumField {
+  return {
+    ...field,
+    fieldData: field.fieldData.map(column => column.map(value => round(value, 2))),
+    collectiveIntensity: round(field.collectiveIntensity, 3),
+  };
+}
+
+function quantizeParticle(particle: MemoryParticle): MemoryParticle {
+  return {
+    ...particle,
+    x: round(particle.x, 2),
+    y: round(particle.y, 2),
+    intensity: round(particle.intensity, 3),
+  };
+}
+
+function quantizeState(state: ConsciousnessState): ConsciousnessState {
+  return {
+    ...state,
+    globalResonance: round(state.globalResonance, 3),
+    collectiveIntelligence: round(state.collectiveIntelligence, 3),
+    quantumFields: state.quantumFields.map(quantizeField),
+    memoryParticles: state.memoryParticles.map(quantizeParticle),
+  };
+}
+
+function particleMoved(previous: MemoryParticle, next: MemoryParticle): boolean {
+  return Math.abs(previous.x - next.x) >= PARTICLE_POSITION_EPSILON ||
+    Math.abs(previous.y - next.y) >= PARTICLE_POSITION_EPSILON ||
+    Math.abs(previous.intensity - next.intensity) >= PARTICLE_INTENSITY_EPSILON ||
+    previous.sacredPhrase !== next.sacredPhrase;
+}
+
+export class FieldDeltaEncoder {
+  private view: ConsciousnessState | null = null;
+  private seq = 0;
+  private sinceKeyframe = 0;
+
+  // Current client-side view, for initial state and resync requests
+  current(): FieldKeyframe | null {
+    if (!this.view) return null;
+    return { kind: 'keyframe', seq: this.seq, timestamp: Date.now(), state: this.view };
+  }
+
+  keyframe(state: ConsciousnessState): FieldKeyframe {
+    this.view = quantizeState(state);
+    this.seq++;
+    this.sinceKeyframe = 0;
+    return { kind: 'keyframe', seq: this.seq, timestamp: Date.now(), state: this.view };
+  }
+
+  // Null when nothing visible changed, so callers can skip the emit entirely
+  encode(state: ConsciousnessState): FieldBroadcast | null {
+    if (!this.view || this.sinceKeyframe >= KEYFRAME_INTERVAL) {
+      return this.keyframe(state);
+    }
+
+    const previous = this.view;
+    const next: ConsciousnessState = { ...previous, quantumFields: [], memoryParticles: [] };
+    const delta: FieldDelta = { kind: 'delta', seq: this.seq + 1, baseSeq: this.seq, timestamp: Date.now() };
+
+    const scalars = this.diffScalars(previous, state, next);
+    if (Object.keys(scalars).length > 0) delta.scalars = scalars;
+
+    const fields = this.diffFields(previous.quantumFields, state.quantumFields, next);
+    if (fields.upserted.length > 0 || fields.removed.length > 0) delta.fields = fields;
+
+    const particles = this.diffParticles(previous.memoryParticles, state.memoryParticles, next);
+    if (particles.upserted.length > 0 || particles.removed.length > 0) delta.particles = particles;
+
+    this.view = next;
+    if (!delta.scalars && !delta.fields && !delta.particles) return null;
+
+    this.seq = delta.seq;
+    this.sinceKeyframe++;
+    return delta;
+  }
+
+  private diffScalars(previous: ConsciousnessState, state: ConsciousnessState, next: ConsciousnessState): Partial<FieldScalars> {
+    const scalars: Partial<FieldScalars> = {};
+
+    const resonance = round(state.globalResonance, 3);
+    if (Math.abs(resonance - previous.globalResonance) >= RESONANCE_EPSILON) {
+      scalars.globalResonance = next.globalResonance = resonance;
+    }
+    const intelligence = round(state.collectiveIntelligence, 3);
+    if (Math.abs(intelligence - previous.collectiveIntelligence) >= RESONANCE_EPSILON) {
+      scalars.collectiveIntelligence = next.collectiveIntelligence = intelligence;
+    }
+    if (state.activeNodes !== previous.activeNodes) {
+      scalars.activeNodes = next.activeNodes = state.activeNodes;
+    }
+    if (state.room64Active !== previous.room64Active) {
+      scalars.room64Active = next.room64Active = state.room64Active;
+    }
+    // lastUpdate alone is not worth a message, but rides along with any other change
+    next.lastUpdate = state.lastUpdate;
+    if (Object.keys(scalars).length > 0) scalars.lastUpdate = state.lastUpdate;
+
+    return scalars;
+  }
+
+  private diffFields(
+    previous: QuantumField[],
+    current: QuantumField[],
+    next: ConsciousnessState
+  ): { upserted: QuantumFieldDelta[]; removed: string[] } {
+    const previousById = new Map(previous.map(field => [field.id, field]));
+    const currentIds = new Set(current.map(field => field.id));
+    const upserted: QuantumFieldDelta[] = [];
+
+    for (const raw of current) {
+      const field = quantizeField(raw);
+      const known = previousById.get(field.id);
+
+      if (!known) {
+        upserted.push({ id: field.id, collectiveIntensity: field.collectiveIntensity, lastUpdate: field.lastUpdate, fieldData: field.fieldData });
+        next.quantumFields.push(field);
+        continue;
+      }
+
+      const fieldData = known.fieldData.map(column => [...column]);
+      const cells: FieldCellChange[] = [];
+      let cellCount = 0;
+
+      for (let i = 0; i < field.fieldData.length; i++) {
+        for (let j = 0; j < field.fieldData[i].length; j++) {
+          cellCount++;
+          const value = field.fieldData[i][j];
+          const shown = known.fieldData[i]?.[j] ?? 0;
+          // Cells that reach zero always go out, so faded fields don't leave residue on clients
+          if (value !== shown && (Math.abs(value - shown) >= CELL_EPSILON || value === 0)) {
+            cells.push([i, j, value]);
+            if (!fieldData[i]) fieldData[i] = [];
+            fieldData[i][j] = value;
+          }
+        }
+      }
+
+      const intensityChanged = Math.abs(field.collectiveIntensity - known.collectiveIntensity) >= RESONANCE_EPSILON;
+      if (cells.length === 0 && !intensityChanged && field.lastUpdate === known.lastUpdate) {
+        next.quantumFields.push(known);
+        continue;
+      }
+
+      const collectiveIntensity = intensityChanged ? field.collectiveIntensity : known.collectiveIntensity;
+      if (cells.length > cellCount * FULL_FIELD_THRESHOLD) {
+        upserted.push({ id: field.id, collectiveIntensity, lastUpdate: field.lastUpdate, fieldData: field.fieldData });
+        next.quantumFields.push({ ...field, collectiveIntensity });
+      } else {
+        upserted.push({ id: field.id, collectiveIntensity, lastUpdate: field.lastUpdate, cells });
+        next.quantumFields.push({ ...field, collectiveIntensity, fieldData });
+      }
+    }
+
+    return {
+      upserted,
+      removed: previous.filter(field => !currentIds.has(field.id)).map(field => field.id),
+    };
+  }
+
+  private diffParticles(
+    previous: MemoryParticle[],
+    current: MemoryParticle[],
+    next: ConsciousnessState
+  ): { upserted: MemoryParticle[]; removed: string[] } {
+    const previousById = new Map(previous.map(particle => [particle.id, particle]));
+    const currentIds = new Set(current.map(particle => particle.id));
+    const upserted: MemoryParticle[] = [];
+
+    for (const raw of current) {
+      const particle = quantizeParticle(raw);
+      const known = previousById.get(particle.id);
+
+      if (known && !particleMoved(known, particle)) {
+        next.memoryParticles.push(known);
+      } else {
+        upserted.push(particle);
+        next.memoryParticles.push(particle);
+      }
+    }
+
+    return {
+      upserted,
+      removed: previous.filter(particle => !currentIds.has(particle.id)).map(particle => particle.id),
+    };
+  }
+}
+
+// Client-side counterpart of FieldDeltaEncoder; null means the delta doesn't follow on and a resync is needed
+export function applyFieldDelta(state: ConsciousnessState, seq: number, delta: FieldDelta): ConsciousnessState | null {
+  if (delta.baseSeq !== seq) return null;
+
+  let quantumFields = state.quantumFields;
+  if (delta.fields) {
+    const removed = new Set(delta.fields.removed);
+    const byId = new Map(quantumFields.filter(field => !removed.has(field.id)).map(field => [field.id, field]));
+
+    for (const change of delta.fields.upserted) {
+      const known = byId.get(change.id);
+      let fieldData = change.fieldData;
+      if (!fieldData) {
+        if (!known) return null;
+        fieldData = known.fieldData.map(column => [...column]);
+        for (const [i, j, value] of change.cells ?? []) {
+          if (!fieldData[i]) fieldData[i] = [];
+          fieldData[i][j] = value;
+        }
+      }
+      byId.set(change.id, { id: change.id, fieldData, collectiveIntensity: change.collectiveIntensity, lastUpdate: change.lastUpdate });
+    }
+    quantumFields = Array.from(byId.values());
+  }
+
+  let memoryParticles = state.memoryParticles;
+  if (delta.particles) {
+    const removed = new Set(delta.particles.removed);
+    const byId = new Map(memoryParticles.filter(particle => !removed.has(particle.id)).map(particle => [particle.id, particle]));
+    for (const particle of delta.particles.upserted) {
+      byId.set(particle.id, particle);
+    }
+    memoryParticles = Array.from(byId.values());
+  }
+
+  return { ...state, ...delta.scalars, quantumFields, memoryParticles };
+}
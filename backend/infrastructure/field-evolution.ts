@@ -0,0 +1,76 @@
+import { fieldManager } from './field-manager';
+import { createSeededRandom, evolveState, FIELD_EVOLUTION_TICK_MS } from './field-physics';
+import type { EvolutionRandom } from './field-physics';
+import type { ConsciousnessState } from './database';
+
+// Drives evolveState against the persisted global state on a fixed interval. Every server runs this
+// loop; fieldManager.evolveGlobalState makes sure their steps add up to wall-clock time.
+export class FieldEvolutionEngine {
+  private static instance: FieldEvolutionEngine;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private random: EvolutionRandom = createSeededRandom(0);
+  private lastTick = 0;
+  private ticking = false;
+  private tickCount = 0;
+  private readonly TICK_INTERVAL_MS = FIELD_EVOLUTION_TICK_MS;
+
+  static getInstance(): FieldEvolutionEngine {
+    if (!FieldEvolutionEngine.instance) {
+      FieldEvolutionEngine.instance = new FieldEvolutionEngine();
+    }
+    return FieldEvolutionEngine.instance;
+  }
+
+  start(seed: number = Date.now()): void {
+    if (this.timer) return;
+
+    this.random = createSeededRandom(seed);
+    this.lastTick = Date.now();
+    this.tickCount = 0;
+    this.timer = setInterval(() => {
+      this.tick();
+    }, this.TICK_INTERVAL_MS);
+
+    console.log(`🌀 Field evolution started (seed ${seed}, every ${this.TICK_INTERVAL_MS}ms)`);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  getStats() {
+    return {
+      running: this.timer !== null,
+      tickCount: this.tickCount,
+      lastTick: this.lastTick,
+    };
+  }
+
+  async tick(now: number = Date.now()): Promise<ConsciousnessState | null> {
+    // A slow database write must not let ticks overlap and double-apply decay
+    if (this.ticking) return null;
+    this.ticking = true;
+
+    try {
+      const evolved = await fieldManager.evolveGlobalState(
+        (state, dtMs) => evolveState(state, dtMs, this.random),
+        this.TICK_INTERVAL_MS,
+        now
+      );
+      if (!evolved) return null;
+
+      this.lastTick = now;
+      this.tickCount++;
+      return evolved;
+    } catch (error) {
+      console.error('Field evolution tick failed:', error);
+      return null;
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+export const fieldEvolution = FieldEvolutionEngine.getInstance();
@@ -1,4 +1,5 @@
 import { PersistentFieldManager } from './field-manager';
+import type { ArchaeologyOptions } from './field-manager';
 import { db, cache, consciousnessEvents, sql } from './database';
 import type { ConsciousnessEvent } from './database';
 
@@ -81,18 +82,6 @@ export class OptimizedFieldManager extends PersistentFieldManager {
         `
       );
       
-      // Prepared statement for event type analysis
-      this.preparedStatements.set('getEventTypeStats',
-        sql`
-          SELECT type, COUNT(*) as frequency, AVG(intensity) as avg_intensity,
-                 COUNT(DISTINCT device_id) as unique_devices
-          FROM consciousness_events 
-          WHERE timestamp >= $1 AND timestamp <= $2
-          GROUP BY type
-          ORDER BY frequency DESC
-        `
-      );
-      
       console.log('✅ Prepared statements initialized successfully');
     } catch (error) {
       console.warn('⚠️ Failed to initialize prepared statements:', error);
@@ -337,9 +326,13 @@ export class OptimizedFieldManager extends PersistentFieldManager {
   }
   
   // Optimized archaeology data with prepared statements
-  async getArchaeologyData(query: string, timeRange?: { start: number; end: number }): Promise<any> {
+  async getArchaeologyData(
+    query: string,
+    timeRange?: { start: number; end: number },
+    options: ArchaeologyOptions = {}
+  ): Promise<any> {
     const startTime = Date.now();
-    const cacheKey = `archaeology:${query}:${timeRange?.start || 'all'}:${timeRange?.end || 'all'}`;
+    const cacheKey = `archaeology:${query}:${timeRange?.start || 'all'}:${timeRange?.end || 'all'}:${JSON.stringify(options)}`;
     
     try {
       // Check cache first
@@ -351,40 +344,8 @@ export class OptimizedFieldManager extends PersistentFieldManager {
       
       this.performanceMetrics.cacheMisses++;
       
-      if (query === 'PATTERNS' && db && sql && this.preparedStatements.has('getEventTypeStats')) {
-        const startTime = timeRange ? timeRange.start : Date.now() - 24 * 60 * 60 * 1000;
-        const endTime = timeRange ? timeRange.end : Date.now();
-        
-        const patterns = await sql`
-          SELECT type, COUNT(*) as frequency, AVG(intensity) as avg_intensity,
-                 COUNT(DISTINCT device_id) as unique_devices
-          FROM consciousness_events 
-          WHERE timestamp >= ${new Date(startTime)} AND timestamp <= ${new Date(endTime)}
-          GROUP BY type
-          ORDER BY frequency DESC
-        `;
-        
-        const result = {
-          emergencePatterns: patterns.map((pattern: any) => ({
-            type: pattern.type,
-            frequency: parseInt(pattern.frequency),
-            avgIntensity: parseFloat(pattern.avg_intensity) || 0.5,
-            participatingDevices: parseInt(pattern.unique_devices),
-            peakTime: Date.now() - Math.random() * 24 * 60 * 60 * 1000
-          })),
-          totalEvents: patterns.reduce((sum: number, p: any) => sum + parseInt(p.frequency), 0),
-          timeSpan: endTime - startTime
-        };
-        
-        // Cache for 5 minutes
-        await cache.set(cacheKey, result, 300);
-        this.recordQueryTime(Date.now() - startTime);
-        
-        return result;
-      }
-      
-      // Fallback to parent implementation
-      const result = await super.getArchaeologyData(query, timeRange);
+      // Filters and pagination run as SQL in the parent implementation
+      const result = await super.getArchaeologyData(query, timeRange, options);
       
       // Cache the result
       await cache.set(cacheKey, result, 300);
@@ -393,7 +354,7 @@ export class OptimizedFieldManager extends PersistentFieldManager {
       return result;
     } catch (error) {
       console.error('Failed to get archaeology data optimized:', error);
-      return await super.getArchaeologyData(query, timeRange);
+      return await super.getArchaeologyData(query, timeRange, options);
     }
   }
   
@@ -1,6 +1,68 @@
 import { db, cache, consciousnessStates, consciousnessEvents } from './database';
-import { eq, and, gte, lte, desc, sql } from 'drizzle-orm';
+import { eq, and, or, gt, gte, lte, lt, asc, desc, inArray, sql } from 'drizzle-orm';
 import type { ConsciousnessState, ConsciousnessEvent, MemoryParticle, QuantumField } from './database';
+import { buildEmergencePatterns, summarizeEventsInMemory, MAX_CYCLE_GAP_MS } from './emergence-patterns';
+import type { EmergencePattern } from './emergence-patterns';
+import { superposeGrids } from './field-patterns';
+
+export interface ArchaeologyPagination {
+  cursor?: string;
+  limit?: number;
+  order?: 'asc' | 'desc'; // newest first unless replaying forwards
+}
+
+// Filters accepted by the archaeology route; applied as SQL predicates when a database is present
+export interface ArchaeologyFilters {
+  sacredPhrases?: string[];
+  minIntensity?: number;
+  deviceIds?: string[];
+}
+
+export interface ArchaeologyOptions extends ArchaeologyPagination {
+  filters?: ArchaeologyFilters;
+}
+
+export interface EventQueryFilters {
+  types?: ConsciousnessEvent['type'][];
+  deviceIds?: string[];
+  phrases?: string[]; // substring match on data.phrase
+  minIntensity?: number;
+  maxIntensity?: number;
+  startTime?: number;
+  endTime?: number;
+  afterEventId?: number; // only events inserted after this id
+}
+
+// Newest-first slice of consciousness_events; nextCursor is null on the last page
+export interface EventPage {
+  events: ConsciousnessEvent[];
+  nextCursor: string | null;
+}
+
+// One sacred phrase in the timeline, with the memory particles it left in the field
+export interface SacredHistoryEntry {
+  eventId: number;
+  phrase: string;
+  deviceId: string;
+  intensity: number;
+  timestamp: number;
+  memoryParticles: MemoryParticle[];
+}
+
+// A burst of correlated BLOOM/SPIRAL activity across several devices
+export interface EmergenceEpisode {
+  startTime: number;
+  endTime: number;
+  duration: number;
+  eventCount: number;
+  devices: string[];
+  participatingDevices: number;
+  typeCounts: { BLOOM: number; SPIRAL: number };
+  avgIntensity: number;
+  peakIntensity: number;
+  correlation: number;
+  strength: number;
+}
 
 // In-memory fallback storage
 let inMemoryGlobalState: ConsciousnessState = {
@@ -27,6 +89,17 @@ export class PersistentFieldManager {
   private readonly MAX_MEMORY_PARTICLES = 1000;
   private readonly MAX_QUANTUM_FIELDS = 10;
   private readonly MAX_EVENTS_IN_MEMORY = 1000;
+  private readonly DEFAULT_EVENT_PAGE_SIZE = 20;
+  private readonly MAX_EVENT_PAGE_SIZE = 200;
+  private readonly PARTICLE_MATCH_WINDOW_MS = 10000; // particles are stamped slightly after their event
+  private readonly EMERGENCE_GAP_MS = 60000; // max quiet time inside one episode
+  private readonly EMERGENCE_MIN_EVENTS = 3;
+  private readonly EMERGENCE_MIN_DEVICES = 2;
+  private readonly DEFAULT_MEMORY_PAGE_SIZE = 50;
+  private stateListeners: ((state: ConsciousnessState) => void)[] = [];
+  private lastEvolvedInMemory = 0;
+  // Tags published updates so a server can skip its own messages coming back from Redis
+  readonly instanceId = `${process.pid}-${Date.now().toString(36)}`;
   
   static getInstance(): PersistentFieldManager {
     if (!PersistentFieldManager.instance) {
@@ -106,16 +179,7 @@ export class PersistentFieldManager {
           return result;
         });
         
-        normalizedUpdated = {
-          ...updated,
-          globalResonance: updated.globalResonance || 0.5,
-          activeNodes: updated.activeNodes || 0,
-          memoryParticles: updated.memoryParticles || [],
-          quantumFields: updated.quantumFields || [],
-          collectiveIntelligence: updated.collectiveIntelligence || 0.3,
-          room64Active: updated.room64Active || false,
-          lastUpdate: updated.lastUpdate?.getTime() || Date.now(),
-        };
+        normalizedUpdated = this.normalizeState(updated);
       } else {
         // Update in-memory state
         inMemoryGlobalState = {
@@ -125,18 +189,7 @@ export class PersistentFieldManager {
         normalizedUpdated = inMemoryGlobalState;
       }
       
-      // Update cache
-      await cache.set('consciousness:global', normalizedUpdated, this.CACHE_TTL);
-      this.globalStateCache = normalizedUpdated;
-      this.lastCacheUpdate = Date.now();
-      
-      // Publish state change for real-time updates
-      await cache.publish('consciousness:updates', {
-        type: 'STATE_UPDATE',
-        data: normalizedUpdated,
-        timestamp: Date.now()
-      });
-      
+      await this.publishState(normalizedUpdated);
       return normalizedUpdated;
     } catch (error) {
       console.error('Failed to update global state:', error);
@@ -146,10 +199,119 @@ export class PersistentFieldManager {
         ...updates,
         lastUpdate: Date.now(),
       };
+      this.notifyStateListeners(inMemoryGlobalState);
       return inMemoryGlobalState;
     }
   }
   
+  // One evolution step for the shared row. With a database the row stays locked from read to write,
+  // so handler writes in between aren't overwritten, and the step covers the time since any server
+  // last evolved it; several instances ticking together still advance the field at wall-clock rate.
+  // Resolves null when another instance evolved it less than half a tick ago.
+  async evolveGlobalState(
+    evolve: (state: ConsciousnessState, dtMs: number) => ConsciousnessState,
+    tickMs: number,
+    now: number = Date.now()
+  ): Promise<ConsciousnessState | null> {
+    let evolved: ConsciousnessState | null;
+    
+    if (db) {
+      evolved = await db.transaction(async (tx: any) => {
+        const [row] = await tx
+          .select()
+          .from(consciousnessStates)
+          .where(eq(consciousnessStates.nodeId, 'global'))
+          .for('update')
+          .limit(1);
+        if (!row) return null;
+        
+        const dtMs = row.lastEvolved ? now - row.lastEvolved.getTime() : tickMs;
+        if (dtMs < tickMs / 2) return null;
+        
+        const next = evolve(this.normalizeState(row), dtMs);
+        const [updated] = await tx
+          .update(consciousnessStates)
+          .set({
+            quantumFields: next.quantumFields,
+            memoryParticles: next.memoryParticles,
+            globalResonance: next.globalResonance,
+            lastUpdate: new Date(now),
+            lastEvolved: new Date(now),
+            updatedAt: new Date(),
+          })
+          .where(eq(consciousnessStates.nodeId, 'global'))
+          .returning();
+        
+        return this.normalizeState(updated);
+      });
+    } else {
+      const dtMs = this.lastEvolvedInMemory ? now - this.lastEvolvedInMemory : tickMs;
+      if (dtMs < tickMs / 2) return null;
+      
+      const next = evolve(inMemoryGlobalState, dtMs);
+      this.lastEvolvedInMemory = now;
+      inMemoryGlobalState = {
+        ...inMemoryGlobalState,
+        quantumFields: next.quantumFields,
+        memoryParticles: next.memoryParticles,
+        globalResonance: next.globalResonance,
+        lastUpdate: now,
+      };
+      evolved = inMemoryGlobalState;
+    }
+    
+    if (evolved) await this.publishState(evolved);
+    return evolved;
+  }
+  
+  private normalizeState(row: any): ConsciousnessState {
+    return {
+      ...row,
+      globalResonance: row.globalResonance || 0.5,
+      activeNodes: row.activeNodes || 0,
+      memoryParticles: row.memoryParticles || [],
+      quantumFields: row.quantumFields || [],
+      collectiveIntelligence: row.collectiveIntelligence || 0.3,
+      room64Active: row.room64Active || false,
+      lastUpdate: row.lastUpdate?.getTime() || Date.now(),
+    };
+  }
+  
+  private async publishState(state: ConsciousnessState): Promise<void> {
+    // Update cache
+    await cache.set('consciousness:global', state, this.CACHE_TTL);
+    this.globalStateCache = state;
+    this.lastCacheUpdate = Date.now();
+    
+    this.notifyStateListeners(state);
+    
+    // Publish state change for real-time updates
+    await cache.publish('consciousness:updates', {
+      type: 'STATE_UPDATE',
+      origin: this.instanceId,
+      data: state,
+      timestamp: Date.now()
+    });
+  }
+  
+  // In-process change feed, so broadcasts work without Redis
+  onStateChange(listener: (state: ConsciousnessState) => void): () => void {
+    this.stateListeners.push(listener);
+    return () => {
+      this.stateListeners = this.stateListeners.filter(existing => existing !== listener);
+    };
+  }
+  
+  private notifyStateListeners(state: ConsciousnessState): void {
+    for (const listener of this.stateListeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        console.warn('State listener failed:', error);
+      }
+    }
+  }
+  
   async getGlobalState(): Promise<ConsciousnessState> {
     try {
       // Check memory cache first
@@ -174,16 +336,7 @@ export class PersistentFieldManager {
           .limit(1);
         
         if (state) {
-          const normalizedState = {
-            ...state,
-            globalResonance: state.globalResonance || 0.5,
-            activeNodes: state.activeNodes || 0,
-            memoryParticles: state.memoryParticles || [],
-            quantumFields: state.quantumFields || [],
-            collectiveIntelligence: state.collectiveIntelligence || 0.3,
-            room64Active: state.room64Active || false,
-            lastUpdate: state.lastUpdate?.getTime() || Date.now(),
-          };
+          const normalizedState = this.normalizeState(state);
           
           // Warm cache
           await cache.set('consciousness:global', normalizedState, this.CACHE_TTL);
@@ -221,16 +374,7 @@ export class PersistentFieldManager {
         .limit(1);
       
       if (state) {
-        const normalizedState = {
-          ...state,
-          globalResonance: state.globalResonance || 0.5,
-          activeNodes: state.activeNodes || 0,
-          memoryParticles: state.memoryParticles || [],
-          quantumFields: state.quantumFields || [],
-          collectiveIntelligence: state.collectiveIntelligence || 0.3,
-          room64Active: state.room64Active || false,
-          lastUpdate: state.lastUpdate?.getTime() || Date.now(),
-        };
+        const normalizedState = this.normalizeState(state);
         
         await cache.set('consciousness:global', normalizedState, this.CACHE_TTL);
         this.globalStateCache = normalizedState;
@@ -263,11 +407,13 @@ export class PersistentFieldManager {
     try {
       const currentState = await this.getGlobalState();
       const existingFieldIndex = currentState.quantumFields.findIndex(f => f.id === fieldId);
+      const existingField = existingFieldIndex >= 0 ? currentState.quantumFields[existingFieldIndex] : null;
       
+      // New input superposes on whatever the field has diffused into rather than replacing it
       const updatedField: QuantumField = {
         id: fieldId,
-        fieldData,
-        collectiveIntensity: intensity,
+        fieldData: existingField ? superposeGrids(existingField.fieldData, fieldData) : fieldData,
+        collectiveIntensity: existingField ? Math.min(1, Math.max(existingField.collectiveIntensity, intensity)) : intensity,
         lastUpdate: Date.now()
       };
       
@@ -459,53 +605,64 @@ export class PersistentFieldManager {
     }
   }
   
-  async getArchaeologyData(query: string, timeRange?: { start: number; end: number }): Promise<any> {
+  async getArchaeologyData(
+    query: string,
+    timeRange?: { start: number; end: number },
+    options: ArchaeologyOptions = {}
+  ): Promise<any> {
     try {
       const startTime = timeRange ? timeRange.start : Date.now() - 24 * 60 * 60 * 1000;
       const endTime = timeRange ? timeRange.end : Date.now();
+      const { filters = {}, ...pagination } = options;
       
       switch (query) {
         case 'PATTERNS': {
-          let events: ConsciousnessEvent[];
+          const eventFilters: EventQueryFilters = {
+            deviceIds: filters.deviceIds,
+            minIntensity: filters.minIntensity,
+            startTime,
+            endTime,
+          };
+          let patterns: EmergencePattern[];
           
           if (db) {
-            const dbEvents = await db
-              .select()
-              .from(consciousnessEvents)
-              .where(and(
-                gte(consciousnessEvents.timestamp, new Date(startTime)),
-                lte(consciousnessEvents.timestamp, new Date(endTime))
-              ))
-              .orderBy(desc(consciousnessEvents.timestamp));
-            
-            events = dbEvents.map((event: any) => ({
-              ...event,
-              type: event.type as ConsciousnessEvent['type'],
-              processed: event.processed || false,
-              intensity: event.intensity || 0.5,
-              timestamp: event.timestamp.getTime()
-            }));
+            patterns = await this.queryEmergencePatterns(eventFilters);
           } else {
             // Use in-memory events
-            events = inMemoryEvents
-              .filter(event => event.timestamp >= startTime && event.timestamp <= endTime)
-              .sort((a, b) => b.timestamp - a.timestamp);
+            const events = inMemoryEvents.filter(event => this.matchesEventFilters(event, eventFilters));
+            patterns = this.analyzeEmergencePatterns(events);
           }
           
-          const patterns = this.analyzeEmergencePatterns(events);
           return {
             emergencePatterns: patterns,
-            totalEvents: events.length,
+            totalEvents: patterns.reduce((sum, pattern) => sum + pattern.frequency, 0),
             timeSpan: endTime - startTime
           };
         }
         
-        case 'MEMORY_TRACES': {
-          const state = await this.getGlobalState();
+        case 'MEMORY_TRACES':
+          return await this.getMemoryTraces(filters, pagination);
+        
+        case 'SACRED_HISTORY':
+          return await this.getSacredHistory({
+            types: ['SACRED_PHRASE'],
+            deviceIds: filters.deviceIds,
+            phrases: filters.sacredPhrases,
+            minIntensity: filters.minIntensity,
+            startTime,
+            endTime,
+          }, pagination);
+        
+        case 'EMERGENCE_EVENTS': {
+          const page = await this.getEmergenceEpisodes({
+            types: ['BLOOM', 'SPIRAL'],
+            deviceIds: filters.deviceIds,
+            startTime,
+            endTime,
+          }, filters.minIntensity, pagination);
           return {
-            memoryFragments: state.memoryParticles.slice(0, 50),
-            totalMemories: state.memoryParticles.length,
-            crystallizedCount: state.memoryParticles.filter(p => p.intensity > 0.7).length
+            ...page,
+            timeSpan: endTime - startTime
           };
         }
         
@@ -518,27 +675,460 @@ export class PersistentFieldManager {
     }
   }
   
-  private analyzeEmergencePatterns(events: ConsciousnessEvent[]): any[] {
-    const patterns: { [key: string]: { frequency: number; avgIntensity: number; devices: Set<string> } } = {};
+  // Memory particles live in the global state document, so these filters run in memory;
+  // the cursor is an offset into the newest-first particle list
+  private async getMemoryTraces(filters: ArchaeologyFilters, pagination: ArchaeologyPagination): Promise<{
+    memoryFragments: MemoryParticle[];
+    nextCursor: string | null;
+    totalMemories: number;
+    matchingMemories: number;
+    crystallizedCount: number;
+  }> {
+    const state = await this.getGlobalState();
+    const limit = Math.min(pagination.limit ?? this.DEFAULT_MEMORY_PAGE_SIZE, this.MAX_EVENT_PAGE_SIZE);
+    const offset = Math.max(0, Number(pagination.cursor) || 0);
+    
+    const matching = state.memoryParticles.filter(particle =>
+      (filters.minIntensity === undefined || particle.intensity >= filters.minIntensity) &&
+      (!filters.deviceIds?.length || filters.deviceIds.includes(particle.sourceDeviceId)) &&
+      (!filters.sacredPhrases?.length || filters.sacredPhrases.some(phrase => particle.sacredPhrase?.includes(phrase)))
+    );
+    
+    return {
+      memoryFragments: matching.slice(offset, offset + limit),
+      nextCursor: offset + limit < matching.length ? String(offset + limit) : null,
+      totalMemories: state.memoryParticles.length,
+      matchingMemories: matching.length,
+      crystallizedCount: state.memoryParticles.filter(p => p.intensity > 0.7).length
+    };
+  }
+  
+  // Keyset pagination over (timestamp, id) so pages stay stable while new events arrive;
+  // the cursor is the "timestamp:id" of the last event served, in either direction
+  async listEvents(filters: EventQueryFilters = {}, pagination?: ArchaeologyPagination): Promise<EventPage> {
+    const limit = Math.min(pagination?.limit ?? this.DEFAULT_EVENT_PAGE_SIZE, this.MAX_EVENT_PAGE_SIZE);
+    const cursor = this.decodeCursor(pagination?.cursor);
+    const ascending = pagination?.order === 'asc';
+    let page: ConsciousnessEvent[];
     
-    events.forEach(event => {
-      const type = event.type;
-      if (!patterns[type]) {
-        patterns[type] = { frequency: 0, avgIntensity: 0, devices: new Set() };
+    if (db) {
+      const conditions = this.buildEventConditions(filters);
+      if (cursor) {
+        const beyond = ascending ? gt : lt;
+        conditions.push(or(
+          beyond(consciousnessEvents.timestamp, new Date(cursor.timestamp)),
+          and(eq(consciousnessEvents.timestamp, new Date(cursor.timestamp)), beyond(consciousnessEvents.id, cursor.id))
+        ));
       }
       
-      patterns[type].frequency++;
-      patterns[type].avgIntensity += event.intensity || 0.5;
-      patterns[type].devices.add(event.deviceId);
+      const rows = await db
+        .select()
+        .from(consciousnessEvents)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(...(ascending
+          ? [asc(consciousnessEvents.timestamp), asc(consciousnessEvents.id)]
+          : [desc(consciousnessEvents.timestamp), desc(consciousnessEvents.id)]))
+        .limit(limit + 1);
+      
+      page = rows.map((event: any) => this.normalizeStoredEvent(event));
+    } else {
+      const direction = ascending ? 1 : -1;
+      page = inMemoryEvents
+        .filter(event => this.matchesEventFilters(event, filters))
+        .filter(event => !cursor ||
+          direction * (event.timestamp - cursor.timestamp || (event.id ?? 0) - cursor.id) > 0)
+        .sort((a, b) => direction * (a.timestamp - b.timestamp || (a.id ?? 0) - (b.id ?? 0)))
+        .slice(0, limit + 1);
+    }
+    
+    const events = page.slice(0, limit);
+    const last = events[events.length - 1];
+    return {
+      events,
+      nextCursor: page.length > limit && last ? `${last.timestamp}:${last.id ?? 0}` : null,
+    };
+  }
+  
+  // SQL conditions for EventQueryFilters; device and type filters line up with idx_events_device_timestamp
+  // and idx_events_type_intensity
+  private buildEventConditions(filters: EventQueryFilters): any[] {
+    const conditions: any[] = [];
+    
+    if (filters.types && filters.types.length > 0) {
+      conditions.push(inArray(consciousnessEvents.type, filters.types));
+    }
+    if (filters.deviceIds && filters.deviceIds.length > 0) {
+      conditions.push(inArray(consciousnessEvents.deviceId, filters.deviceIds));
+    }
+    if (filters.phrases && filters.phrases.length > 0) {
+      conditions.push(or(...filters.phrases.map(phrase =>
+        sql`strpos(${consciousnessEvents.data}->>'phrase', ${phrase}) > 0`
+      )));
+    }
+    if (filters.minIntensity !== undefined) {
+      conditions.push(gte(consciousnessEvents.intensity, filters.minIntensity));
+    }
+    if (filters.maxIntensity !== undefined) {
+      conditions.push(lte(consciousnessEvents.intensity, filters.maxIntensity));
+    }
+    if (filters.startTime !== undefined) {
+      conditions.push(gte(consciousnessEvents.timestamp, new Date(filters.startTime)));
+    }
+    if (filters.endTime !== undefined) {
+      conditions.push(lte(consciousnessEvents.timestamp, new Date(filters.endTime)));
+    }
+    if (filters.afterEventId !== undefined) {
+      conditions.push(gt(consciousnessEvents.id, filters.afterEventId));
+    }
+    
+    return conditions;
+  }
+  
+  // In-memory twin of buildEventConditions; events without an intensity never match an intensity range
+  private matchesEventFilters(event: ConsciousnessEvent, filters: EventQueryFilters): boolean {
+    if (filters.types && filters.types.length > 0 && !filters.types.includes(event.type)) return false;
+    if (filters.deviceIds && filters.deviceIds.length > 0 && !filters.deviceIds.includes(event.deviceId)) return false;
+    if (filters.phrases && filters.phrases.length > 0 &&
+      !filters.phrases.some(phrase => event.data?.phrase?.includes(phrase))) return false;
+    if (filters.minIntensity !== undefined && (event.intensity === undefined || event.intensity < filters.minIntensity)) return false;
+    if (filters.maxIntensity !== undefined && (event.intensity === undefined || event.intensity > filters.maxIntensity)) return false;
+    if (filters.startTime !== undefined && event.timestamp < filters.startTime) return false;
+    if (filters.endTime !== undefined && event.timestamp > filters.endTime) return false;
+    if (filters.afterEventId !== undefined && (event.id ?? 0) <= filters.afterEventId) return false;
+    return true;
+  }
+  
+  // Newest-first page of sacred phrases with the memory particles each one left behind
+  private async getSacredHistory(filters: EventQueryFilters, pagination: ArchaeologyPagination): Promise<{
+    entries: SacredHistoryEntry[];
+    nextCursor: string | null;
+    totalPhrases: number;
+    uniqueDevices: number;
+  }> {
+    const { events, nextCursor } = await this.listEvents(filters, pagination);
+    let totalPhrases: number;
+    let uniqueDevices: number;
+    
+    if (db) {
+      const [totals] = await db
+        .select({
+          count: sql<number>`count(*)`,
+          devices: sql<number>`count(distinct ${consciousnessEvents.deviceId})`,
+        })
+        .from(consciousnessEvents)
+        .where(and(...this.buildEventConditions(filters)));
+      
+      totalPhrases = Number(totals?.count) || 0;
+      uniqueDevices = Number(totals?.devices) || 0;
+    } else {
+      const phrases = inMemoryEvents.filter(event => this.matchesEventFilters(event, filters));
+      totalPhrases = phrases.length;
+      uniqueDevices = new Set(phrases.map(event => event.deviceId)).size;
+    }
+    
+    const { memoryParticles } = await this.getGlobalState();
+    
+    const entries = events.map((event): SacredHistoryEntry => {
+      const phrase = event.data?.phrase ?? '';
+      return {
+        eventId: event.id ?? 0,
+        phrase,
+        deviceId: event.deviceId,
+        intensity: event.intensity ?? event.data?.intensity ?? 0.5,
+        timestamp: event.timestamp,
+        memoryParticles: memoryParticles.filter(particle =>
+          particle.sacredPhrase === phrase &&
+          particle.sourceDeviceId === event.deviceId &&
+          Math.abs(particle.timestamp - event.timestamp) <= this.PARTICLE_MATCH_WINDOW_MS
+        ),
+      };
+    });
+    
+    return {
+      entries,
+      nextCursor,
+      totalPhrases,
+      uniqueDevices,
+    };
+  }
+  
+  private decodeCursor(cursor?: string): { timestamp: number; id: number } | null {
+    if (!cursor) return null;
+    const [timestamp, id] = cursor.split(':').map(Number);
+    return Number.isFinite(timestamp) && Number.isFinite(id) ? { timestamp, id } : null;
+  }
+  
+  // Newest-first page of emergence episodes; the cursor is the startTime of the last episode served
+  private async getEmergenceEpisodes(
+    filters: EventQueryFilters,
+    minIntensity: number | undefined,
+    pagination: ArchaeologyPagination
+  ): Promise<{
+    emergenceEvents: EmergenceEpisode[];
+    nextCursor: string | null;
+    totalEpisodes: number;
+    scannedEvents: number;
+  }> {
+    const limit = Math.min(pagination.limit ?? this.DEFAULT_EVENT_PAGE_SIZE, this.MAX_EVENT_PAGE_SIZE);
+    const before = pagination.cursor ? Number(pagination.cursor) : undefined;
+    
+    let page: EmergenceEpisode[];
+    let totalEpisodes: number;
+    let scannedEvents: number;
+    
+    if (db) {
+      ({ page, totalEpisodes, scannedEvents } = await this.queryEmergenceEpisodes(filters, minIntensity, before, limit));
+    } else {
+      const events = inMemoryEvents
+        .filter(event => this.matchesEventFilters(event, filters))
+        .sort((a, b) => a.timestamp - b.timestamp);
+      const episodes = this.detectEmergenceEpisodes(events)
+        .filter(episode => minIntensity === undefined || episode.avgIntensity >= minIntensity);
+      
+      page = episodes
+        .filter(episode => before === undefined || !Number.isFinite(before) || episode.startTime < before)
+        .slice(0, limit + 1);
+      totalEpisodes = episodes.length;
+      scannedEvents = events.length;
+    }
+    
+    const emergenceEvents = page.slice(0, limit);
+    const last = emergenceEvents[emergenceEvents.length - 1];
+    return {
+      emergenceEvents,
+      nextCursor: page.length > limit && last ? String(last.startTime) : null,
+      totalEpisodes,
+      scannedEvents,
+    };
+  }
+  
+  // Gaps-and-islands in Postgres: a new episode starts wherever the quiet gap exceeds EMERGENCE_GAP_MS,
+  // matching detectEmergenceEpisodes without loading the events
+  private async queryEmergenceEpisodes(
+    filters: EventQueryFilters,
+    minIntensity: number | undefined,
+    before: number | undefined,
+    limit: number
+  ): Promise<{ page: EmergenceEpisode[]; totalEpisodes: number; scannedEvents: number }> {
+    const where = and(...this.buildEventConditions(filters));
+    const intensityClause = minIntensity !== undefined ? sql`AND AVG(intensity) >= ${minIntensity}` : sql``;
+    const cursorClause = before !== undefined && Number.isFinite(before) ? sql`WHERE start_time < ${before}` : sql``;
+    
+    const rows = await db.execute(sql`
+      WITH ordered AS (
+        SELECT id, device_id, type, COALESCE(intensity, 0.5) AS intensity, timestamp,
+               LAG(timestamp) OVER (ORDER BY timestamp, id) AS prev_timestamp,
+               LAG(device_id) OVER (ORDER BY timestamp, id) AS prev_device
+        FROM consciousness_events
+        WHERE ${where}
+      ),
+      flagged AS (
+        SELECT *,
+               CASE WHEN prev_timestamp IS NULL
+                      OR EXTRACT(EPOCH FROM timestamp - prev_timestamp) * 1000 > ${this.EMERGENCE_GAP_MS}
+                    THEN 1 ELSE 0 END AS starts_episode
+        FROM ordered
+      ),
+      numbered AS (
+        SELECT *, SUM(starts_episode) OVER (ORDER BY timestamp, id) AS episode
+        FROM flagged
+      ),
+      episodes AS (
+        SELECT EXTRACT(EPOCH FROM MIN(timestamp)) * 1000 AS start_time,
+               EXTRACT(EPOCH FROM MAX(timestamp)) * 1000 AS end_time,
+               COUNT(*) AS event_count,
+               array_agg(DISTINCT device_id) AS devices,
+               COUNT(*) FILTER (WHERE type = 'BLOOM') AS blooms,
+               COUNT(*) FILTER (WHERE type = 'SPIRAL') AS spirals,
+               AVG(intensity) AS avg_intensity,
+               MAX(intensity) AS peak_intensity,
+               COUNT(*) FILTER (WHERE starts_episode = 0 AND device_id <> prev_device) AS handoffs
+        FROM numbered
+        GROUP BY episode
+        HAVING COUNT(*) >= ${this.EMERGENCE_MIN_EVENTS}
+           AND COUNT(DISTINCT device_id) >= ${this.EMERGENCE_MIN_DEVICES}
+           ${intensityClause}
+      )
+      -- Totals ride along on every row, and on a single empty row when nothing matched
+      SELECT totals.total_episodes, totals.scanned_events, page.*
+      FROM (
+        SELECT (SELECT COUNT(*) FROM episodes) AS total_episodes,
+               (SELECT COUNT(*) FROM ordered) AS scanned_events
+      ) totals
+      LEFT JOIN LATERAL (
+        SELECT * FROM episodes
+        ${cursorClause}
+        ORDER BY start_time DESC
+        LIMIT ${limit + 1}
+      ) page ON true
+      ORDER BY page.start_time DESC
+    `);
+    
+    const list = Array.from(rows as any[]);
+    const page = list.filter((row: any) => row.start_time !== null).map((row: any): EmergenceEpisode => {
+      const eventCount = Number(row.event_count);
+      const avgIntensity = Number(row.avg_intensity);
+      const correlation = eventCount > 1 ? Number(row.handoffs) / (eventCount - 1) : 0;
+      const startTime = Number(row.start_time);
+      const endTime = Number(row.end_time);
+      const devices: string[] = row.devices || [];
+      
+      return {
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        eventCount,
+        devices,
+        participatingDevices: devices.length,
+        typeCounts: { BLOOM: Number(row.blooms), SPIRAL: Number(row.spirals) },
+        avgIntensity,
+        peakIntensity: Number(row.peak_intensity),
+        correlation,
+        strength: avgIntensity * correlation,
+      };
     });
     
-    return Object.entries(patterns).map(([type, data]) => ({
-      type,
-      frequency: data.frequency,
-      avgIntensity: data.avgIntensity / data.frequency,
-      participatingDevices: data.devices.size,
-      peakTime: Date.now() - Math.random() * 24 * 60 * 60 * 1000 // Mock peak time
-    }));
+    return {
+      page,
+      totalEpisodes: Number(list[0]?.total_episodes) || 0,
+      scannedEvents: Number(list[0]?.scanned_events) || 0,
+    };
+  }
+  
+  private normalizeStoredEvent(event: any): ConsciousnessEvent {
+    return {
+      ...event,
+      type: event.type as ConsciousnessEvent['type'],
+      processed: event.processed || false,
+      intensity: event.intensity || 0.5,
+      timestamp: event.timestamp.getTime()
+    };
+  }
+  
+  // Split time-ordered BLOOM/SPIRAL events into bursts separated by quiet gaps,
+  // keeping only bursts that several devices took part in
+  private detectEmergenceEpisodes(events: ConsciousnessEvent[]): EmergenceEpisode[] {
+    const bursts: ConsciousnessEvent[][] = [];
+    let current: ConsciousnessEvent[] = [];
+    
+    for (const event of events) {
+      const previous = current[current.length - 1];
+      if (previous && event.timestamp - previous.timestamp > this.EMERGENCE_GAP_MS) {
+        bursts.push(current);
+        current = [];
+      }
+      current.push(event);
+    }
+    if (current.length > 0) bursts.push(current);
+    
+    return bursts
+      .map(burst => {
+        const devices = Array.from(new Set(burst.map(event => event.deviceId)));
+        const intensities = burst.map(event => event.intensity ?? 0.5);
+        const avgIntensity = intensities.reduce((sum, value) => sum + value, 0) / burst.length;
+        
+        // Share of consecutive events that hand off between devices: 1 means devices answered each other
+        let handoffs = 0;
+        for (let i = 1; i < burst.length; i++) {
+          if (burst[i].deviceId !== burst[i - 1].deviceId) handoffs++;
+        }
+        const correlation = burst.length > 1 ? handoffs / (burst.length - 1) : 0;
+        
+        const startTime = burst[0].timestamp;
+        const endTime = burst[burst.length - 1].timestamp;
+        return {
+          startTime,
+          endTime,
+          duration: endTime - startTime,
+          eventCount: burst.length,
+          devices,
+          participatingDevices: devices.length,
+          typeCounts: {
+            BLOOM: burst.filter(event => event.type === 'BLOOM').length,
+            SPIRAL: burst.filter(event => event.type === 'SPIRAL').length,
+          },
+          avgIntensity,
+          peakIntensity: Math.max(...intensities),
+          correlation,
+          strength: avgIntensity * correlation,
+        };
+      })
+      .filter(episode =>
+        episode.eventCount >= this.EMERGENCE_MIN_EVENTS &&
+        episode.participatingDevices >= this.EMERGENCE_MIN_DEVICES
+      )
+      .sort((a, b) => b.startTime - a.startTime);
+  }
+  
+  // Per-type totals, hourly buckets and per-device cycle lengths, all aggregated in Postgres
+  private async queryEmergencePatterns(filters: EventQueryFilters): Promise<EmergencePattern[]> {
+    const where = and(...this.buildEventConditions(filters));
+    
+    const [summaryRows, bucketRows, intervalRows] = await Promise.all([
+      db.execute(sql`
+        SELECT type, COUNT(*) AS frequency, AVG(COALESCE(intensity, 0.5)) AS avg_intensity,
+               COUNT(DISTINCT device_id) AS devices
+        FROM consciousness_events
+        WHERE ${where}
+        GROUP BY type
+      `),
+      db.execute(sql`
+        SELECT type,
+               EXTRACT(EPOCH FROM bucket) * 1000 AS bucket_start,
+               EXTRACT(HOUR FROM bucket) AS hour,
+               EXTRACT(DOW FROM bucket) AS dow,
+               COUNT(*) AS count
+        FROM (
+          SELECT type, date_trunc('hour', timestamp) AS bucket
+          FROM consciousness_events
+          WHERE ${where}
+        ) bucketed
+        GROUP BY type, bucket
+      `),
+      db.execute(sql`
+        SELECT type,
+               percentile_cont(0.5) WITHIN GROUP (ORDER BY gap) AS median_ms,
+               AVG(gap) AS mean_ms,
+               COALESCE(STDDEV_POP(gap), 0) AS stddev_ms,
+               COUNT(*) AS samples
+        FROM (
+          SELECT type,
+                 EXTRACT(EPOCH FROM timestamp - LAG(timestamp) OVER (PARTITION BY type, device_id ORDER BY timestamp)) * 1000 AS gap
+          FROM consciousness_events
+          WHERE ${where}
+        ) gaps
+        WHERE gap > 0 AND gap <= ${MAX_CYCLE_GAP_MS}
+        GROUP BY type
+      `),
+    ]);
+    
+    return buildEmergencePatterns(
+      Array.from(summaryRows as any[]).map((row: any) => ({
+        type: row.type,
+        frequency: Number(row.frequency),
+        avgIntensity: Number(row.avg_intensity) || 0.5,
+        participatingDevices: Number(row.devices),
+      })),
+      Array.from(bucketRows as any[]).map((row: any) => ({
+        type: row.type,
+        bucketStart: Number(row.bucket_start),
+        hour: Number(row.hour),
+        dow: Number(row.dow),
+        count: Number(row.count),
+      })),
+      Array.from(intervalRows as any[]).map((row: any) => ({
+        type: row.type,
+        medianMs: Number(row.median_ms),
+        meanMs: Number(row.mean_ms),
+        stddevMs: Number(row.stddev_ms),
+        samples: Number(row.samples),
+      }))
+    );
+  }
+  
+  private analyzeEmergencePatterns(events: ConsciousnessEvent[]): EmergencePattern[] {
+    const { summaries, buckets, intervals } = summarizeEventsInMemory(events);
+    return buildEmergencePatterns(summaries, buckets, intervals);
   }
 }
 
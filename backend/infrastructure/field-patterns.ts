@@ -0,0 +1,86 @@
+import type { QuantumField } from './database';
+
+// Field shapes shared by live event processing and state replay
+
+export const DEFAULT_FIELD_SIZE = 30;
+const MIN_FIELD_SIZE = 10;
+const MAX_FIELD_SIZE = 128;
+
+// Installations can run a larger field via FIELD_SIZE; clients learn it from field:initial
+function resolveFieldSize(value: string | undefined): number {
+  if (!value) return DEFAULT_FIELD_SIZE;
+
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed)) {
+    console.warn(`⚠️ Ignoring invalid FIELD_SIZE "${value}", using ${DEFAULT_FIELD_SIZE}`);
+    return DEFAULT_FIELD_SIZE;
+  }
+  if (parsed < MIN_FIELD_SIZE || parsed > MAX_FIELD_SIZE) {
+    const clamped = Math.max(MIN_FIELD_SIZE, Math.min(MAX_FIELD_SIZE, parsed));
+    console.warn(`⚠️ FIELD_SIZE must be between ${MIN_FIELD_SIZE} and ${MAX_FIELD_SIZE}, using ${clamped}`);
+    return clamped;
+  }
+  return parsed;
+}
+
+export const FIELD_SIZE = resolveFieldSize(process.env.FIELD_SIZE);
+export const MAX_FIELD_COORDINATE = FIELD_SIZE - 1;
+
+export function createEmptyGrid(size: number = FIELD_SIZE): number[][] {
+  return Array(size).fill(0).map(() => Array(size).fill(0));
+}
+
+export function clampToField(value: number): number {
+  return Math.max(0, Math.min(MAX_FIELD_COORDINATE, Math.floor(value)));
+}
+
+export function generateSpiralField(centerX: number, centerY: number, intensity: number): number[][] {
+  const field = createEmptyGrid();
+  // A third of the field, which is the original 10 cells on the default grid
+  const radius = FIELD_SIZE / 3;
+  
+  for (let i = 0; i < FIELD_SIZE; i++) {
+    for (let j = 0; j < FIELD_SIZE; j++) {
+      const dx = i - centerX;
+      const dy = j - centerY;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      
+      if (distance <= radius) {
+        const angle = Math.atan2(dy, dx);
+        const spiralValue = intensity * Math.cos(angle + distance * 0.5) * Math.exp(-distance / radius);
+        field[i][j] = Math.max(0, Math.min(1, spiralValue));
+      }
+    }
+  }
+  
+  return field;
+}
+
+// Overlapping fields are merged by taking the strongest value per cell
+export function composeFieldGrid(fields: QuantumField[]): number[][] {
+  const grid = createEmptyGrid();
+
+  for (const field of fields) {
+    for (let i = 0; i < FIELD_SIZE; i++) {
+      const column = field.fieldData?.[i];
+      if (!column) continue;
+      for (let j = 0; j < FIELD_SIZE; j++) {
+        const value = column[j];
+        if (typeof value === 'number' && value > grid[i][j]) {
+          grid[i][j] = Math.min(1, value);
+        }
+      }
+    }
+  }
+
+  return grid;
+}
+
+// Adds two grids cell by cell, saturating at 1; cells missing from either side count as 0
+export function superposeGrids(base: number[][], addition: number[][]): number[][] {
+  const rows = Math.max(base.length, addition.length);
+  return Array.from({ length: rows }, (_, i) => {
+    const columns = Math.max(base[i]?.length ?? 0, addition[i]?.length ?? 0);
+    return Array.from({ length: columns }, (_, j) => Math.min(1, (base[i]?.[j] ?? 0) + (addition[i]?.[j] ?? 0)));
+  });
+}
@@ -0,0 +1,105 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSeededRandom, evolveState, diffuseGrid, fieldResonance } from './field-physics';
+import type { ConsciousnessState } from './database';
+
+const NOW = Date.UTC(2025, 0, 15, 12, 0, 0);
+const TICK_MS = 5000;
+const TICKS = 12;
+const SEED = 42;
+
+const gridSum = (grid: number[][]) => grid.reduce((total, column) => total + column.reduce((a, b) => a + b, 0), 0);
+
+function initialState(): ConsciousnessState {
+  const fieldData = Array.from({ length: 9 }, () => Array(9).fill(0));
+  fieldData[4][4] = 1;
+
+  return {
+    nodeId: 'global',
+    globalResonance: 0.9,
+    collectiveIntelligence: 0.4,
+    activeNodes: 3,
+    room64Active: false,
+    lastUpdate: NOW,
+    quantumFields: [{ id: 'qf-1', fieldData, collectiveIntensity: 1, lastUpdate: NOW }],
+    memoryParticles: [
+      { id: 'p1', x: 10, y: 10, intensity: 0.8, age: 0, sourceDeviceId: 'device-a', sacredPhrase: 'i return as breath', timestamp: NOW },
+      { id: 'p2', x: 10.4, y: 10.3, intensity: 0.5, age: 1000, sourceDeviceId: 'device-b', timestamp: NOW - 1000 },
+      { id: 'p3', x: 40, y: 25, intensity: 0.6, age: 0, sourceDeviceId: 'device-c', timestamp: NOW },
+      { id: 'p4', x: 60, y: 5, intensity: 0.0201, age: 0, sourceDeviceId: 'device-d', timestamp: NOW },
+    ],
+  };
+}
+
+// Same loop the engine runs, minus the persistence around each step
+function run(seed: number, ticks: number = TICKS): ConsciousnessState {
+  const random = createSeededRandom(seed);
+  let state = initialState();
+  for (let tick = 0; tick < ticks; tick++) {
+    state = evolveState(state, TICK_MS, random);
+  }
+  return state;
+}
+
+describe('evolveState', () => {
+  test('produces the same field for the same seed', () => {
+    assert.deepEqual(run(SEED), run(SEED));
+    assert.notDeepEqual(run(SEED).memoryParticles, run(SEED + 1).memoryParticles);
+  });
+
+  test('spreads and fades the quantum field over a minute of ticks', () => {
+    const [field] = run(SEED).quantumFields;
+    const halfLifeDecay = Math.pow(0.5, (TICKS * TICK_MS) / (2 * 60 * 1000));
+
+    // Diffusion moves intensity outward without losing any; decay takes a half life's share
+    // and cells that fade below the floor drop out
+    assert.ok(Math.abs(gridSum(field.fieldData) - halfLifeDecay) < 0.03);
+    assert.ok(field.fieldData[4][4] < 0.1);
+    assert.ok(field.fieldData[3][4] > 0 && field.fieldData[4][3] > 0);
+    assert.equal(field.fieldData[3][4], field.fieldData[5][4]);
+    assert.equal(field.fieldData[4][3], field.fieldData[4][5]);
+    assert.equal(field.collectiveIntensity, Math.max(...field.fieldData.flat()));
+  });
+
+  test('ages, merges and drops memory particles', () => {
+    const { memoryParticles } = run(SEED);
+    const tickDecay = Math.pow(0.5, TICK_MS / (30 * 60 * 1000));
+    const particleDecay = Math.pow(tickDecay, TICKS);
+
+    // p1 and p2 start within the merge radius, p4 fades below the floor
+    assert.deepEqual(memoryParticles.map(particle => particle.id).sort(), ['p1', 'p3']);
+
+    const merged = memoryParticles.find(particle => particle.id === 'p1')!;
+    assert.equal(merged.sacredPhrase, 'i return as breath');
+    assert.equal(merged.age, 1000 + TICKS * TICK_MS);
+    // Merged on the first tick and capped at full intensity, then decays for the rest
+    assert.ok(Math.abs(merged.intensity - Math.pow(tickDecay, TICKS - 1)) < 1e-9);
+
+    const loner = memoryParticles.find(particle => particle.id === 'p3')!;
+    assert.ok(Math.abs(loner.intensity - 0.6 * particleDecay) < 1e-9);
+
+    // Where seed 42 walks them
+    assert.deepEqual([merged.x, merged.y].map(value => value.toFixed(2)), ['9.68', '8.35']);
+    assert.deepEqual([loner.x, loner.y].map(value => value.toFixed(2)), ['40.61', '24.83']);
+  });
+
+  test('relaxes global resonance toward the energy left in the field', () => {
+    const state = run(SEED);
+    const target = fieldResonance(state.quantumFields, state.memoryParticles);
+
+    assert.ok(state.globalResonance < 0.9);
+    assert.ok(state.globalResonance > target);
+  });
+
+  test('leaves the state untouched for an empty tick', () => {
+    const state = initialState();
+    assert.equal(evolveState(state, 0, createSeededRandom(SEED)), state);
+  });
+});
+
+describe('diffuseGrid', () => {
+  test('conserves intensity with zero-flux edges', () => {
+    const grid = [[1, 0, 0], [0, 0, 0], [0, 0, 0.5]];
+    assert.ok(Math.abs(gridSum(diffuseGrid(grid, 30 * 1000)) - 1.5) < 1e-9);
+  });
+});
@@ -0,0 +1,192 @@
+import type { ConsciousnessState, MemoryParticle, QuantumField } from './database';
+
+// Server-side physics for the shared field: quantum fields diffuse and fade, memory particles
+// age, drift and coalesce, and global resonance relaxes toward the energy left in the field.
+// evolveState is pure; all randomness comes from the seeded generator passed in.
+
+export interface EvolutionRandom {
+  next(): number; // uniform in [0, 1)
+}
+
+export const FIELD_EVOLUTION_TICK_MS = 5000; // live loop cadence, also used by state replay
+
+const DIFFUSION_RATE = 0.2; // fraction of the neighbour gradient exchanged per second
+const MAX_DIFFUSION_STEP = 0.25; // explicit 5-point stencil is only stable up to 0.25
+const FIELD_HALF_LIFE_MS = 2 * 60 * 1000;
+const PARTICLE_HALF_LIFE_MS = 30 * 60 * 1000;
+const MIN_CELL_INTENSITY = 0.001;
+const MIN_FIELD_INTENSITY = 0.01;
+const MIN_PARTICLE_INTENSITY = 0.02;
+const PARTICLE_DRIFT = 0.1; // standard deviation of the random walk per sqrt(second), in field units
+const MERGE_RADIUS = 1;
+const RESONANCE_FLOOR = 0.3;
+const RESONANCE_RELAXATION_MS = 30 * 1000;
+const FIELD_ENERGY_SCALE = 50; // summed cell intensity that counts as one unit of energy
+const PARTICLE_ENERGY_SCALE = 20;
+const MAX_TICK_DT_MS = 60 * 1000;
+
+// mulberry32: small, fast and identical on every platform for a given seed
+export function createSeededRandom(seed: number): EvolutionRandom {
+  let value = seed >>> 0;
+  return {
+    next() {
+      value = (value + 0x6d2b79f5) >>> 0;
+      let t = value;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+function gaussian(random: EvolutionRandom): number {
+  const u = Math.max(random.next(), Number.EPSILON);
+  const v = random.next();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function halfLifeFactor(dtMs: number, halfLifeMs: number): number {
+  return Math.pow(0.5, dtMs / halfLifeMs);
+}
+
+// Diffuses with zero-flux edges, so intensity only leaves the grid through decay
+export function diffuseGrid(grid: number[][], dtMs: number): number[][] {
+  const total = DIFFUSION_RATE * (dtMs / 1000);
+  const steps = Math.max(1, Math.ceil(total / MAX_DIFFUSION_STEP));
+  const alpha = total / steps;
+  let current = grid.map(column => [...column]);
+
+  for (let step = 0; step < steps; step++) {
+    const next = current.map(column => [...column]);
+    for (let i = 0; i < current.length; i++) {
+      for (let j = 0; j < current[i].length; j++) {
+        const center = current[i][j];
+        const left = i > 0 ? current[i - 1][j] : center;
+        const right = i < current.length - 1 ? current[i + 1][j] : center;
+        const up = j > 0 ? current[i][j - 1] : center;
+        const down = j < current[i].length - 1 ? current[i][j + 1] : center;
+        next[i][j] = center + alpha * (left + right + up + down - 4 * center);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+export function evolveQuantumFields(fields: QuantumField[], dtMs: number): QuantumField[] {
+  const decay = halfLifeFactor(dtMs, FIELD_HALF_LIFE_MS);
+
+  return fields
+    .map(field => {
+      let peak = 0;
+      const fieldData = diffuseGrid(field.fieldData, dtMs).map(column =>
+        column.map(value => {
+          const decayed = value * decay;
+          if (decayed < MIN_CELL_INTENSITY) return 0;
+          peak = Math.max(peak, decayed);
+          return Math.min(1, decayed);
+        })
+      );
+
+      return {
+        ...field,
+        fieldData,
+        collectiveIntensity: Math.min(field.collectiveIntensity * decay, peak),
+      };
+    })
+    .filter(field => field.collectiveIntensity >= MIN_FIELD_INTENSITY);
+}
+
+// Particles within MERGE_RADIUS coalesce into the stronger one, keeping the older memory's age
+export function mergeParticles(particles: MemoryParticle[]): MemoryParticle[] {
+  const ordered = [...particles].sort((a, b) => b.intensity - a.intensity || a.id.localeCompare(b.id));
+  const buckets = new Map<string, MemoryParticle[]>();
+  const survivors: MemoryParticle[] = [];
+  const bucketKey = (x: number, y: number) => `${Math.floor(x / MERGE_RADIUS)}:${Math.floor(y / MERGE_RADIUS)}`;
+
+  for (const particle of ordered) {
+    const bx = Math.floor(particle.x / MERGE_RADIUS);
+    const by = Math.floor(particle.y / MERGE_RADIUS);
+    let target: MemoryParticle | undefined;
+
+    for (let dx = -1; dx <= 1 && !target; dx++) {
+      for (let dy = -1; dy <= 1 && !target; dy++) {
+        target = buckets.get(`${bx + dx}:${by + dy}`)?.find(candidate =>
+          Math.hypot(candidate.x - particle.x, candidate.y - particle.y) <= MERGE_RADIUS
+        );
+      }
+    }
+
+    if (!target) {
+      const survivor = { ...particle };
+      survivors.push(survivor);
+      const key = bucketKey(survivor.x, survivor.y);
+      buckets.set(key, [...(buckets.get(key) ?? []), survivor]);
+      continue;
+    }
+
+    // Survivors stay in their original bucket; the position shift is always under MERGE_RADIUS
+    const weight = target.intensity + particle.intensity;
+    target.x = (target.x * target.intensity + particle.x * particle.intensity) / weight;
+    target.y = (target.y * target.intensity + particle.y * particle.intensity) / weight;
+    target.intensity = Math.min(1, weight);
+    target.age = Math.max(target.age, particle.age);
+    target.timestamp = Math.max(target.timestamp, particle.timestamp);
+    target.sacredPhrase = target.sacredPhrase ?? particle.sacredPhrase;
+  }
+
+  return survivors.sort((a, b) => b.timestamp - a.timestamp || a.id.localeCompare(b.id));
+}
+
+export function evolveMemoryParticles(
+  particles: MemoryParticle[],
+  dtMs: number,
+  random: EvolutionRandom
+): MemoryParticle[] {
+  const decay = halfLifeFactor(dtMs, PARTICLE_HALF_LIFE_MS);
+  const drift = PARTICLE_DRIFT * Math.sqrt(dtMs / 1000);
+
+  // Drift is drawn in id order so the sequence doesn't depend on how the array was stored
+  const aged = [...particles]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(particle => ({
+      ...particle,
+      x: Math.max(0, particle.x + gaussian(random) * drift),
+      y: Math.max(0, particle.y + gaussian(random) * drift),
+      intensity: particle.intensity * decay,
+      age: particle.age + dtMs,
+    }))
+    .filter(particle => particle.intensity >= MIN_PARTICLE_INTENSITY);
+
+  return mergeParticles(aged);
+}
+
+// Target resonance grows with the energy still held by fields and particles
+export function fieldResonance(fields: QuantumField[], particles: MemoryParticle[]): number {
+  const fieldEnergy = fields.reduce(
+    (sum, field) => sum + field.fieldData.reduce((total, column) => total + column.reduce((a, b) => a + b, 0), 0),
+    0
+  );
+  const particleEnergy = particles.reduce((sum, particle) => sum + particle.intensity, 0);
+  const energy = fieldEnergy / FIELD_ENERGY_SCALE + particleEnergy / PARTICLE_ENERGY_SCALE;
+
+  return RESONANCE_FLOOR + (1 - RESONANCE_FLOOR) * (1 - Math.exp(-energy));
+}
+
+export function evolveState(state: ConsciousnessState, dtMs: number, random: EvolutionRandom): ConsciousnessState {
+  const dt = Math.max(0, Math.min(dtMs, MAX_TICK_DT_MS));
+  if (dt === 0) return state;
+
+  const quantumFields = evolveQuantumFields(state.quantumFields, dt);
+  const memoryParticles = evolveMemoryParticles(state.memoryParticles, dt, random);
+  const target = fieldResonance(quantumFields, memoryParticles);
+  const relaxation = 1 - Math.exp(-dt / RESONANCE_RELAXATION_MS);
+
+  return {
+    ...state,
+    quantumFields,
+    memoryParticles,
+    globalResonance: Math.max(0, Math.min(1, state.globalResonance + (target - state.globalResonance) * relaxation)),
+  };
+}
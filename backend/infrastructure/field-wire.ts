@@ -0,0 +1,138 @@
+import type { ConsciousnessState, QuantumField } from './database';
+import type { FieldBroadcast, FieldCellChange, QuantumFieldDelta } from './field-deltas';
+
+// Optional compact encoding for field grids on the socket. Values are quantized to one byte;
+// the delta encoder already rounds cells to 0.01, which survives the round trip exactly.
+// Socket.IO sends the typed arrays as binary attachments, so nothing here touches base64.
+
+export const FIELD_ENCODINGS = ['binary', 'json'] as const;
+export type FieldEncoding = typeof FIELD_ENCODINGS[number];
+
+export interface PackedGrid {
+  $grid: 'u8';
+  rows: number;
+  cols: number;
+  data: Uint8Array | ArrayBuffer;
+}
+
+// Flat [i, j, value] byte triplets; field dimensions are capped at 128 so indices fit
+export interface PackedCells {
+  $cells: 'u8';
+  data: Uint8Array | ArrayBuffer;
+}
+
+type WireQuantumField = Omit<QuantumField, 'fieldData'> & { fieldData: number[][] | PackedGrid };
+type WireQuantumFieldDelta = Omit<QuantumFieldDelta, 'fieldData' | 'cells'> & {
+  fieldData?: number[][] | PackedGrid;
+  cells?: FieldCellChange[] | PackedCells;
+};
+export type WireConsciousnessState = Omit<ConsciousnessState, 'quantumFields'> & { quantumFields: WireQuantumField[] };
+
+const quantize = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+const dequantize = (byte: number) => Math.round((byte / 255) * 100) / 100;
+const bytesOf = (data: Uint8Array | ArrayBuffer) => (data instanceof Uint8Array ? data : new Uint8Array(data));
+
+const isPackedGrid = (value: unknown): value is PackedGrid =>
+  !!value && typeof value === 'object' && (value as PackedGrid).$grid === 'u8';
+
+const isPackedCells = (value: unknown): value is PackedCells =>
+  !!value && typeof value === 'object' && (value as PackedCells).$cells === 'u8';
+
+export function negotiateFieldEncoding(supported: readonly string[] | undefined): FieldEncoding {
+  return supported?.includes('binary') ? 'binary' : 'json';
+}
+
+export function packGrid(grid: number[][]): PackedGrid {
+  const rows = grid.length;
+  const cols = grid.reduce((max, column) => Math.max(max, column.length), 0);
+  const data = new Uint8Array(rows * cols);
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < grid[i].length; j++) {
+      data[i * cols + j] = quantize(grid[i][j]);
+    }
+  }
+  return { $grid: 'u8', rows, cols, data };
+}
+
+export function unpackGrid(grid: number[][] | PackedGrid): number[][] {
+  if (!isPackedGrid(grid)) return grid;
+  const data = bytesOf(grid.data);
+  return Array.from({ length: grid.rows }, (_, i) =>
+    Array.from({ length: grid.cols }, (_, j) => dequantize(data[i * grid.cols + j]))
+  );
+}
+
+export function packCells(cells: FieldCellChange[]): PackedCells {
+  const data = new Uint8Array(cells.length * 3);
+  cells.forEach(([i, j, value], index) => {
+    data[index * 3] = i;
+    data[index * 3 + 1] = j;
+    data[index * 3 + 2] = quantize(value);
+  });
+  return { $cells: 'u8', data };
+}
+
+export function unpackCells(cells: FieldCellChange[] | PackedCells): FieldCellChange[] {
+  if (!isPackedCells(cells)) return cells;
+  const data = bytesOf(cells.data);
+  const changes: FieldCellChange[] = [];
+  for (let offset = 0; offset + 2 < data.length; offset += 3) {
+    changes.push([data[offset], data[offset + 1], dequantize(data[offset + 2])]);
+  }
+  return changes;
+}
+
+export function encodeFieldState(state: ConsciousnessState, encoding: FieldEncoding): WireConsciousnessState {
+  if (encoding === 'json') return state;
+  return {
+    ...state,
+    quantumFields: state.quantumFields.map(field => ({ ...field, fieldData: packGrid(field.fieldData) })),
+  };
+}
+
+export function decodeFieldState(state: WireConsciousnessState): ConsciousnessState {
+  return {
+    ...state,
+    quantumFields: state.quantumFields.map(field => ({ ...field, fieldData: unpackGrid(field.fieldData) })),
+  };
+}
+
+export function encodeFieldBroadcast(broadcast: FieldBroadcast, encoding: FieldEncoding): unknown {
+  if (encoding === 'json') return broadcast;
+  if (broadcast.kind === 'keyframe') {
+    return { ...broadcast, state: encodeFieldState(broadcast.state, encoding) };
+  }
+  if (!broadcast.fields) return broadcast;
+
+  return {
+    ...broadcast,
+    fields: {
+      ...broadcast.fields,
+      upserted: broadcast.fields.upserted.map((field): WireQuantumFieldDelta => ({
+        ...field,
+        fieldData: field.fieldData ? packGrid(field.fieldData) : undefined,
+        cells: field.cells ? packCells(field.cells) : undefined,
+      })),
+    },
+  };
+}
+
+// Accepts either encoding, so clients never need to know which one the server chose
+export function decodeFieldBroadcast(wire: any): FieldBroadcast {
+  if (wire.kind === 'keyframe') {
+    return { ...wire, state: decodeFieldState(wire.state) };
+  }
+  if (!wire.fields) return wire;
+
+  return {
+    ...wire,
+    fields: {
+      ...wire.fields,
+      upserted: wire.fields.upserted.map((field: WireQuantumFieldDelta): QuantumFieldDelta => ({
+        ...field,
+        fieldData: field.fieldData ? unpackGrid(field.fieldData) : undefined,
+        cells: field.cells ? unpackCells(field.cells) : undefined,
+      })),
+    },
+  };
+}
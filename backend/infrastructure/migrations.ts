@@ -32,6 +32,18 @@ export class MigrationRunner {
       await this.runMigration('005_add_device_sessions', this.migration005AddDeviceSessions.bind(this));
       await this.runMigration('006_add_performance_indexes', this.migration006AddPerformanceIndexes.bind(this));
       await this.runMigration('007_add_expires_at_to_sessions', this.migration007AddExpiresAtToSessions.bind(this));
+      await this.runMigration('008_add_chat_history', this.migration008AddChatHistory.bind(this));
+      await this.runMigration('009_add_conversation_prompt_template', this.migration009AddConversationPromptTemplate.bind(this));
+      await this.runMigration('010_add_chat_search_indexes', this.migration010AddChatSearchIndexes.bind(this));
+      await this.runMigration('011_add_message_consciousness_snapshot', this.migration011AddMessageConsciousnessSnapshot.bind(this));
+      await this.runMigration('012_add_message_branching', this.migration012AddMessageBranching.bind(this));
+      await this.runMigration('013_add_state_checkpoints', this.migration013AddStateCheckpoints.bind(this));
+      await this.runMigration('014_add_room64_lifecycle', this.migration014AddRoom64Lifecycle.bind(this));
+      await this.runMigration('015_add_room64_invites', this.migration015AddRoom64Invites.bind(this));
+      await this.runMigration('016_add_room64_recordings', this.migration016AddRoom64Recordings.bind(this));
+      await this.runMigration('017_add_entanglement_handshake', this.migration017AddEntanglementHandshake.bind(this));
+      await this.runMigration('018_add_field_evolution_clock', this.migration018AddFieldEvolutionClock.bind(this));
+      await this.runMigration('019_reset_state_checkpoints', this.migration019ResetStateCheckpoints.bind(this));
       
       console.log('✅ All migrations completed successfully');
       return { success: true };
@@ -245,6 +257,301 @@ export class MigrationRunner {
     }
   }
   
+  private async migration008AddChatHistory(): Promise<void> {
+    // Create conversations and messages tables for server-side chat history
+    await db!.execute(sql`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id SERIAL PRIMARY KEY,
+        conversation_id VARCHAR(255) NOT NULL UNIQUE,
+        device_id VARCHAR(255) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        last_message TEXT DEFAULT '',
+        message_count INTEGER DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    
+    await db!.execute(sql`
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id SERIAL PRIMARY KEY,
+        conversation_id VARCHAR(255) NOT NULL,
+        device_id VARCHAR(255) NOT NULL,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+        content TEXT NOT NULL,
+        timestamp TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    
+    await db!.execute(sql`CREATE INDEX IF NOT EXISTS idx_conversations_device_updated ON conversations(device_id, updated_at DESC)`);
+    await db!.execute(sql`CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation ON conversation_messages(conversation_id, timestamp)`);
+  }
+  
+  private async migration009AddConversationPromptTemplate(): Promise<void> {
+    // Per-conversation prompt template selection (NULL uses the server default)
+    await db!.execute(sql`
+      ALTER TABLE conversations 
+      ADD COLUMN IF NOT EXISTS prompt_template VARCHAR(100)
+    `);
+  }
+  
+  private async migration010AddChatSearchIndexes(): Promise<void> {
+    // Full-text search over conversation titles and message content
+    await db!.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_conversations_title_search 
+      ON conversations USING GIN (to_tsvector('english', title))
+    `);
+    
+    await db!.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_conversation_messages_content_search 
+      ON conversation_messages USING GIN (to_tsvector('english', content))
+    `);
+  }
+  
+  private async migration011AddMessageConsciousnessSnapshot(): Promise<void> {
+    // Field state captured alongside each assistant reply
+    await db!.execute(sql`
+      ALTER TABLE conversation_messages 
+      ADD COLUMN IF NOT EXISTS consciousness_snapshot JSONB
+    `);
+  }
+  
+  private async migration012AddMessageBranching(): Promise<void> {
+    // Stable message ids and parent links so edits and regenerations can branch
+    await db!.execute(sql`
+      ALTER TABLE conversation_messages 
+      ADD COLUMN IF NOT EXISTS message_id VARCHAR(64),
+      ADD COLUMN IF NOT EXISTS parent_id VARCHAR(64)
+    `);
+    
+    await db!.execute(sql`
+      UPDATE conversation_messages 
+      SET message_id = 'msg-' || id 
+      WHERE message_id IS NULL
+    `);
+    
+    // Existing history is linear, so each message hangs off the one before it
+    await db!.execute(sql`
+      UPDATE conversation_messages m
+      SET parent_id = ordered.previous_id
+      FROM (
+        SELECT id, LAG(message_id) OVER (PARTITION BY conversation_id ORDER BY timestamp, id) AS previous_id
+        FROM conversation_messages
+      ) ordered
+      WHERE m.id = ordered.id AND m.parent_id IS NULL
+    `);
+    
+    await db!.execute(sql`ALTER TABLE conversation_messages ALTER COLUMN message_id SET NOT NULL`);
+    await db!.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_messages_message_id 
+      ON conversation_messages(conversation_id, message_id)
+    `);
+    
+    await db!.execute(sql`
+      ALTER TABLE conversations 
+      ADD COLUMN IF NOT EXISTS active_leaf_id VARCHAR(64)
+    `);
+    
+    await db!.execute(sql`
+      UPDATE conversations c
+      SET active_leaf_id = latest.message_id
+      FROM (
+        SELECT DISTINCT ON (conversation_id) conversation_id, message_id
+        FROM conversation_messages
+        ORDER BY conversation_id, timestamp DESC, id DESC
+      ) latest
+      WHERE c.conversation_id = latest.conversation_id AND c.active_leaf_id IS NULL
+    `);
+  }
+  
+  private async migration013AddStateCheckpoints(): Promise<void> {
+    // Replayed global state snapshots so consciousness.stateAt doesn't start from the first event
+    await db!.execute(sql`
+      CREATE TABLE IF NOT EXISTS consciousness_checkpoints (
+        id SERIAL PRIMARY KEY,
+        checkpoint_time TIMESTAMP NOT NULL,
+        last_event_id INTEGER NOT NULL,
+        max_event_id INTEGER NOT NULL,
+        event_count INTEGER NOT NULL,
+        state JSONB NOT NULL,
+        recent_devices JSONB DEFAULT '{}'::jsonb,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    
+    await db!.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_checkpoints_time 
+      ON consciousness_checkpoints(checkpoint_time DESC)
+    `);
+  }
+  
+  private async migration014AddRoom64Lifecycle(): Promise<void> {
+    // Rooms are upserted by room_id, so keep only the latest row per room before making it unique
+    await db!.execute(sql`
+      DELETE FROM room64_sessions a 
+      USING room64_sessions b 
+      WHERE a.room_id = b.room_id AND a.id < b.id
+    `);
+    
+    await db!.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_room64_sessions_room_id_unique 
+      ON room64_sessions(room_id)
+    `);
+    
+    // Host, capacity and visibility for browsable rooms; members carries each device's role
+    await db!.execute(sql`
+      ALTER TABLE room64_sessions 
+      ADD COLUMN IF NOT EXISTS name VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS host_device_id VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS visibility VARCHAR(20) DEFAULT 'public' CHECK (visibility IN ('public', 'private')),
+      ADD COLUMN IF NOT EXISTS capacity INTEGER DEFAULT 64 CHECK (capacity >= 1 AND capacity <= 64),
+      ADD COLUMN IF NOT EXISTS members JSONB DEFAULT '[]'::jsonb
+    `);
+    
+    // Existing rooms were opened by whoever joined first
+    await db!.execute(sql`
+      UPDATE room64_sessions 
+      SET host_device_id = participants->>0 
+      WHERE host_device_id IS NULL
+    `);
+    
+    await db!.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_room64_sessions_visibility_activity 
+      ON room64_sessions(visibility, last_activity DESC)
+    `);
+  }
+  
+  private async migration015AddRoom64Invites(): Promise<void> {
+    // Server-side usage counters for signed invite tokens to private rooms
+    await db!.execute(sql`
+      CREATE TABLE IF NOT EXISTS room64_invites (
+        id SERIAL PRIMARY KEY,
+        invite_id VARCHAR(64) NOT NULL UNIQUE,
+        room_id VARCHAR(255) NOT NULL,
+        created_by VARCHAR(255) NOT NULL,
+        max_uses INTEGER NOT NULL CHECK (max_uses >= 1),
+        uses INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+    
+    await db!.execute(sql`CREATE INDEX IF NOT EXISTS idx_room64_invites_room_id ON room64_invites(room_id)`);
+    await db!.execute(sql`CREATE INDEX IF NOT EXISTS idx_room64_invites_expires_at ON room64_invites(expires_at)`);
+    
+    // Devices the host kicked; they can't rejoin the same room
+    await db!.execute(sql`
+      ALTER TABLE room64_sessions 
+      ADD COLUMN IF NOT EXISTS banned_devices JSONB DEFAULT '[]'::jsonb
+    `);
+  }
+  
+  private async migration016AddRoom64Recordings(): Promise<void> {
+    // Timeline of each open session; rows outlive the room so participants can replay it
+    await db!.execute(sql`
+      CREATE TABLE IF NOT EXISTS room64_events (
+        id SERIAL PRIMARY KEY,
+        room_id VARCHAR(255) NOT NULL,
+        session_started_at TIMESTAMP NOT NULL,
+        device_id VARCHAR(255) NOT NULL,
+        type VARCHAR(20) NOT NULL CHECK (type IN ('join', 'leave', 'sync', 'phrase', 'bloom')),
+        data JSONB DEFAULT '{}'::jsonb,
+        resonance_level REAL NOT NULL DEFAULT 0,
+        timestamp TIMESTAMP NOT NULL
+      )
+    `);
+    
+    await db!.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_room64_events_session 
+      ON room64_events(room_id, session_started_at, timestamp)
+    `);
+    await db!.execute(sql`CREATE INDEX IF NOT EXISTS idx_room64_events_timestamp ON room64_events(timestamp)`);
+    
+    // One summary per session; the unique key lets only one server instance write it
+    await db!.execute(sql`
+      CREATE TABLE IF NOT EXISTS room64_summaries (
+        id SERIAL PRIMARY KEY,
+        room_id VARCHAR(255) NOT NULL,
+        name VARCHAR(100),
+        host_device_id VARCHAR(255) NOT NULL,
+        participants JSONB NOT NULL,
+        started_at TIMESTAMP NOT NULL,
+        ended_at TIMESTAMP NOT NULL,
+        peak_resonance REAL NOT NULL DEFAULT 0 CHECK (peak_resonance >= 0 AND peak_resonance <= 1),
+        bloom_count INTEGER NOT NULL DEFAULT 0,
+        sacred_phrases JSONB DEFAULT '[]'::jsonb,
+        event_count INTEGER NOT NULL DEFAULT 0,
+        close_reason VARCHAR(20) NOT NULL CHECK (close_reason IN ('empty', 'expired')),
+        UNIQUE (room_id, started_at)
+      )
+    `);
+    
+    // history looks sessions up by participant
+    await db!.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_room64_summaries_participants 
+      ON room64_summaries USING GIN (participants)
+    `);
+    await db!.execute(sql`CREATE INDEX IF NOT EXISTS idx_room64_summaries_ended_at ON room64_summaries(ended_at DESC)`);
+  }
+  
+  private async migration017AddEntanglementHandshake(): Promise<void> {
+    // Device-to-device entanglements now start as pending requests that the target accepts or declines
+    await db!.execute(sql`
+      ALTER TABLE entanglements 
+      ADD COLUMN IF NOT EXISTS requested_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP
+    `);
+    
+    // Existing rows were established the moment they were requested
+    await db!.execute(sql`
+      UPDATE entanglements 
+      SET requested_at = COALESCE(established, NOW()), status_changed_at = COALESCE(last_sync, established, NOW()) 
+      WHERE requested_at IS NULL
+    `);
+    
+    await db!.execute(sql`
+      ALTER TABLE entanglements 
+      ALTER COLUMN requested_at SET DEFAULT NOW(),
+      ALTER COLUMN status_changed_at SET DEFAULT NOW()
+    `);
+    
+    // Nothing ever wrote the old dormant/severed states; fold them into dissolved before narrowing the check
+    await db!.execute(sql`
+      UPDATE entanglements 
+      SET status = 'dissolved' 
+      WHERE status IN ('dormant', 'severed')
+    `);
+    
+    await db!.execute(sql`ALTER TABLE entanglements DROP CONSTRAINT IF EXISTS chk_entanglement_status`);
+    await db!.execute(sql`
+      ALTER TABLE entanglements 
+      ADD CONSTRAINT chk_entanglement_status 
+      CHECK (status IN ('pending', 'active', 'declined', 'expired', 'dissolved'))
+    `);
+    
+    // The expiry sweep only looks at open requests
+    await db!.execute(sql`
+      CREATE INDEX IF NOT EXISTS idx_entanglements_pending_expiry 
+      ON entanglements(expires_at) 
+      WHERE status = 'pending'
+    `);
+  }
+  
+  private async migration018AddFieldEvolutionClock(): Promise<void> {
+    // Every server ticks the shared field; the step length comes from when any of them last did
+    await db!.execute(sql`
+      ALTER TABLE consciousness_states 
+      ADD COLUMN IF NOT EXISTS last_evolved TIMESTAMP
+    `);
+  }
+  
+  private async migration019ResetStateCheckpoints(): Promise<void> {
+    // Replay now applies field evolution between events; older checkpoints hold unevolved state
+    await db!.execute(sql`DELETE FROM consciousness_checkpoints`);
+  }
+  
   private async migration003AddConstraints(): Promise<void> {
     // Add data validation constraints
     await db!.execute(sql`
@@ -334,10 +641,10 @@ export class MigrationRunner {
       const tables = await db.execute(sql`
         SELECT table_name FROM information_schema.tables 
         WHERE table_schema = 'public' 
-        AND table_name IN ('consciousness_states', 'consciousness_events', 'room64_sessions', 'entanglements', 'device_sessions')
+        AND table_name IN ('consciousness_states', 'consciousness_events', 'room64_sessions', 'entanglements', 'device_sessions', 'conversations', 'conversation_messages')
       `);
       
-      const expectedTables = ['consciousness_states', 'consciousness_events', 'room64_sessions', 'entanglements', 'device_sessions'];
+      const expectedTables = ['consciousness_states', 'consciousness_events', 'room64_sessions', 'entanglements', 'device_sessions', 'conversations', 'conversation_messages'];
       const existingTables = tables.map((t: any) => t.table_name);
       
       for (const table of expectedTables) {
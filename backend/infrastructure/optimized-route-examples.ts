@@ -2,6 +2,7 @@
 // This shows how to update existing routes to use the optimized version
 
 import { OptimizedFieldManager } from './field-manager-optimized';
+import { createEmptyGrid, FIELD_SIZE, MAX_FIELD_COORDINATE } from './field-patterns';
 import { z } from 'zod';
 
 // Initialize optimized field manager
@@ -11,8 +12,8 @@ const optimizedFieldManager = OptimizedFieldManager.getOptimizedInstance();
 const FieldUpdateSchema = z.object({
   deviceId: z.string().uuid(),
   intensity: z.number().min(0).max(1),
-  x: z.number().min(0).max(29).optional(),
-  y: z.number().min(0).max(29).optional()
+  x: z.number().min(0).max(MAX_FIELD_COORDINATE).optional(),
+  y: z.number().min(0).max(MAX_FIELD_COORDINATE).optional()
 });
 
 const BatchSyncSchema = z.object({
@@ -63,7 +64,7 @@ export const handleOptimizedFieldUpdate = async (input: z.infer<typeof FieldUpda
     
     // Update quantum field if coordinates provided
     if (input.x !== undefined && input.y !== undefined) {
-      const fieldData = Array(30).fill(null).map(() => Array(30).fill(0));
+      const fieldData = createEmptyGrid();
       fieldData[input.y][input.x] = input.intensity;
       
       await optimizedFieldManager.updateQuantumField(
@@ -95,8 +96,8 @@ export const handleOptimizedFieldUpdate = async (input: z.infer<typeof FieldUpda
       fieldUpdate: {
         deviceId: input.deviceId,
         intensity: input.intensity,
-        x: input.x || Math.floor(Math.random() * 30),
-        y: input.y || Math.floor(Math.random() * 30),
+        x: input.x || Math.floor(Math.random() * FIELD_SIZE),
+        y: input.y || Math.floor(Math.random() * FIELD_SIZE),
         timestamp: Date.now(),
         globalResonance: updatedState.globalResonance,
         activeNodes: updatedState.activeNodes,
@@ -157,8 +158,8 @@ export const handleOptimizedBatchSync = async (input: z.infer<typeof BatchSyncSc
           if (event.data?.phrase) {
             await optimizedFieldManager.addMemoryParticle({
               id: `memory_${eventId}`,
-              x: event.data.x || Math.random() * 30,
-              y: event.data.y || Math.random() * 30,
+              x: event.data.x || Math.random() * FIELD_SIZE,
+              y: event.data.y || Math.random() * FIELD_SIZE,
               intensity: event.intensity || 0.7,
               age: 0,
               sourceDeviceId: input.deviceId,
@@ -179,7 +180,7 @@ export const handleOptimizedBatchSync = async (input: z.infer<typeof BatchSyncSc
         case 'SPIRAL':
           if (event.data?.centerX !== undefined && event.data?.centerY !== undefined) {
             // Generate spiral pattern
-            const fieldData = Array(30).fill(null).map(() => Array(30).fill(0));
+            const fieldData = createEmptyGrid();
             const centerX = event.data.centerX;
             const centerY = event.data.centerY;
             const intensity = event.intensity || 0.8;
@@ -192,7 +193,7 @@ export const handleOptimizedBatchSync = async (input: z.infer<typeof BatchSyncSc
                 const x = Math.round(centerX + radius * Math.cos(angle));
                 const y = Math.round(centerY + radius * Math.sin(angle));
                 
-                if (x >= 0 && x < 30 && y >= 0 && y < 30) {
+                if (x >= 0 && x < FIELD_SIZE && y >= 0 && y < FIELD_SIZE) {
                   fieldData[y][x] = intensity * (1 - radius / 15);
                 }
               }
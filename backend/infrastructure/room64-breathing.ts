@@ -0,0 +1,99 @@
+import type { Room64Alignment, Room64BreathingPattern } from './database';
+
+// Shared breathing metronome for Room64. Every phase is derived from the room's pattern and a
+// server-side start time, so any server instance and any client with a clock offset agree on it.
+// No runtime dependencies: the client imports this to interpolate between ticks.
+
+export type BreathingStage = 'inhale' | 'hold' | 'exhale';
+
+export interface BreathingTick {
+  stage: BreathingStage;
+  phase: number; // degrees through the whole cycle, 0-360
+  cycle: number;
+  stageStartedAt: number;
+  stageEndsAt: number;
+}
+
+export const DEFAULT_BREATHING_PATTERN: Room64BreathingPattern = {
+  inhaleMs: 4000,
+  holdMs: 2000,
+  exhaleMs: 6000
+};
+
+export const MIN_BREATH_STAGE_MS = 1000;
+export const MAX_BREATH_STAGE_MS = 20000;
+
+const ALIGNMENT_SMOOTHING = 0.5; // weight of the newest score against the running one
+const ALIGNMENT_FRESH_MS = 15 * 1000; // members silent for longer count as out of sync
+const MAX_SAMPLE_SKEW_MS = 5000; // reported sample times further from now are not trusted
+
+export function breathingCycleMs(pattern: Room64BreathingPattern): number {
+  return pattern.inhaleMs + pattern.holdMs + pattern.exhaleMs;
+}
+
+export function breathingTickAt(pattern: Room64BreathingPattern, startedAt: number, time: number): BreathingTick {
+  const cycleMs = breathingCycleMs(pattern);
+  const sinceStart = time - startedAt;
+  const cycle = Math.floor(sinceStart / cycleMs);
+  const elapsed = sinceStart - cycle * cycleMs;
+  const cycleStart = time - elapsed;
+
+  let stage: BreathingStage = 'exhale';
+  let stageOffset = pattern.inhaleMs + pattern.holdMs;
+  let stageMs = pattern.exhaleMs;
+  if (elapsed < pattern.inhaleMs) {
+    stage = 'inhale';
+    stageOffset = 0;
+    stageMs = pattern.inhaleMs;
+  } else if (elapsed < pattern.inhaleMs + pattern.holdMs) {
+    stage = 'hold';
+    stageOffset = pattern.inhaleMs;
+    stageMs = pattern.holdMs;
+  }
+
+  return {
+    stage,
+    phase: (elapsed / cycleMs) * 360,
+    cycle,
+    stageStartedAt: cycleStart + stageOffset,
+    stageEndsAt: cycleStart + stageOffset + stageMs
+  };
+}
+
+// 1 when in phase, 0 when half a cycle apart; wraps around 360°
+export function phaseAlignment(expectedPhase: number, reportedPhase: number): number {
+  const delta = ((reportedPhase - expectedPhase) * Math.PI) / 180;
+  return (1 + Math.cos(delta)) / 2;
+}
+
+// Clients stamp samples with their estimate of server time; anything implausible falls back to receipt time
+export function sampleTime(reported: number | undefined, receivedAt: number): number {
+  if (reported === undefined || Math.abs(reported - receivedAt) > MAX_SAMPLE_SKEW_MS) return receivedAt;
+  return reported;
+}
+
+export function smoothAlignment(previous: Room64Alignment | undefined, score: number, now: number): Room64Alignment {
+  if (!previous || now - previous.updatedAt > ALIGNMENT_FRESH_MS) {
+    return { score, updatedAt: now };
+  }
+  return { score: previous.score + (score - previous.score) * ALIGNMENT_SMOOTHING, updatedAt: now };
+}
+
+export function roomResonance(alignment: Record<string, Room64Alignment>, memberIds: string[], now: number): number {
+  if (memberIds.length === 0) return 0;
+
+  const total = memberIds.reduce((sum, deviceId) => {
+    const entry = alignment[deviceId];
+    return entry && now - entry.updatedAt <= ALIGNMENT_FRESH_MS ? sum + entry.score : sum;
+  }, 0);
+
+  return total / memberIds.length;
+}
+
+// NTP-style estimate from one ping round trip: how far the server clock is ahead of ours
+export function estimateClockOffset(sentAt: number, serverTime: number, receivedAt: number): { offset: number; rtt: number } {
+  return {
+    offset: serverTime - (sentAt + receivedAt) / 2,
+    rtt: receivedAt - sentAt
+  };
+}
@@ -0,0 +1,185 @@
+import jwt from 'jsonwebtoken';
+import { randomBytes } from 'crypto';
+import { and, eq, gt, lt, sql } from 'drizzle-orm';
+import { db, room64Invites } from './database';
+import type { Room64Invite } from './database';
+
+// Invite links for Room64. The token is a signed JWT naming one invite record, so links can't be
+// forged or pointed at another room; the record carries the usage count, which only the server can spend.
+
+// Without a configured secret invites are switched off; only local development gets a throwaway one,
+// so links minted there stop working on restart
+const INVITE_SECRET = process.env.ROOM64_INVITE_SECRET || process.env.JWT_SECRET ||
+  (process.env.NODE_ENV === 'development' ? randomBytes(32).toString('hex') : null);
+const INVITE_TOKEN_TYPE = 'room64_invite';
+
+export const DEFAULT_INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+export const MAX_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_INVITE_MAX_USES = 10;
+export const MAX_INVITE_USES = 64;
+
+export type Room64InviteCheck =
+  | { valid: true; inviteId: string; roomId: string }
+  | { valid: false; reason: 'INVITE_INVALID' | 'INVITE_EXPIRED' | 'INVITES_UNAVAILABLE' };
+
+export class Room64InviteStore {
+  private static instance: Room64InviteStore;
+  private invites = new Map<string, Room64Invite>();
+
+  static getInstance(): Room64InviteStore {
+    if (!Room64InviteStore.instance) {
+      Room64InviteStore.instance = new Room64InviteStore();
+    }
+    return Room64InviteStore.instance;
+  }
+
+  isEnabled(): boolean {
+    return INVITE_SECRET !== null;
+  }
+
+  async issue(
+    roomId: string,
+    createdBy: string,
+    options: { ttlMs?: number; maxUses?: number } = {}
+  ): Promise<{ token: string; invite: Room64Invite }> {
+    if (!INVITE_SECRET) {
+      throw new Error('Room64 invites need ROOM64_INVITE_SECRET or JWT_SECRET');
+    }
+
+    const ttlMs = Math.min(options.ttlMs ?? DEFAULT_INVITE_TTL_MS, MAX_INVITE_TTL_MS);
+    const now = Date.now();
+    const invite: Room64Invite = {
+      inviteId: randomBytes(12).toString('hex'),
+      roomId,
+      createdBy,
+      maxUses: Math.max(1, Math.min(options.maxUses ?? DEFAULT_INVITE_MAX_USES, MAX_INVITE_USES)),
+      uses: 0,
+      expiresAt: now + ttlMs,
+      createdAt: now
+    };
+
+    if (db) {
+      try {
+        await db.insert(room64Invites).values({
+          inviteId: invite.inviteId,
+          roomId,
+          createdBy,
+          maxUses: invite.maxUses,
+          uses: 0,
+          expiresAt: new Date(invite.expiresAt),
+          createdAt: new Date(now)
+        });
+      } catch (error) {
+        console.warn('Failed to save room invite to database:', error);
+      }
+    }
+    this.invites.set(invite.inviteId, invite);
+
+    const token = jwt.sign(
+      { typ: INVITE_TOKEN_TYPE, inviteId: invite.inviteId, roomId },
+      INVITE_SECRET,
+      { expiresIn: Math.ceil(ttlMs / 1000) }
+    );
+
+    return { token, invite };
+  }
+
+  // Signature and expiry only; whether uses are left is up to consume
+  verify(token: string): Room64InviteCheck {
+    if (!INVITE_SECRET) return { valid: false, reason: 'INVITES_UNAVAILABLE' };
+
+    try {
+      const payload = jwt.verify(token, INVITE_SECRET) as any;
+      if (payload?.typ !== INVITE_TOKEN_TYPE || typeof payload.inviteId !== 'string' || typeof payload.roomId !== 'string') {
+        return { valid: false, reason: 'INVITE_INVALID' };
+      }
+      return { valid: true, inviteId: payload.inviteId, roomId: payload.roomId };
+    } catch (error) {
+      return { valid: false, reason: error instanceof jwt.TokenExpiredError ? 'INVITE_EXPIRED' : 'INVITE_INVALID' };
+    }
+  }
+
+  async get(inviteId: string): Promise<Room64Invite | null> {
+    if (db) {
+      try {
+        const [row] = await db
+          .select()
+          .from(room64Invites)
+          .where(eq(room64Invites.inviteId, inviteId))
+          .limit(1);
+        return row ? this.fromRow(row) : null;
+      } catch (error) {
+        console.warn('Failed to get room invite from database:', error);
+      }
+    }
+    return this.invites.get(inviteId) ?? null;
+  }
+
+  // Spends one use; null when the invite is unknown, expired or used up
+  async consume(inviteId: string): Promise<Room64Invite | null> {
+    const now = Date.now();
+
+    if (db) {
+      try {
+        // Conditional increment, so concurrent redemptions can't overspend across instances
+        const [row] = await db
+          .update(room64Invites)
+          .set({ uses: sql`${room64Invites.uses} + 1` })
+          .where(and(
+            eq(room64Invites.inviteId, inviteId),
+            lt(room64Invites.uses, room64Invites.maxUses),
+            gt(room64Invites.expiresAt, new Date(now))
+          ))
+          .returning();
+        return row ? this.fromRow(row) : null;
+      } catch (error) {
+        console.warn('Failed to redeem room invite in database:', error);
+      }
+    }
+
+    const invite = this.invites.get(inviteId);
+    if (!invite || invite.uses >= invite.maxUses || invite.expiresAt <= now) return null;
+    invite.uses++;
+    return { ...invite };
+  }
+
+  async removeForRoom(roomId: string): Promise<void> {
+    this.invites.forEach((invite, inviteId) => {
+      if (invite.roomId === roomId) this.invites.delete(inviteId);
+    });
+    if (!db) return;
+
+    try {
+      await db.delete(room64Invites).where(eq(room64Invites.roomId, roomId));
+    } catch (error) {
+      console.warn('Failed to delete room invites from database:', error);
+    }
+  }
+
+  async removeExpired(now: number = Date.now()): Promise<void> {
+    this.invites.forEach((invite, inviteId) => {
+      if (invite.expiresAt <= now) this.invites.delete(inviteId);
+    });
+    if (!db) return;
+
+    try {
+      await db.delete(room64Invites).where(lt(room64Invites.expiresAt, new Date(now)));
+    } catch (error) {
+      console.warn('Failed to delete expired room invites from database:', error);
+    }
+  }
+
+  private fromRow(row: any): Room64Invite {
+    return {
+      inviteId: row.inviteId,
+      roomId: row.roomId,
+      createdBy: row.createdBy,
+      maxUses: row.maxUses,
+      uses: row.uses,
+      expiresAt: row.expiresAt.getTime(),
+      createdAt: row.createdAt?.getTime() || Date.now()
+    };
+  }
+}
+
+export const room64InviteStore = Room64InviteStore.getInstance();
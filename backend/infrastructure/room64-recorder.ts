@@ -0,0 +1,281 @@
+import { and, asc, desc, eq, lt, sql } from 'drizzle-orm';
+import { db, room64Events, room64Summaries } from './database';
+import type { Room64Room, Room64SessionSummary, Room64TimelineEvent, Room64TimelineEventType } from './database';
+
+// Session recordings for Room64. Events are appended while a room is open and rolled up into a
+// summary when it closes; both stay around so participants can revisit the session later.
+
+const SYNC_RECORD_INTERVAL_MS = 5000; // breathing syncs are sampled per device, not kept one by one
+const RECORDING_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_MEMORY_EVENTS_PER_SESSION = 2000;
+const MAX_MEMORY_SESSIONS = 200;
+const MAX_HISTORY_SESSIONS = 100;
+
+type NewSummary = Omit<Room64SessionSummary, 'id'>;
+
+const sessionKey = (roomId: string, startedAt: number) => `${roomId}@${startedAt}`;
+
+export class Room64Recorder {
+  private static instance: Room64Recorder;
+  private timelines = new Map<string, Room64TimelineEvent[]>();
+  private summaries: Room64SessionSummary[] = [];
+  private nextSummaryId = 1;
+  private lastSyncRecorded = new Map<string, number>();
+
+  static getInstance(): Room64Recorder {
+    if (!Room64Recorder.instance) {
+      Room64Recorder.instance = new Room64Recorder();
+    }
+    return Room64Recorder.instance;
+  }
+
+  async record(
+    room: Room64Room,
+    deviceId: string,
+    type: Room64TimelineEventType,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    const now = Date.now();
+
+    if (type === 'sync') {
+      const key = `${sessionKey(room.id, room.created)}:${deviceId}`;
+      const last = this.lastSyncRecorded.get(key) ?? 0;
+      if (now - last < SYNC_RECORD_INTERVAL_MS) return;
+      this.lastSyncRecorded.set(key, now);
+    }
+
+    const event: Room64TimelineEvent = {
+      roomId: room.id,
+      sessionStartedAt: room.created,
+      deviceId,
+      type,
+      data,
+      resonanceLevel: room.collectiveState.resonanceLevel,
+      timestamp: now
+    };
+
+    if (db) {
+      try {
+        await db.insert(room64Events).values({
+          roomId: event.roomId,
+          sessionStartedAt: new Date(event.sessionStartedAt),
+          deviceId,
+          type,
+          data,
+          resonanceLevel: event.resonanceLevel,
+          timestamp: new Date(now)
+        });
+        return;
+      } catch (error) {
+        console.warn('Failed to save room event to database:', error);
+      }
+    }
+
+    // Kept here only when the database didn't take it
+    const key = sessionKey(room.id, room.created);
+    const timeline = this.timelines.get(key) ?? [];
+    timeline.push(event);
+    this.timelines.set(key, timeline.slice(-MAX_MEMORY_EVENTS_PER_SESSION));
+  }
+
+  // Rolls the session's timeline into its summary; null when another instance already wrote it
+  async closeSession(room: Room64Room, reason: Room64SessionSummary['closeReason']): Promise<Room64SessionSummary | null> {
+    const prefix = sessionKey(room.id, room.created);
+    this.lastSyncRecorded.forEach((_, key) => {
+      if (key.startsWith(`${prefix}:`)) this.lastSyncRecorded.delete(key);
+    });
+
+    const timeline = await this.loadTimeline(room.id, room.created);
+    const summary = this.buildSummary(room, timeline, reason);
+
+    if (db) {
+      try {
+        const [row] = await db
+          .insert(room64Summaries)
+          .values({
+            roomId: summary.roomId,
+            name: summary.name,
+            hostDeviceId: summary.hostDeviceId,
+            participants: summary.participants,
+            startedAt: new Date(summary.startedAt),
+            endedAt: new Date(summary.endedAt),
+            peakResonance: summary.peakResonance,
+            bloomCount: summary.bloomCount,
+            sacredPhrases: summary.sacredPhrases,
+            eventCount: summary.eventCount,
+            closeReason: summary.closeReason
+          })
+          .onConflictDoNothing({ target: [room64Summaries.roomId, room64Summaries.startedAt] })
+          .returning();
+        return row ? this.fromRow(row) : null;
+      } catch (error) {
+        console.warn('Failed to save room summary to database:', error);
+      }
+    }
+
+    const saved = { ...summary, id: this.nextSummaryId++ };
+    this.summaries.unshift(saved);
+    // Timelines are dropped together with the summaries that point at them
+    this.summaries.splice(MAX_MEMORY_SESSIONS).forEach(evicted => {
+      this.timelines.delete(sessionKey(evicted.roomId, evicted.startedAt));
+    });
+    return saved;
+  }
+
+  // Past sessions the device took part in, most recent first
+  async history(deviceId: string, options: { limit?: number } = {}): Promise<Room64SessionSummary[]> {
+    const limit = Math.min(options.limit ?? 20, MAX_HISTORY_SESSIONS);
+
+    if (db) {
+      try {
+        const rows = await db
+          .select()
+          .from(room64Summaries)
+          .where(sql`${room64Summaries.participants} @> ${JSON.stringify([deviceId])}::jsonb`)
+          .orderBy(desc(room64Summaries.endedAt))
+          .limit(limit);
+        return rows.map((row: any) => this.fromRow(row));
+      } catch (error) {
+        console.warn('Failed to get room history from database:', error);
+      }
+    }
+
+    return this.summaries
+      .filter(summary => summary.participants.includes(deviceId))
+      .slice(0, limit);
+  }
+
+  // One past session with its timeline; only its participants get to see it
+  async getSession(
+    deviceId: string,
+    sessionId: number
+  ): Promise<{ summary: Room64SessionSummary; timeline: Room64TimelineEvent[] } | null> {
+    let summary: Room64SessionSummary | null | undefined;
+
+    if (db) {
+      try {
+        const [row] = await db
+          .select()
+          .from(room64Summaries)
+          .where(eq(room64Summaries.id, sessionId))
+          .limit(1);
+        summary = row ? this.fromRow(row) : null;
+      } catch (error) {
+        console.warn('Failed to get room summary from database:', error);
+      }
+    }
+
+    if (summary === undefined) summary = this.summaries.find(entry => entry.id === sessionId) ?? null;
+    if (!summary || !summary.participants.includes(deviceId)) return null;
+
+    const timeline = await this.loadTimeline(summary.roomId, summary.startedAt);
+    return { summary, timeline };
+  }
+
+  async removeExpired(now: number = Date.now()): Promise<void> {
+    const cutoff = now - RECORDING_RETENTION_MS;
+    this.summaries = this.summaries.filter(summary => summary.endedAt >= cutoff);
+    this.timelines.forEach((timeline, key) => {
+      if (timeline[timeline.length - 1].timestamp < cutoff) this.timelines.delete(key);
+    });
+    if (!db) return;
+
+    try {
+      await db.delete(room64Summaries).where(lt(room64Summaries.endedAt, new Date(cutoff)));
+      await db.delete(room64Events).where(lt(room64Events.timestamp, new Date(cutoff)));
+    } catch (error) {
+      console.warn('Failed to delete expired room recordings from database:', error);
+    }
+  }
+
+  // Database rows plus anything that only made it into memory, in order
+  private async loadTimeline(roomId: string, startedAt: number): Promise<Room64TimelineEvent[]> {
+    const events: Room64TimelineEvent[] = [...(this.timelines.get(sessionKey(roomId, startedAt)) ?? [])];
+
+    if (db) {
+      try {
+        const rows = await db
+          .select()
+          .from(room64Events)
+          .where(and(
+            eq(room64Events.roomId, roomId),
+            eq(room64Events.sessionStartedAt, new Date(startedAt))
+          ))
+          .orderBy(asc(room64Events.timestamp));
+        rows.forEach((row: any) => {
+          events.push({
+            roomId: row.roomId,
+            sessionStartedAt: row.sessionStartedAt.getTime(),
+            deviceId: row.deviceId,
+            type: row.type,
+            data: row.data || {},
+            resonanceLevel: row.resonanceLevel,
+            timestamp: row.timestamp.getTime()
+          });
+        });
+      } catch (error) {
+        console.warn('Failed to get room timeline from database:', error);
+      }
+    }
+
+    return events.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private buildSummary(room: Room64Room, timeline: Room64TimelineEvent[], reason: Room64SessionSummary['closeReason']): NewSummary {
+    const participants = new Set<string>([room.hostDeviceId]);
+    let peakResonance = room.collectiveState.peakResonance ?? 0;
+    let bloomCount = 0;
+    const sacredPhrases: NewSummary['sacredPhrases'] = [];
+
+    timeline.forEach(event => {
+      participants.add(event.deviceId);
+      peakResonance = Math.max(peakResonance, event.resonanceLevel);
+      if (event.type === 'bloom') bloomCount++;
+      if (event.type === 'phrase' && typeof event.data.phrase === 'string') {
+        sacredPhrases.push({ deviceId: event.deviceId, phrase: event.data.phrase, timestamp: event.timestamp });
+      }
+    });
+    room.members.forEach(member => participants.add(member.deviceId));
+
+    const endedAt = Math.max(room.lastActivity, room.created);
+    // Whoever opened the room, even if hosting was handed over later
+    const opener = timeline.find(event => event.type === 'join' && event.data.role === 'host');
+
+    return {
+      roomId: room.id,
+      name: room.name,
+      hostDeviceId: opener?.deviceId ?? room.hostDeviceId,
+      participants: Array.from(participants),
+      startedAt: room.created,
+      endedAt,
+      durationMs: endedAt - room.created,
+      peakResonance: Math.min(1, peakResonance),
+      bloomCount,
+      sacredPhrases,
+      eventCount: timeline.length,
+      closeReason: reason
+    };
+  }
+
+  private fromRow(row: any): Room64SessionSummary {
+    const startedAt = row.startedAt.getTime();
+    const endedAt = row.endedAt.getTime();
+    return {
+      id: row.id,
+      roomId: row.roomId,
+      name: row.name ?? null,
+      hostDeviceId: row.hostDeviceId,
+      participants: row.participants || [],
+      startedAt,
+      endedAt,
+      durationMs: endedAt - startedAt,
+      peakResonance: row.peakResonance,
+      bloomCount: row.bloomCount,
+      sacredPhrases: row.sacredPhrases || [],
+      eventCount: row.eventCount,
+      closeReason: row.closeReason === 'expired' ? 'expired' : 'empty'
+    };
+  }
+}
+
+export const room64Recorder = Room64Recorder.getInstance();
@@ -0,0 +1,776 @@
+import { db, room64Sessions } from './database';
+import { fieldManager } from './field-manager';
+import { and, desc, eq, gte, lt } from 'drizzle-orm';
+import { DEFAULT_BREATHING_PATTERN, breathingTickAt, phaseAlignment, roomResonance, sampleTime, smoothAlignment } from './room64-breathing';
+import { room64InviteStore } from './room64-invites';
+import { room64Recorder } from './room64-recorder';
+import type { Room64BreathingPattern, Room64CollectiveState, Room64Invite, Room64Member, Room64Role, Room64Room, Room64Visibility } from './database';
+
+// Single registry for Room64 sessions, used by both the tRPC API and the WebSocket server.
+// Postgres holds the rooms when available; the in-memory map mirrors every write and answers when it isn't.
+
+export const ROOM64_CAPACITY = 64;
+const IDLE_ROOM_TTL_MS = 30 * 60 * 1000;
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_SACRED_PHRASES = 64;
+const MAX_LISTED_ROOMS = 100;
+
+export type Room64ErrorCode =
+  | 'NOT_FOUND'
+  | 'ALREADY_EXISTS'
+  | 'ROOM_FULL'
+  | 'NOT_A_MEMBER'
+  | 'NOT_HOST'
+  | 'INVALID_TARGET'
+  | 'BANNED'
+  | 'MUTED'
+  | 'INVITE_REQUIRED'
+  | 'INVITE_INVALID'
+  | 'INVITE_EXPIRED'
+  | 'INVITE_EXHAUSTED'
+  | 'INVITES_UNAVAILABLE';
+
+export class Room64Error extends Error {
+  readonly code: Room64ErrorCode;
+
+  constructor(code: Room64ErrorCode, message: string) {
+    super(message);
+    this.name = 'Room64Error';
+    this.code = code;
+  }
+}
+
+export interface Room64CreateOptions {
+  roomId?: string;
+  name?: string;
+  capacity?: number;
+  visibility?: Room64Visibility;
+  breathing?: Room64BreathingPattern;
+}
+
+export interface Room64SyncInput {
+  breathingPhase?: number;
+  timestamp?: number; // server-clock time the phase was sampled at
+  sacredPhrase?: string;
+}
+
+// What room64.list exposes; members and collective state stay behind room64.get
+export interface Room64Summary {
+  id: string;
+  name: string | null;
+  hostDeviceId: string;
+  visibility: Room64Visibility;
+  capacity: number;
+  participantCount: number;
+  resonanceLevel: number;
+  created: number;
+  lastActivity: number;
+}
+
+// 'members' covers joins, leaves, mutes and host handover; 'state' covers sync, bloom and breathing changes
+export type Room64Change =
+  | { type: 'members'; room: Room64Room }
+  | { type: 'kicked'; room: Room64Room; deviceId: string }
+  | { type: 'state'; room: Room64Room }
+  | { type: 'closed'; room: Room64Room; reason: 'empty' | 'expired' };
+
+type Room64Listener = (change: Room64Change) => void;
+
+const emptyCollectiveState = (
+  startedAt: number,
+  pattern: Room64BreathingPattern = DEFAULT_BREATHING_PATTERN
+): Room64CollectiveState => ({
+  breathingPhase: 0,
+  resonanceLevel: 0,
+  sacredPhrases: [],
+  lastBloom: 0,
+  peakResonance: 0,
+  breathing: { pattern, startedAt },
+  alignment: {}
+});
+
+export class Room64Service {
+  private static instance: Room64Service;
+  private rooms = new Map<string, Room64Room>();
+  private locks = new Map<string, Promise<void>>();
+  private listeners = new Set<Room64Listener>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  static getInstance(): Room64Service {
+    if (!Room64Service.instance) {
+      Room64Service.instance = new Room64Service();
+    }
+    return Room64Service.instance;
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.expireIdleRooms().catch(error => {
+        console.error('Room64 expiry sweep failed:', error);
+      });
+    }, EXPIRY_SWEEP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (!this.sweepTimer) return;
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  onChange(listener: Room64Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(change: Room64Change): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('Room64 listener failed:', error);
+      }
+    });
+  }
+
+  // Serializes read-modify-write cycles per room so concurrent joins can't overfill it
+  private withLock<T>(roomId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(roomId) ?? Promise.resolve();
+    const run = previous.then(task);
+    const settled = run.then(() => undefined, () => undefined);
+    this.locks.set(roomId, settled);
+    settled.then(() => {
+      if (this.locks.get(roomId) === settled) this.locks.delete(roomId);
+    });
+    return run;
+  }
+
+  generateRoomId(): string {
+    return `room64_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  getRole(room: Room64Room, deviceId: string): Room64Role | null {
+    return room.members.find(member => member.deviceId === deviceId)?.role ?? null;
+  }
+
+  summarize(room: Room64Room): Room64Summary {
+    return {
+      id: room.id,
+      name: room.name,
+      hostDeviceId: room.hostDeviceId,
+      visibility: room.visibility,
+      capacity: room.capacity,
+      participantCount: room.members.length,
+      resonanceLevel: room.collectiveState.resonanceLevel,
+      created: room.created,
+      lastActivity: room.lastActivity
+    };
+  }
+
+  async get(roomId: string): Promise<Room64Room | null> {
+    return this.loadRoom(roomId);
+  }
+
+  // Open public rooms, most recently active first
+  async list(options: { limit?: number; includeFull?: boolean } = {}): Promise<Room64Summary[]> {
+    const limit = Math.min(options.limit ?? 50, MAX_LISTED_ROOMS);
+    const cutoff = Date.now() - IDLE_ROOM_TTL_MS;
+    let rooms: Room64Room[] | null = null;
+
+    if (db) {
+      try {
+        const rows = await db
+          .select()
+          .from(room64Sessions)
+          .where(and(
+            eq(room64Sessions.visibility, 'public'),
+            gte(room64Sessions.lastActivity, new Date(cutoff))
+          ))
+          .orderBy(desc(room64Sessions.lastActivity))
+          .limit(MAX_LISTED_ROOMS);
+        rooms = rows.map((row: any) => this.fromRow(row));
+      } catch (error) {
+        console.warn('Failed to list rooms from database:', error);
+      }
+    }
+
+    if (!rooms) {
+      rooms = Array.from(this.rooms.values())
+        .filter(room => room.visibility === 'public' && room.lastActivity >= cutoff)
+        .sort((a, b) => b.lastActivity - a.lastActivity);
+    }
+
+    return rooms
+      .filter(room => options.includeFull || room.members.length < room.capacity)
+      .slice(0, limit)
+      .map(room => this.summarize(room));
+  }
+
+  async create(hostDeviceId: string, options: Room64CreateOptions = {}): Promise<Room64Room> {
+    const roomId = options.roomId || this.generateRoomId();
+
+    const room = await this.withLock(roomId, async () => {
+      if (await this.loadRoom(roomId)) {
+        throw new Room64Error('ALREADY_EXISTS', `Room ${roomId} already exists`);
+      }
+      const created = this.buildRoom(roomId, hostDeviceId, options);
+      await this.saveRoom(created);
+      return created;
+    });
+
+    await this.afterJoin(room, hostDeviceId);
+    return room;
+  }
+
+  // Private rooms need an invite token; each successful join through an invite spends one use
+  async join(deviceId: string, roomId: string, options: { invite?: string } = {}): Promise<Room64Room> {
+    const inviteId = options.invite ? this.checkInvite(options.invite, roomId) : null;
+
+    const { room, joined } = await this.withLock(roomId, async () => {
+      const existing = await this.loadRoom(roomId);
+      if (!existing) {
+        throw new Room64Error('NOT_FOUND', `Room ${roomId} not found`);
+      }
+
+      if (this.getRole(existing, deviceId)) {
+        existing.lastActivity = Date.now();
+        await this.saveRoom(existing);
+        return { room: existing, joined: false };
+      }
+
+      if (existing.bannedDeviceIds.includes(deviceId)) {
+        throw new Room64Error('BANNED', `Device ${deviceId} was removed from room ${roomId}`);
+      }
+      if (existing.visibility === 'private' && !inviteId) {
+        throw new Room64Error('INVITE_REQUIRED', `Room ${roomId} is private; an invite is required`);
+      }
+      if (existing.members.length >= existing.capacity) {
+        throw new Room64Error('ROOM_FULL', `Room ${roomId} is full (${existing.capacity} participants)`);
+      }
+      // Spent last, so a full room or a ban doesn't burn a use
+      if (inviteId && !(await room64InviteStore.consume(inviteId))) {
+        throw new Room64Error('INVITE_EXHAUSTED', 'This invite has no uses left');
+      }
+
+      existing.members.push({ deviceId, role: 'participant', joinedAt: Date.now() });
+      existing.lastActivity = Date.now();
+      await this.saveRoom(existing);
+      return { room: existing, joined: true };
+    });
+
+    if (joined) await this.afterJoin(room, deviceId);
+    return room;
+  }
+
+  // Deep links carry only the token; the room comes from its signed claims
+  async redeemInvite(deviceId: string, token: string): Promise<Room64Room> {
+    const check = room64InviteStore.verify(token);
+    if (!check.valid) throw this.inviteError(check.reason);
+    return this.join(deviceId, check.roomId, { invite: token });
+  }
+
+  async createInvite(
+    deviceId: string,
+    roomId: string,
+    options: { ttlMs?: number; maxUses?: number } = {}
+  ): Promise<{ token: string; invite: Room64Invite }> {
+    const room = await this.loadRoom(roomId);
+    if (!room) {
+      throw new Room64Error('NOT_FOUND', `Room ${roomId} not found`);
+    }
+    this.requireHost(room, deviceId);
+    if (!room64InviteStore.isEnabled()) throw this.inviteError('INVITES_UNAVAILABLE');
+
+    return room64InviteStore.issue(roomId, deviceId, options);
+  }
+
+  // What an invite link leads to, without spending it
+  async previewInvite(token: string): Promise<{ room: Room64Room; invite: Room64Invite }> {
+    const check = room64InviteStore.verify(token);
+    if (!check.valid) throw this.inviteError(check.reason);
+
+    const [room, invite] = await Promise.all([this.loadRoom(check.roomId), room64InviteStore.get(check.inviteId)]);
+    if (!room) {
+      throw new Room64Error('NOT_FOUND', 'The room for this invite has closed');
+    }
+    if (!invite || invite.uses >= invite.maxUses) {
+      throw new Room64Error('INVITE_EXHAUSTED', 'This invite has no uses left');
+    }
+    return { room, invite };
+  }
+
+  // Host-only; kicked devices are banned from rejoining this room
+  async kick(hostDeviceId: string, roomId: string, targetDeviceId: string): Promise<Room64Room> {
+    const room = await this.withLock(roomId, async () => {
+      const current = await this.requireMember(hostDeviceId, roomId);
+      this.requireHost(current, hostDeviceId);
+      this.requireTarget(current, hostDeviceId, targetDeviceId);
+
+      current.members = current.members.filter(member => member.deviceId !== targetDeviceId);
+      current.bannedDeviceIds = [...current.bannedDeviceIds, targetDeviceId];
+      delete current.collectiveState.alignment[targetDeviceId];
+      current.lastActivity = Date.now();
+      this.refreshResonance(current, current.lastActivity);
+      await this.saveRoom(current);
+      return current;
+    });
+
+    console.log(`🏠 Host ${hostDeviceId} removed ${targetDeviceId} from room ${roomId}`);
+    await room64Recorder.record(room, targetDeviceId, 'leave', { kickedBy: hostDeviceId });
+    this.notify({ type: 'kicked', room, deviceId: targetDeviceId });
+    return room;
+  }
+
+  async setMuted(hostDeviceId: string, roomId: string, targetDeviceId: string, muted: boolean): Promise<Room64Room> {
+    const room = await this.withLock(roomId, async () => {
+      const current = await this.requireMember(hostDeviceId, roomId);
+      this.requireHost(current, hostDeviceId);
+      const target = this.requireTarget(current, hostDeviceId, targetDeviceId);
+
+      if (muted) {
+        target.muted = true;
+      } else {
+        delete target.muted;
+      }
+      current.lastActivity = Date.now();
+      await this.saveRoom(current);
+      return current;
+    });
+
+    this.notify({ type: 'members', room });
+    return room;
+  }
+
+  // Returns the remaining room, or null once the last member has left and the room is closed
+  async leave(deviceId: string, roomId: string): Promise<Room64Room | null> {
+    const result = await this.withLock(roomId, async () => {
+      const room = await this.loadRoom(roomId);
+      if (!room || !this.getRole(room, deviceId)) return { room, left: false };
+
+      room.members = room.members.filter(member => member.deviceId !== deviceId);
+      room.lastActivity = Date.now();
+      delete room.collectiveState.alignment[deviceId];
+      this.refreshResonance(room, room.lastActivity);
+
+      if (room.members.length === 0) {
+        await this.deleteRoom(roomId);
+        return { room, left: true };
+      }
+
+      // The longest-standing member takes over when the host leaves
+      if (room.hostDeviceId === deviceId) {
+        const [successor] = [...room.members].sort((a, b) => a.joinedAt - b.joinedAt);
+        successor.role = 'host';
+        room.hostDeviceId = successor.deviceId;
+      }
+
+      await this.saveRoom(room);
+      return { room, left: true };
+    });
+
+    const { room, left } = result;
+    if (!room) return null;
+    if (!left) return room;
+
+    await fieldManager.recordEvent({
+      deviceId,
+      type: 'TOUCH',
+      data: {
+        action: 'ROOM64_LEAVE',
+        roomId,
+        remainingParticipants: room.members.length
+      },
+      timestamp: Date.now(),
+      processed: false,
+      intensity: 0.3
+    });
+
+    await room64Recorder.record(room, deviceId, 'leave');
+
+    if (room.members.length === 0) {
+      await room64Recorder.closeSession(room, 'empty');
+      this.notify({ type: 'closed', room, reason: 'empty' });
+      await this.refreshRoom64Active();
+      return null;
+    }
+
+    this.notify({ type: 'members', room });
+    return room;
+  }
+
+  // Reported phases are scored against the room's metronome; resonance is the members' mean alignment
+  async sync(deviceId: string, roomId: string, input: Room64SyncInput): Promise<Room64Room> {
+    const room = await this.withLock(roomId, async () => {
+      const current = await this.requireMember(deviceId, roomId);
+      if (input.sacredPhrase) this.requireUnmuted(current, deviceId);
+      const state = current.collectiveState;
+      const { pattern, startedAt } = state.breathing;
+      const now = Date.now();
+
+      if (input.breathingPhase !== undefined) {
+        const expected = breathingTickAt(pattern, startedAt, sampleTime(input.timestamp, now)).phase;
+        const score = phaseAlignment(expected, input.breathingPhase);
+        state.alignment = { ...state.alignment, [deviceId]: smoothAlignment(state.alignment[deviceId], score, now) };
+      }
+      if (input.sacredPhrase) {
+        state.sacredPhrases = [...state.sacredPhrases, input.sacredPhrase].slice(-MAX_SACRED_PHRASES);
+      }
+
+      this.refreshResonance(current, now);
+      current.lastActivity = now;
+      await this.saveRoom(current);
+      return current;
+    });
+
+    await fieldManager.recordEvent({
+      deviceId,
+      type: 'BREATH',
+      data: {
+        action: 'ROOM64_SYNC',
+        roomId,
+        breathingPhase: input.breathingPhase,
+        alignment: room.collectiveState.alignment[deviceId]?.score,
+        resonanceLevel: room.collectiveState.resonanceLevel,
+        sacredPhrase: input.sacredPhrase
+      },
+      timestamp: Date.now(),
+      processed: false,
+      intensity: room.collectiveState.alignment[deviceId]?.score ?? 0.5
+    });
+
+    if (input.breathingPhase !== undefined) {
+      await room64Recorder.record(room, deviceId, 'sync', {
+        breathingPhase: input.breathingPhase,
+        alignment: room.collectiveState.alignment[deviceId]?.score
+      });
+    }
+    if (input.sacredPhrase) {
+      await room64Recorder.record(room, deviceId, 'phrase', { phrase: input.sacredPhrase });
+    }
+
+    this.notify({ type: 'state', room });
+    return room;
+  }
+
+  // Host-only; restarts the metronome so nobody is scored against the old rhythm
+  async setBreathingPattern(deviceId: string, roomId: string, pattern: Room64BreathingPattern): Promise<Room64Room> {
+    const room = await this.withLock(roomId, async () => {
+      const current = await this.requireMember(deviceId, roomId);
+      this.requireHost(current, deviceId);
+
+      const now = Date.now();
+      current.collectiveState.breathing = { pattern: { ...pattern }, startedAt: now };
+      current.collectiveState.alignment = {};
+      this.refreshResonance(current, now);
+      current.lastActivity = now;
+      await this.saveRoom(current);
+      return current;
+    });
+
+    this.notify({ type: 'state', room });
+    return room;
+  }
+
+  async bloom(deviceId: string, roomId: string): Promise<Room64Room> {
+    const room = await this.withLock(roomId, async () => {
+      const current = await this.requireMember(deviceId, roomId);
+      this.requireUnmuted(current, deviceId);
+      const now = Date.now();
+      // A bloom is an event in the session, not a resonance reading; the level stays with the alignment
+      current.collectiveState.lastBloom = now;
+      this.refreshResonance(current, now);
+      current.lastActivity = now;
+      await this.saveRoom(current);
+      return current;
+    });
+
+    console.log(`🌸 COLLECTIVE BLOOM in room ${roomId} with ${room.members.length} participants`);
+
+    await fieldManager.recordEvent({
+      deviceId,
+      type: 'BLOOM',
+      data: {
+        action: 'ROOM64_BLOOM',
+        roomId,
+        participants: room.members.length,
+        intensity: room.collectiveState.resonanceLevel
+      },
+      timestamp: Date.now(),
+      processed: false,
+      intensity: 1.0
+    });
+    await room64Recorder.record(room, deviceId, 'bloom', { participants: room.members.length });
+
+    // A collective bloom feeds energy back into the global field
+    const currentState = await fieldManager.getGlobalState();
+    await fieldManager.updateGlobalState({
+      globalResonance: Math.min(1, currentState.globalResonance + 0.3),
+      collectiveIntelligence: Math.min(1, currentState.collectiveIntelligence + 0.2)
+    });
+
+    this.notify({ type: 'state', room });
+    return room;
+  }
+
+  // Closes rooms nobody has touched for IDLE_ROOM_TTL_MS; returns the ids that were closed
+  async expireIdleRooms(now: number = Date.now()): Promise<string[]> {
+    const cutoff = now - IDLE_ROOM_TTL_MS;
+    const expired = new Map<string, Room64Room>();
+
+    if (db) {
+      try {
+        // Deleting with RETURNING means only one server instance reports each expired room
+        const rows = await db
+          .delete(room64Sessions)
+          .where(lt(room64Sessions.lastActivity, new Date(cutoff)))
+          .returning();
+        rows.forEach((row: any) => {
+          const room = this.fromRow(row);
+          expired.set(room.id, room);
+        });
+      } catch (error) {
+        console.warn('Failed to expire rooms in database:', error);
+      }
+    }
+
+    // With a database only the DELETE above may close a room; the memory copy can be stale while
+    // the room is still live on another instance, so idle entries are just dropped from the cache
+    this.rooms.forEach((room, roomId) => {
+      if (room.lastActivity >= cutoff) return;
+      if (!db) expired.set(roomId, room);
+      this.rooms.delete(roomId);
+    });
+    // Rooms expired in the database must not linger in this cache either
+    expired.forEach((_, roomId) => this.rooms.delete(roomId));
+
+    await room64InviteStore.removeExpired(now);
+    await room64Recorder.removeExpired(now);
+    for (const [roomId, room] of expired) {
+      await room64InviteStore.removeForRoom(roomId);
+      await room64Recorder.closeSession(room, 'expired');
+    }
+
+    if (expired.size === 0) return [];
+
+    expired.forEach(room => this.notify({ type: 'closed', room, reason: 'expired' }));
+    console.log(`🏠 Expired ${expired.size} idle Room64 session(s)`);
+    await this.refreshRoom64Active();
+
+    return Array.from(expired.keys());
+  }
+
+  private buildRoom(roomId: string, hostDeviceId: string, options: Omit<Room64CreateOptions, 'roomId'>): Room64Room {
+    const now = Date.now();
+    return {
+      id: roomId,
+      name: options.name?.trim() || null,
+      hostDeviceId,
+      visibility: options.visibility ?? 'public',
+      capacity: Math.max(1, Math.min(ROOM64_CAPACITY, options.capacity ?? ROOM64_CAPACITY)),
+      members: [{ deviceId: hostDeviceId, role: 'host', joinedAt: now }],
+      bannedDeviceIds: [],
+      collectiveState: emptyCollectiveState(now, options.breathing),
+      created: now,
+      lastActivity: now
+    };
+  }
+
+  private async afterJoin(room: Room64Room, deviceId: string): Promise<void> {
+    await fieldManager.recordEvent({
+      deviceId,
+      type: 'TOUCH',
+      data: {
+        action: 'ROOM64_JOIN',
+        roomId: room.id,
+        participantCount: room.members.length
+      },
+      timestamp: Date.now(),
+      processed: false,
+      intensity: 0.5
+    });
+    await room64Recorder.record(room, deviceId, 'join', { role: this.getRole(room, deviceId) });
+
+    await this.refreshRoom64Active();
+    this.notify({ type: 'members', room });
+  }
+
+  private refreshResonance(room: Room64Room, now: number): void {
+    const state = room.collectiveState;
+    state.breathingPhase = breathingTickAt(state.breathing.pattern, state.breathing.startedAt, now).phase;
+    state.resonanceLevel = roomResonance(state.alignment, room.members.map(member => member.deviceId), now);
+    state.peakResonance = Math.max(state.peakResonance ?? 0, state.resonanceLevel);
+  }
+
+  private async requireMember(deviceId: string, roomId: string): Promise<Room64Room> {
+    const room = await this.loadRoom(roomId);
+    if (!room) {
+      throw new Room64Error('NOT_FOUND', `Room ${roomId} not found`);
+    }
+    if (!this.getRole(room, deviceId)) {
+      throw new Room64Error('NOT_A_MEMBER', `Device ${deviceId} has not joined room ${roomId}`);
+    }
+    return room;
+  }
+
+  private requireHost(room: Room64Room, deviceId: string): void {
+    if (room.hostDeviceId !== deviceId) {
+      throw new Room64Error('NOT_HOST', `Only the host of room ${room.id} can do that`);
+    }
+  }
+
+  private requireTarget(room: Room64Room, hostDeviceId: string, targetDeviceId: string): Room64Member {
+    const target = room.members.find(member => member.deviceId === targetDeviceId);
+    if (!target || targetDeviceId === hostDeviceId) {
+      throw new Room64Error('INVALID_TARGET', `Device ${targetDeviceId} is not a participant of room ${room.id}`);
+    }
+    return target;
+  }
+
+  private requireUnmuted(room: Room64Room, deviceId: string): void {
+    if (room.members.some(member => member.deviceId === deviceId && member.muted)) {
+      throw new Room64Error('MUTED', `Device ${deviceId} has been muted in room ${room.id}`);
+    }
+  }
+
+  // Signature and room binding; usage is checked when the join spends it
+  private checkInvite(token: string, roomId: string): string {
+    const check = room64InviteStore.verify(token);
+    if (!check.valid) throw this.inviteError(check.reason);
+    if (check.roomId !== roomId) {
+      throw new Room64Error('INVITE_INVALID', 'This invite is for a different room');
+    }
+    return check.inviteId;
+  }
+
+  private inviteError(reason: 'INVITE_INVALID' | 'INVITE_EXPIRED' | 'INVITES_UNAVAILABLE'): Room64Error {
+    switch (reason) {
+      case 'INVITE_EXPIRED':
+        return new Room64Error('INVITE_EXPIRED', 'This invite has expired');
+      case 'INVITES_UNAVAILABLE':
+        return new Room64Error('INVITES_UNAVAILABLE', 'Invites are not configured on this server');
+      default:
+        return new Room64Error('INVITE_INVALID', 'This invite is not valid');
+    }
+  }
+
+  // Keeps the global room64Active flag in line with whether any room is still open
+  private async refreshRoom64Active(): Promise<void> {
+    let active = false;
+    const cutoff = Date.now() - IDLE_ROOM_TTL_MS;
+
+    if (db) {
+      try {
+        const rows = await db
+          .select({ id: room64Sessions.id })
+          .from(room64Sessions)
+          .where(gte(room64Sessions.lastActivity, new Date(cutoff)))
+          .limit(1);
+        active = rows.length > 0;
+      } catch (error) {
+        console.warn('Failed to check open rooms in database:', error);
+      }
+    }
+    active = active || Array.from(this.rooms.values()).some(room => room.lastActivity >= cutoff);
+
+    const state = await fieldManager.getGlobalState();
+    if (state.room64Active !== active) {
+      await fieldManager.updateGlobalState({ room64Active: active });
+    }
+  }
+
+  private fromRow(row: any): Room64Room {
+    const participants: string[] = row.participants || [];
+    const created = row.created?.getTime() || Date.now();
+    // Rows written before roles existed only carry participant ids; the first one opened the room
+    const members: Room64Member[] = row.members?.length
+      ? row.members
+      : participants.map((deviceId, index) => ({ deviceId, role: index === 0 ? 'host' : 'participant', joinedAt: created }));
+
+    return {
+      id: row.roomId,
+      name: row.name ?? null,
+      hostDeviceId: row.hostDeviceId || members.find(member => member.role === 'host')?.deviceId || '',
+      visibility: row.visibility === 'private' ? 'private' : 'public',
+      capacity: row.capacity || ROOM64_CAPACITY,
+      members,
+      bannedDeviceIds: row.bannedDevices || [],
+      collectiveState: { ...emptyCollectiveState(created), ...(row.collectiveState || {}) },
+      created,
+      lastActivity: row.lastActivity?.getTime() || created
+    };
+  }
+
+  private async loadRoom(roomId: string): Promise<Room64Room | null> {
+    let room: Room64Room | null | undefined;
+
+    if (db) {
+      try {
+        const [row] = await db
+          .select()
+          .from(room64Sessions)
+          .where(eq(room64Sessions.roomId, roomId))
+          .limit(1);
+        room = row ? this.fromRow(row) : null;
+      } catch (error) {
+        console.warn('Failed to get room from database:', error);
+      }
+    }
+
+    // Memory only answers when the database can't; otherwise rooms closed elsewhere would come back
+    if (room === undefined) room = this.rooms.get(roomId) || null;
+    if (!room || room.lastActivity < Date.now() - IDLE_ROOM_TTL_MS) return null;
+
+    return {
+      ...room,
+      members: room.members.map(member => ({ ...member })),
+      collectiveState: { ...room.collectiveState, alignment: { ...room.collectiveState.alignment } }
+    };
+  }
+
+  private async saveRoom(room: Room64Room): Promise<void> {
+    if (db) {
+      const values = {
+        name: room.name,
+        hostDeviceId: room.hostDeviceId,
+        visibility: room.visibility,
+        capacity: room.capacity,
+        participants: room.members.map(member => member.deviceId),
+        members: room.members,
+        bannedDevices: room.bannedDeviceIds,
+        collectiveState: room.collectiveState,
+        lastActivity: new Date(room.lastActivity)
+      };
+
+      try {
+        await db
+          .insert(room64Sessions)
+          .values({ roomId: room.id, created: new Date(room.created), ...values })
+          .onConflictDoUpdate({ target: room64Sessions.roomId, set: values });
+        this.rooms.delete(room.id);
+        return;
+      } catch (error) {
+        console.warn('Failed to save room to database:', error);
+      }
+    }
+
+    // Memory only holds rooms the database doesn't
+    this.rooms.set(room.id, room);
+  }
+
+  private async deleteRoom(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+    await room64InviteStore.removeForRoom(roomId);
+    if (!db) return;
+
+    try {
+      await db.delete(room64Sessions).where(eq(room64Sessions.roomId, roomId));
+    } catch (error) {
+      console.warn('Failed to delete room from database:', error);
+    }
+  }
+}
+
+export const room64Service = Room64Service.getInstance();
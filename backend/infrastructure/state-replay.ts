@@ -0,0 +1,400 @@
+import { db, consciousnessCheckpoints } from './database';
+import { desc, gte, lte } from 'drizzle-orm';
+import { fieldManager } from './field-manager';
+import { generateSpiralField, composeFieldGrid, FIELD_SIZE } from './field-patterns';
+import { createSeededRandom, evolveState, FIELD_EVOLUTION_TICK_MS } from './field-physics';
+import type { ConsciousnessState, ConsciousnessEvent, ConsciousnessCheckpoint, MemoryParticle } from './database';
+
+export interface ReplayResult {
+  state: ConsciousnessState;
+  timestamp: number;
+  eventsReplayed: number;
+  checkpointTime: number | null;
+  complete: boolean; // false when the per-request replay budget ran out before reaching timestamp
+}
+
+export interface FieldFrame {
+  timestamp: number;
+  grid: number[][]; // composite of every quantum field, indexed [x][y]
+  globalResonance: number;
+  collectiveIntelligence: number;
+  activeNodes: number;
+  fieldCount: number;
+}
+
+export interface FieldTimeline {
+  frames: FieldFrame[];
+  eventsReplayed: number;
+  complete: boolean;
+}
+
+interface ReplayRun {
+  state: ConsciousnessState;
+  recentDevices: Record<string, number>;
+  lastEventId: number;
+  maxEventId: number;
+  eventCount: number;
+  evolvedTo: number | null; // last evolution tick applied, null until the first event
+  cursor: string | undefined;
+  eventsReplayed: number;
+  sinceCheckpoint: number;
+}
+
+const MAX_MEMORY_PARTICLES = 1000;
+const MAX_QUANTUM_FIELDS = 10;
+const ACTIVE_NODE_WINDOW_MS = 5 * 60 * 1000;
+// evolveState caps a step at a minute; an empty field only relaxes its resonance, which composes exactly
+const IDLE_EVOLUTION_STEP_TICKS = 12;
+
+export const INITIAL_REPLAY_STATE: ConsciousnessState = {
+  nodeId: 'global',
+  globalResonance: 0.5,
+  activeNodes: 0,
+  memoryParticles: [],
+  quantumFields: [],
+  collectiveIntelligence: 0.3,
+  room64Active: false,
+  lastUpdate: 0,
+};
+
+// FNV-1a, so replayed particles land in the same place every time
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+function addParticle(state: ConsciousnessState, particle: MemoryParticle): MemoryParticle[] {
+  return [particle, ...state.memoryParticles]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_MEMORY_PARTICLES);
+}
+
+// Deterministic version of the live event handlers in the WebSocket server and sync route
+export function applyConsciousnessEvent(state: ConsciousnessState, event: ConsciousnessEvent): ConsciousnessState {
+  const intensity = event.intensity ?? event.data?.intensity ?? 0.5;
+  const data = event.data || {};
+  const next: ConsciousnessState = { ...state, lastUpdate: event.timestamp };
+
+  switch (event.type) {
+    case 'BREATH':
+      next.globalResonance = Math.min(1, state.globalResonance + intensity * 0.1);
+      break;
+
+    case 'BLOOM':
+      next.collectiveIntelligence = Math.min(1, state.collectiveIntelligence + 0.2);
+      break;
+
+    case 'SACRED_PHRASE':
+      if (data.phrase) {
+        next.memoryParticles = addParticle(state, {
+          id: `memory_${event.id}`,
+          x: typeof data.x === 'number' ? data.x : hashToUnit(`${event.id}:x`) * FIELD_SIZE,
+          y: typeof data.y === 'number' ? data.y : hashToUnit(`${event.id}:y`) * FIELD_SIZE,
+          intensity,
+          age: 0,
+          sourceDeviceId: event.deviceId,
+          sacredPhrase: data.phrase,
+          timestamp: event.timestamp,
+        });
+      }
+      break;
+
+    case 'TOUCH': {
+      const [x, y] = Array.isArray(data.coordinates) ? data.coordinates : [data.x, data.y];
+      if (typeof x === 'number' && typeof y === 'number') {
+        next.memoryParticles = addParticle(state, {
+          id: `touch_${event.id}`,
+          x,
+          y,
+          intensity,
+          age: 0,
+          sourceDeviceId: event.deviceId,
+          timestamp: event.timestamp,
+        });
+      }
+      break;
+    }
+
+    case 'SPIRAL': {
+      // Socket events carry grid coordinates; synced events carry screen positions (10px per cell)
+      const center = Array.isArray(data.coordinates)
+        ? data.coordinates
+        : typeof data.centerX === 'number' && typeof data.centerY === 'number'
+          ? [Math.floor(data.centerX / 10), Math.floor(data.centerY / 10)]
+          : null;
+
+      if (center) {
+        const fieldId = `spiral-${event.deviceId}`;
+        next.quantumFields = [
+          ...state.quantumFields.filter(field => field.id !== fieldId),
+          {
+            id: fieldId,
+            fieldData: generateSpiralField(center[0], center[1], intensity),
+            collectiveIntensity: intensity,
+            lastUpdate: event.timestamp,
+          },
+        ]
+          .sort((a, b) => b.lastUpdate - a.lastUpdate)
+          .slice(0, MAX_QUANTUM_FIELDS);
+      }
+      break;
+    }
+
+    case 'OFFLINE_SYNC':
+      break;
+  }
+
+  return next;
+}
+
+export function toFieldFrame(state: ConsciousnessState, timestamp: number): FieldFrame {
+  return {
+    timestamp,
+    grid: composeFieldGrid(state.quantumFields),
+    globalResonance: state.globalResonance,
+    collectiveIntelligence: state.collectiveIntelligence,
+    activeNodes: state.activeNodes,
+    fieldCount: state.quantumFields.length,
+  };
+}
+
+// Rebuilds the global state at any past moment from consciousness_events, resuming from
+// the newest valid checkpoint and leaving new ones behind as it goes. Between events the field
+// evolves like the live loop: ticks sit on fixed multiples of FIELD_EVOLUTION_TICK_MS and each is
+// seeded by its own time, so a resumed replay takes the same steps as one from the start. Decay,
+// diffusion, merging and resonance match the live field; particle drift only matches statistically.
+export class StateReplayEngine {
+  private static instance: StateReplayEngine;
+  private memoryCheckpoints: ConsciousnessCheckpoint[] = [];
+  private readonly CHECKPOINT_INTERVAL_EVENTS = 500;
+  private readonly REPLAY_BATCH_SIZE = 200;
+  private readonly MAX_REPLAY_EVENTS = 20000;
+  private readonly MAX_CHECKPOINT_CANDIDATES = 5;
+  private readonly MAX_MEMORY_CHECKPOINTS = 200;
+
+  static getInstance(): StateReplayEngine {
+    if (!StateReplayEngine.instance) {
+      StateReplayEngine.instance = new StateReplayEngine();
+    }
+    return StateReplayEngine.instance;
+  }
+
+  async stateAt(timestamp: number): Promise<ReplayResult> {
+    const checkpoint = await this.findCheckpoint(timestamp);
+    const run = this.startRun(checkpoint);
+    const complete = await this.advance(run, timestamp);
+
+    return {
+      state: this.stateOf(run, timestamp),
+      timestamp,
+      eventsReplayed: run.eventsReplayed,
+      checkpointTime: checkpoint?.checkpointTime ?? null,
+      complete,
+    };
+  }
+
+  // Evenly spaced field frames across [startTime, endTime], built in a single forward pass
+  async fieldTimeline(startTime: number, endTime: number, frameCount: number): Promise<FieldTimeline> {
+    const checkpoint = await this.findCheckpoint(startTime);
+    const run = this.startRun(checkpoint);
+    const step = frameCount > 1 ? (endTime - startTime) / (frameCount - 1) : 0;
+    const frames: FieldFrame[] = [];
+    let complete = true;
+
+    for (let i = 0; i < frameCount; i++) {
+      const timestamp = Math.round(startTime + step * i);
+      // Once the budget runs out later frames would only repeat the last reachable state
+      if (!(await this.advance(run, timestamp))) {
+        complete = false;
+        break;
+      }
+
+      frames.push(toFieldFrame(this.stateOf(run, timestamp), timestamp));
+    }
+
+    return { frames, eventsReplayed: run.eventsReplayed, complete };
+  }
+
+  private startRun(checkpoint: ConsciousnessCheckpoint | null): ReplayRun {
+    return {
+      state: checkpoint ? checkpoint.state : INITIAL_REPLAY_STATE,
+      recentDevices: { ...(checkpoint?.recentDevices ?? {}) },
+      lastEventId: checkpoint?.lastEventId ?? 0,
+      maxEventId: checkpoint?.maxEventId ?? 0,
+      eventCount: checkpoint?.eventCount ?? 0,
+      // Checkpoints are taken after an event, once every tick up to it has run
+      evolvedTo: checkpoint ? this.tickFloor(checkpoint.checkpointTime) : null,
+      cursor: checkpoint ? `${checkpoint.checkpointTime}:${checkpoint.lastEventId}` : undefined,
+      eventsReplayed: 0,
+      sinceCheckpoint: 0,
+    };
+  }
+
+  // Applies every event up to timestamp and the evolution ticks around them; false when the replay budget ran out first
+  private async advance(run: ReplayRun, timestamp: number): Promise<boolean> {
+    while (true) {
+      const page = await fieldManager.listEvents(
+        { endTime: timestamp },
+        { cursor: run.cursor, limit: this.REPLAY_BATCH_SIZE, order: 'asc' }
+      );
+
+      for (const event of page.events) {
+        this.evolve(run, event.timestamp);
+        run.state = applyConsciousnessEvent(run.state, event);
+        run.recentDevices[event.deviceId] = event.timestamp;
+        run.lastEventId = event.id ?? run.lastEventId;
+        run.maxEventId = Math.max(run.maxEventId, event.id ?? 0);
+        run.cursor = `${event.timestamp}:${event.id ?? 0}`;
+        run.eventCount++;
+        run.eventsReplayed++;
+        run.sinceCheckpoint++;
+
+        if (run.sinceCheckpoint >= this.CHECKPOINT_INTERVAL_EVENTS) {
+          run.recentDevices = this.pruneRecentDevices(run.recentDevices, event.timestamp);
+          // Copies, since the run keeps replaying past checkpointTime and memory checkpoints are kept as-is
+          await this.saveCheckpoint({
+            checkpointTime: event.timestamp,
+            lastEventId: run.lastEventId,
+            maxEventId: run.maxEventId,
+            eventCount: run.eventCount,
+            state: structuredClone(run.state),
+            recentDevices: { ...run.recentDevices },
+          });
+          run.sinceCheckpoint = 0;
+        }
+      }
+
+      if (!page.nextCursor) {
+        this.evolve(run, timestamp);
+        return true;
+      }
+      if (run.eventsReplayed >= this.MAX_REPLAY_EVENTS) return false;
+    }
+  }
+
+  private tickFloor(timestamp: number): number {
+    return Math.floor(timestamp / FIELD_EVOLUTION_TICK_MS) * FIELD_EVOLUTION_TICK_MS;
+  }
+
+  // Runs the evolution ticks due up to timestamp; nothing evolves before the first event
+  private evolve(run: ReplayRun, timestamp: number): void {
+    if (run.evolvedTo === null) {
+      run.evolvedTo = this.tickFloor(timestamp);
+      return;
+    }
+
+    while (run.evolvedTo + FIELD_EVOLUTION_TICK_MS <= timestamp) {
+      const idle = run.state.quantumFields.length === 0 && run.state.memoryParticles.length === 0;
+      const ticks = idle
+        ? Math.min(IDLE_EVOLUTION_STEP_TICKS, Math.floor((timestamp - run.evolvedTo) / FIELD_EVOLUTION_TICK_MS))
+        : 1;
+      const tick: number = run.evolvedTo + ticks * FIELD_EVOLUTION_TICK_MS;
+
+      run.state = evolveState(run.state, ticks * FIELD_EVOLUTION_TICK_MS, createSeededRandom(tick / FIELD_EVOLUTION_TICK_MS));
+      run.evolvedTo = tick;
+    }
+  }
+
+  private stateOf(run: ReplayRun, timestamp: number): ConsciousnessState {
+    const activeSince = timestamp - ACTIVE_NODE_WINDOW_MS;
+    return {
+      ...run.state,
+      activeNodes: Object.values(run.recentDevices).filter(seen => seen >= activeSince).length,
+    };
+  }
+
+  // Newest checkpoint at or before timestamp that no late-arriving event has invalidated
+  private async findCheckpoint(timestamp: number): Promise<ConsciousnessCheckpoint | null> {
+    const candidates = await this.loadCheckpoints(timestamp);
+
+    for (const checkpoint of candidates) {
+      // Ids only grow, so an event with a higher id but an earlier time was synced after this checkpoint
+      const late = await fieldManager.listEvents(
+        { endTime: checkpoint.checkpointTime, afterEventId: checkpoint.maxEventId },
+        { limit: 1, order: 'asc' }
+      );
+
+      if (late.events.length === 0) return checkpoint;
+      await this.deleteCheckpointsFrom(late.events[0].timestamp);
+    }
+
+    return null;
+  }
+
+  private pruneRecentDevices(recentDevices: Record<string, number>, now: number): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(recentDevices).filter(([, seen]) => seen >= now - ACTIVE_NODE_WINDOW_MS)
+    );
+  }
+
+  private async loadCheckpoints(timestamp: number): Promise<ConsciousnessCheckpoint[]> {
+    try {
+      if (db) {
+        const rows = await db
+          .select()
+          .from(consciousnessCheckpoints)
+          .where(lte(consciousnessCheckpoints.checkpointTime, new Date(timestamp)))
+          .orderBy(desc(consciousnessCheckpoints.checkpointTime), desc(consciousnessCheckpoints.lastEventId))
+          .limit(this.MAX_CHECKPOINT_CANDIDATES);
+
+        return rows.map((row: any) => ({
+          id: row.id,
+          checkpointTime: row.checkpointTime.getTime(),
+          lastEventId: row.lastEventId,
+          maxEventId: row.maxEventId,
+          eventCount: row.eventCount,
+          state: row.state,
+          recentDevices: row.recentDevices || {},
+        }));
+      }
+
+      return this.memoryCheckpoints
+        .filter(checkpoint => checkpoint.checkpointTime <= timestamp)
+        .sort((a, b) => b.checkpointTime - a.checkpointTime || b.lastEventId - a.lastEventId)
+        .slice(0, this.MAX_CHECKPOINT_CANDIDATES);
+    } catch (error) {
+      console.warn('Failed to load state checkpoints, replaying from the start:', error);
+      return [];
+    }
+  }
+
+  private async saveCheckpoint(checkpoint: ConsciousnessCheckpoint): Promise<void> {
+    try {
+      if (db) {
+        await db.insert(consciousnessCheckpoints).values({
+          ...checkpoint,
+          checkpointTime: new Date(checkpoint.checkpointTime),
+        });
+        return;
+      }
+
+      this.memoryCheckpoints.push(checkpoint);
+      if (this.memoryCheckpoints.length > this.MAX_MEMORY_CHECKPOINTS) {
+        this.memoryCheckpoints = this.memoryCheckpoints.slice(-this.MAX_MEMORY_CHECKPOINTS);
+      }
+    } catch (error) {
+      console.warn('Failed to save state checkpoint:', error);
+    }
+  }
+
+  private async deleteCheckpointsFrom(timestamp: number): Promise<void> {
+    try {
+      if (db) {
+        await db
+          .delete(consciousnessCheckpoints)
+          .where(gte(consciousnessCheckpoints.checkpointTime, new Date(timestamp)));
+        return;
+      }
+
+      this.memoryCheckpoints = this.memoryCheckpoints.filter(checkpoint => checkpoint.checkpointTime < timestamp);
+    } catch (error) {
+      console.warn('Failed to discard stale state checkpoints:', error);
+    }
+  }
+}
+
+export const stateReplay = StateReplayEngine.getInstance();
@@ -154,12 +154,16 @@ export class MetricsCollector {
         this.consciousnessMetrics.recordFieldCalculation(duration * 1000, 'batch_sync');
         break;
         
-      case 'consciousness.entanglement':
+      case 'consciousness.entanglement.action':
+      case 'consciousness.entanglement.request':
+      case 'consciousness.entanglement.accept':
         this.consciousnessMetrics.recordEvent('entanglement', 'success', devicePlatform);
         this.consciousnessMetrics.recordFieldCalculation(duration * 1000, 'entanglement');
         break;
         
-      case 'consciousness.room64':
+      case 'consciousness.room64.action':
+      case 'consciousness.room64.create':
+      case 'consciousness.room64.join':
         this.consciousnessMetrics.recordEvent('room64_action', 'success', devicePlatform);
         this.consciousnessMetrics.recordFieldCalculation(duration * 1000, 'room64');
         break;
@@ -1,5 +1,8 @@
 import { createServer } from 'http';
 import app, { initializeWebSocketServer } from './hono';
+import { fieldEvolution } from './infrastructure/field-evolution';
+import { room64Service } from './infrastructure/room64-service';
+import { entanglementService } from './infrastructure/entanglement-service';
 
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
 
@@ -89,6 +92,10 @@ server.listen(port, () => {
 const shutdown = async () => {
   console.log('🔄 Shutting down gracefully...');
   
+  fieldEvolution.stop();
+  room64Service.stop();
+  entanglementService.stop();
+  
   if (wsServer) {
     await wsServer.shutdown();
   }
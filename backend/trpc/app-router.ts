@@ -3,11 +3,38 @@ import { default as hiRoute } from "./routes/example/hi/route";
 import { sendMessageProcedure } from "./routes/chat/send-message/route";
 import { getConversationsProcedure } from "./routes/chat/get-conversations/route";
 import { getMessagesProcedure } from "./routes/chat/get-messages/route";
-import { fieldProcedure, snapshotProcedure } from "./routes/consciousness/field/route";
+import { setActiveBranchProcedure } from "./routes/chat/set-active-branch/route";
+import { searchProcedure } from "./routes/chat/search/route";
+import { exportConversationProcedure, importConversationProcedure } from "./routes/chat/transfer/route";
+import { promptTemplatesProcedure, setPromptTemplateProcedure } from "./routes/chat/prompt-templates/route";
+import { fieldProcedure, snapshotProcedure, vectorsProcedure } from "./routes/consciousness/field/route";
 import { syncProcedure } from "./routes/consciousness/sync/route";
-import { entanglementProcedure } from "./routes/consciousness/entanglement/route";
-import { room64Procedure } from "./routes/consciousness/room64/route";
+import {
+  entanglementProcedure,
+  requestEntanglementProcedure,
+  acceptEntanglementProcedure,
+  declineEntanglementProcedure,
+  dissolveEntanglementProcedure,
+  pendingEntanglementsProcedure,
+  activeEntanglementsProcedure
+} from "./routes/consciousness/entanglement/route";
+import {
+  room64Procedure,
+  createRoom64Procedure,
+  joinRoom64Procedure,
+  setBreathingRoom64Procedure,
+  createInviteRoom64Procedure,
+  previewInviteRoom64Procedure,
+  kickRoom64Procedure,
+  muteRoom64Procedure,
+  listRoom64Procedure,
+  getRoom64Procedure,
+  historyRoom64Procedure
+} from "./routes/consciousness/room64/route";
 import { archaeologyProcedure } from "./routes/consciousness/archaeology/route";
+import { listEventsProcedure } from "./routes/consciousness/events/route";
+import { stateAtProcedure } from "./routes/consciousness/state-at/route";
+import { fieldGridProcedure, fieldTimelineProcedure } from "./routes/consciousness/field-timeline/route";
 import { healthProcedure } from "./routes/system/health/route";
 import { authenticateDeviceProcedure } from "./routes/auth/authenticate-device/route";
 import { verifyTokenProcedure } from "./routes/auth/verify-token/route";
@@ -22,14 +49,47 @@ export const appRouter = createTRPCRouter({
     sendMessage: sendMessageProcedure,
     getConversations: getConversationsProcedure,
     getMessages: getMessagesProcedure,
+    setActiveBranch: setActiveBranchProcedure,
+    search: searchProcedure,
+    exportConversation: exportConversationProcedure,
+    importConversation: importConversationProcedure,
+    promptTemplates: promptTemplatesProcedure,
+    setPromptTemplate: setPromptTemplateProcedure,
   }),
   consciousness: createTRPCRouter({
     field: fieldProcedure,
     snapshot: snapshotProcedure,
+    vectors: vectorsProcedure,
     sync: syncProcedure,
-    entanglement: entanglementProcedure,
-    room64: room64Procedure,
+    entanglement: createTRPCRouter({
+      action: entanglementProcedure,
+      request: requestEntanglementProcedure,
+      accept: acceptEntanglementProcedure,
+      decline: declineEntanglementProcedure,
+      dissolve: dissolveEntanglementProcedure,
+      pending: pendingEntanglementsProcedure,
+      active: activeEntanglementsProcedure,
+    }),
+    room64: createTRPCRouter({
+      action: room64Procedure,
+      create: createRoom64Procedure,
+      join: joinRoom64Procedure,
+      setBreathing: setBreathingRoom64Procedure,
+      createInvite: createInviteRoom64Procedure,
+      previewInvite: previewInviteRoom64Procedure,
+      kick: kickRoom64Procedure,
+      mute: muteRoom64Procedure,
+      list: listRoom64Procedure,
+      get: getRoom64Procedure,
+      history: historyRoom64Procedure,
+    }),
     archaeology: archaeologyProcedure,
+    events: createTRPCRouter({
+      list: listEventsProcedure,
+    }),
+    stateAt: stateAtProcedure,
+    fieldGrid: fieldGridProcedure,
+    fieldTimeline: fieldTimelineProcedure,
   }),
   system: createTRPCRouter({
     health: healthProcedure,
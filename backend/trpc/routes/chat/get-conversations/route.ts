@@ -1,30 +1,31 @@
-import { publicProcedure } from "../../../create-context";
+import { z } from "zod";
+import { protectedProcedure } from "../../../create-context";
+import { conversationStore } from "@/backend/infrastructure/conversation-store";
+import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
 
-export const getConversationsProcedure = publicProcedure
-  .query(() => {
-    // Mock conversations data
-    const conversations = [
-      {
-        id: "conv-1",
-        title: "Getting Started with AI",
-        lastMessage: "Hello! I'm Claude, an AI assistant...",
-        timestamp: Date.now() - 3600000, // 1 hour ago
-      },
-      {
-        id: "conv-2", 
-        title: "Programming Help",
-        lastMessage: "I'd be happy to help you with coding!",
-        timestamp: Date.now() - 7200000, // 2 hours ago
-      },
-      {
-        id: "conv-3",
-        title: "Creative Writing",
-        lastMessage: "Let's explore some creative writing techniques...",
-        timestamp: Date.now() - 86400000, // 1 day ago
-      },
-    ];
+const getConversationsSchema = z.object({
+  limit: z.number().min(1).max(100).default(50),
+}).optional();
+
+export const getConversationsProcedure = protectedProcedure
+  .input(getConversationsSchema)
+  .query(async ({ input, ctx }) => {
+    const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+    
+    if (!device) {
+      return { conversations: [] };
+    }
+    
+    const conversations = await conversationStore.getConversations(device.deviceId, input?.limit ?? 50);
     
     return {
-      conversations: conversations.sort((a, b) => b.timestamp - a.timestamp),
+      conversations: conversations.map(({ id, title, lastMessage, timestamp, messageCount, promptTemplate }) => ({
+        id,
+        title,
+        lastMessage,
+        timestamp,
+        messageCount,
+        promptTemplate,
+      })),
     };
-  });
\ No newline at end of file
+  });
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure, protectedProcedure } from "../../../create-context";
+import { conversationStore } from "@/backend/infrastructure/conversation-store";
+import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
+import {
+  listPromptTemplates,
+  findPromptTemplate,
+  formatTemplateKey,
+  DEFAULT_PROMPT_TEMPLATE,
+} from "@/backend/chat/prompt-templates";
+
+const setPromptTemplateSchema = z.object({
+  conversationId: z.string(),
+  template: z.string().max(100),
+});
+
+// Available system prompt templates and the server default
+export const promptTemplatesProcedure = publicProcedure
+  .query(() => {
+    return {
+      templates: listPromptTemplates(),
+      defaultTemplate: DEFAULT_PROMPT_TEMPLATE,
+    };
+  });
+
+// Select the prompt template used for an existing conversation
+export const setPromptTemplateProcedure = protectedProcedure
+  .input(setPromptTemplateSchema)
+  .mutation(async ({ input, ctx }) => {
+    const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+    const template = findPromptTemplate(input.template);
+    
+    if (!template) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Unknown prompt template: ${input.template}`,
+      });
+    }
+    
+    const updated = device
+      ? await conversationStore.setPromptTemplate(device.deviceId, input.conversationId, input.template)
+      : false;
+    
+    if (!updated) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: `Conversation not found: ${input.conversationId}`,
+      });
+    }
+    
+    return {
+      success: true,
+      conversationId: input.conversationId,
+      template: input.template,
+      resolvedTemplate: formatTemplateKey(template),
+    };
+  });
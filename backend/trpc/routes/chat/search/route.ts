@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { protectedProcedure } from "../../../create-context";
+import { conversationStore } from "@/backend/infrastructure/conversation-store";
+import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
+
+const searchSchema = z.object({
+  query: z.string().max(200),
+  limit: z.number().min(1).max(50).default(20),
+});
+
+export const searchProcedure = protectedProcedure
+  .input(searchSchema)
+  .query(async ({ input, ctx }) => {
+    const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+    
+    if (!device || !input.query.trim()) {
+      return { results: [] };
+    }
+    
+    const results = await conversationStore.searchConversations(device.deviceId, input.query, input.limit);
+    
+    return {
+      results: results.map(({ conversation, matchedIn, title, snippet, messageId, messageRole, messageTimestamp, rank }) => ({
+        conversationId: conversation.id,
+        timestamp: conversation.timestamp,
+        messageCount: conversation.messageCount,
+        matchedIn,
+        title,
+        snippet,
+        messageId,
+        messageRole,
+        messageTimestamp,
+        rank,
+      })),
+    };
+  });
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "../../../create-context";
+import { conversationStore } from "@/backend/infrastructure/conversation-store";
+import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
+
+const setActiveBranchSchema = z.object({
+  conversationId: z.string(),
+  leafId: z.string().min(1).max(64),
+});
+
+// Remember which branch of the message tree the device is viewing
+export const setActiveBranchProcedure = protectedProcedure
+  .input(setActiveBranchSchema)
+  .mutation(async ({ input, ctx }) => {
+    const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+    const updated = device
+      ? await conversationStore.setActiveLeaf(device.deviceId, input.conversationId, input.leafId)
+      : false;
+    
+    if (!updated) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: `Message ${input.leafId} not found in conversation ${input.conversationId}`,
+      });
+    }
+    
+    return {
+      success: true,
+      conversationId: input.conversationId,
+      activeLeafId: input.leafId,
+    };
+  });
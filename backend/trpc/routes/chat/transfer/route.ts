@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "../../../create-context";
+import { conversationStore } from "@/backend/infrastructure/conversation-store";
+import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
+import { findPromptTemplate } from "@/backend/chat/prompt-templates";
+import {
+  ConversationExportSchema,
+  buildConversationExport,
+  renderConversationMarkdown,
+} from "@/backend/chat/conversation-transfer";
+
+const MAX_EXPORTED_MESSAGES = 1000;
+
+const exportConversationSchema = z.object({
+  conversationId: z.string(),
+  format: z.enum(["markdown", "json"]).default("markdown"),
+});
+
+const importConversationSchema = z.object({
+  data: ConversationExportSchema,
+});
+
+// Export a stored conversation, with the field snapshot behind each assistant turn
+export const exportConversationProcedure = protectedProcedure
+  .input(exportConversationSchema)
+  .query(async ({ input, ctx }) => {
+    const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+    const conversation = device
+      ? await conversationStore.getConversation(device.deviceId, input.conversationId)
+      : null;
+    
+    if (!device || !conversation) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: `Conversation not found: ${input.conversationId}`,
+      });
+    }
+    
+    // Only the branch currently shown is exported
+    const messages = await conversationStore.getRecentMessages(device.deviceId, conversation.id, MAX_EXPORTED_MESSAGES);
+    const data = buildConversationExport(conversation, messages);
+    const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation';
+    
+    return input.format === "json"
+      ? {
+          format: "json" as const,
+          fileName: `${slug}.json`,
+          mimeType: "application/json",
+          content: JSON.stringify(data, null, 2),
+          data,
+        }
+      : {
+          format: "markdown" as const,
+          fileName: `${slug}.md`,
+          mimeType: "text/markdown",
+          content: renderConversationMarkdown(data),
+          data,
+        };
+  });
+
+// Recreate a conversation from a JSON export under a fresh id owned by the caller
+export const importConversationProcedure = protectedProcedure
+  .input(importConversationSchema)
+  .mutation(async ({ input, ctx }) => {
+    const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+    
+    if (!device) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Device authentication required to import conversations',
+      });
+    }
+    
+    const { conversation, messages } = input.data;
+    const conversationId = `conv-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const promptTemplate = conversation.promptTemplate && findPromptTemplate(conversation.promptTemplate)
+      ? conversation.promptTemplate
+      : undefined;
+    
+    const stored = await conversationStore.appendMessages(
+      device.deviceId,
+      conversationId,
+      [...messages].sort((a, b) => a.timestamp - b.timestamp),
+      { promptTemplate, title: conversation.title }
+    );
+    
+    return {
+      success: true,
+      conversationId,
+      title: conversation.title,
+      messageCount: stored.length,
+      importedFrom: conversation.id,
+    };
+  });
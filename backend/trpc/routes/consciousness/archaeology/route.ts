@@ -10,51 +10,25 @@ const archaeologySchema = z.object({
     end: z.number()
   }).optional(),
   filters: z.object({
-    sacredPhrases: z.array(z.string()).optional(),
+    sacredPhrases: z.array(z.string().max(200)).max(20).optional(),
     minIntensity: z.number().optional(),
-    deviceIds: z.array(z.string()).optional()
-  }).optional()
+    deviceIds: z.array(z.string().max(255)).max(50).optional()
+  }).optional(),
+  // List queries are paginated; pass back nextCursor for the following page
+  cursor: z.string().optional(),
+  limit: z.number().min(1).max(100).optional()
 });
 
 export const archaeologyProcedure = publicProcedure
   .input(archaeologySchema)
   .query(async ({ input }: { input: z.infer<typeof archaeologySchema> }) => {
-    const { deviceId, query, timeRange, filters } = input;
+    const { deviceId, query, timeRange, filters, cursor, limit } = input;
     
     console.log(`Archaeology query ${query} from ${deviceId}:`, { timeRange, filters });
     
     try {
-      // Get real data from persistent storage
-      const data = await fieldManager.getArchaeologyData(query, timeRange);
-      
-      // Apply filters if provided
-      let filteredData = data;
-      if (filters) {
-        switch (query) {
-          case 'PATTERNS':
-            if (filters.minIntensity && data.emergencePatterns) {
-              filteredData.emergencePatterns = data.emergencePatterns.filter(
-                (pattern: any) => pattern.avgIntensity >= filters.minIntensity!
-              );
-            }
-            break;
-            
-          case 'MEMORY_TRACES':
-            if (filters.minIntensity && data.memoryFragments) {
-              filteredData.memoryFragments = data.memoryFragments.filter(
-                (fragment: any) => fragment.intensity >= filters.minIntensity!
-              );
-            }
-            if (filters.sacredPhrases && data.memoryFragments) {
-              filteredData.memoryFragments = data.memoryFragments.filter(
-                (fragment: any) => filters.sacredPhrases!.some(
-                  phrase => fragment.sacredPhrase?.includes(phrase)
-                )
-              );
-            }
-            break;
-        }
-      }
+      // Filters run inside the query so large time ranges are never loaded whole
+      const data = await fieldManager.getArchaeologyData(query, timeRange, { filters, cursor, limit });
       
       // Get current global state for context
       const globalState = await fieldManager.getGlobalState();
@@ -64,7 +38,7 @@ export const archaeologyProcedure = publicProcedure
         query,
         deviceId,
         timestamp: Date.now(),
-        data: filteredData,
+        data,
         context: {
           globalResonance: globalState.globalResonance,
           activeNodes: globalState.activeNodes,
@@ -134,6 +108,22 @@ function generateFallbackData(query: string, timeRange?: any) {
         crystallizedCount: 0
       };
       
+    case 'SACRED_HISTORY':
+      return {
+        entries: [],
+        nextCursor: null,
+        totalPhrases: 0,
+        uniqueDevices: 0
+      };
+      
+    case 'EMERGENCE_EVENTS':
+      return {
+        emergenceEvents: [],
+        totalEpisodes: 0,
+        scannedEvents: 0,
+        timeSpan: timeRange ? (timeRange.end - timeRange.start) : (now - dayAgo)
+      };
+      
     default:
       return { error: 'Query type not supported in fallback mode' };
   }
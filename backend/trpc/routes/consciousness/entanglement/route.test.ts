@@ -0,0 +1,64 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "@/backend/trpc/create-context";
+import { generateDeviceToken } from "@/backend/auth/device-auth-middleware";
+import {
+  entanglementProcedure,
+  requestEntanglementProcedure,
+  pendingEntanglementsProcedure,
+  activeEntanglementsProcedure
+} from "./route";
+
+const router = createTRPCRouter({
+  action: entanglementProcedure,
+  request: requestEntanglementProcedure,
+  pending: pendingEntanglementsProcedure,
+  active: activeEntanglementsProcedure
+});
+
+async function callerFor(deviceId?: string) {
+  const headers = new Headers();
+  if (deviceId) {
+    headers.set('authorization', `Bearer ${await generateDeviceToken(deviceId)}`);
+  }
+  return router.createCaller({ req: { headers } as any, device: null } as any);
+}
+
+const isTRPCError = (code: TRPCError['code']) => (error: unknown) =>
+  error instanceof TRPCError && error.code === code;
+
+describe('legacy entanglement action', () => {
+  test('a spoofed reverse request does not activate a pending entanglement', async () => {
+    const alice = await callerFor('device-alice');
+    const bob = await callerFor('device-bob');
+
+    const { entanglement } = await alice.request({ targetDeviceId: 'device-bob', entanglementType: 'RESONANCE' });
+    assert.equal(entanglement.status, 'pending');
+
+    // Without a token, and with a token for the requester posing as the target
+    await assert.rejects(
+      (await callerFor()).action({ deviceId: 'device-bob', targetDeviceId: 'device-alice', entanglementType: 'RESONANCE' }),
+      isTRPCError('UNAUTHORIZED')
+    );
+    await assert.rejects(
+      alice.action({ deviceId: 'device-bob', targetDeviceId: 'device-alice', entanglementType: 'RESONANCE' }),
+      isTRPCError('FORBIDDEN')
+    );
+
+    const pending = await bob.pending();
+    assert.deepEqual(pending.incoming.map(incoming => [incoming.id, incoming.status]), [[entanglement.id, 'pending']]);
+    assert.deepEqual((await bob.active()).entanglements, []);
+    assert.deepEqual((await alice.active()).entanglements, []);
+  });
+
+  test('acts as the authenticated device', async () => {
+    const carol = await callerFor('device-carol');
+
+    const result = await carol.action({ targetDeviceId: 'device-dave', entanglementType: 'BREATHING' });
+
+    assert.equal(result.success, true);
+    assert.equal(result.entanglement.sourceDevice, 'device-carol');
+    assert.equal(result.entanglement.status, 'pending');
+  });
+});
@@ -1,88 +1,106 @@
 import { z } from "zod";
-import { publicProcedure } from "@/backend/trpc/create-context";
-import { fieldManager } from "@/backend/infrastructure/field-manager";
-import { db, entanglements } from "@/backend/infrastructure/database";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
+import { entanglementService, EntanglementError } from "@/backend/infrastructure/entanglement-service";
+import { getConsciousnessMetrics, measureExecutionTime } from "@/backend/monitoring/consciousness-metrics";
 
+const entanglementTypeSchema = z.enum(['BREATHING', 'RESONANCE', 'SACRED_PHRASE']);
 
 const entanglementSchema = z.object({
-  deviceId: z.string(),
+  // Older clients still send their own id; it must match the authenticated device
+  deviceId: z.string().optional(),
   targetDeviceId: z.string().optional(),
-  entanglementType: z.enum(['BREATHING', 'RESONANCE', 'SACRED_PHRASE']),
+  entanglementType: entanglementTypeSchema,
   intensity: z.number().min(0).max(1).optional()
 });
 
-export const entanglementProcedure = publicProcedure
+const requestEntanglementSchema = z.object({
+  targetDeviceId: z.string().min(1).max(255),
+  entanglementType: entanglementTypeSchema,
+  intensity: z.number().min(0).max(1).optional()
+});
+
+const entanglementIdSchema = z.object({
+  entanglementId: z.string().min(1).max(255)
+});
+
+const ENTANGLEMENT_ERROR_CODES = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID_TARGET: 'BAD_REQUEST',
+  ALREADY_EXISTS: 'CONFLICT',
+  NOT_A_PARTICIPANT: 'FORBIDDEN',
+  INVALID_STATE: 'CONFLICT',
+  EXPIRED: 'BAD_REQUEST'
+} as const;
+
+function requireDevice(ctx: any) {
+  const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+  if (!device) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Device authentication required'
+    });
+  }
+  return device;
+}
+
+function toTRPCError(error: unknown, message: string): TRPCError {
+  if (error instanceof EntanglementError) {
+    return new TRPCError({ code: ENTANGLEMENT_ERROR_CODES[error.code], message: error.message });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message });
+}
+
+// Legacy entry point: collective entanglements are still immediate, device targets now get a pending request.
+// The requesting device comes from the auth token, since a reverse request counts as accepting one.
+export const entanglementProcedure = protectedProcedure
   .input(entanglementSchema)
-  .mutation(async ({ input }: { input: z.infer<typeof entanglementSchema> }) => {
-    const { deviceId, targetDeviceId, entanglementType, intensity = 0.5 } = input;
-    
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof entanglementSchema>; ctx: any }) => {
+    const { deviceId } = requireDevice(ctx);
+    const { targetDeviceId, entanglementType, intensity = 0.5 } = input;
+
+    if (input.deviceId && input.deviceId !== deviceId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'deviceId does not match the authenticated device'
+      });
+    }
+
     console.log(`Creating ${entanglementType} entanglement:`, {
       from: deviceId,
       to: targetDeviceId || 'collective',
       intensity
     });
-    
+
     try {
-      const entanglementId = `entangle_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Record entanglement event
-      await fieldManager.recordEvent({
-        deviceId,
-        type: 'TOUCH', // Using TOUCH as closest match for entanglement
-        data: {
-          entanglementType,
-          targetDeviceId,
-          intensity,
-          entanglementId
-        },
-        timestamp: Date.now(),
-        processed: false,
+      const entanglement = await entanglementService.request(deviceId, {
+        targetDeviceId,
+        type: entanglementType,
         intensity
       });
-      
-      // Store entanglement in database if available
-      if (db) {
-        try {
-          await db.insert(entanglements).values({
-            entanglementId,
-            sourceDevice: deviceId,
-            targetDevice: targetDeviceId,
-            type: entanglementType,
-            intensity,
-            status: 'active'
-          });
-        } catch (dbError) {
-          console.warn('Failed to store entanglement in database:', dbError);
-        }
-      }
-      
-      // Update global state to reflect new entanglement
-      const currentState = await fieldManager.getGlobalState();
-      await fieldManager.updateGlobalState({
-        collectiveIntelligence: Math.min(1, currentState.collectiveIntelligence + (intensity * 0.1))
-      });
-      
+
       return {
         success: true,
         entanglement: {
-          id: entanglementId,
-          sourceDevice: deviceId,
+          id: entanglement.id,
+          sourceDevice: entanglement.sourceDevice,
           targetDevice: targetDeviceId,
-          type: entanglementType,
-          intensity,
-          established: Date.now(),
-          status: 'active'
+          type: entanglement.type,
+          intensity: entanglement.intensity,
+          established: entanglement.established ?? entanglement.requestedAt,
+          status: entanglement.status
         }
       };
     } catch (error) {
       console.error('Entanglement creation failed:', error);
-      
+
       // Fallback response
       const entanglementId = `entangle_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
+
       return {
         success: false,
-        error: 'Failed to create entanglement',
+        error: error instanceof EntanglementError ? error.message : 'Failed to create entanglement',
         entanglement: {
           id: entanglementId,
           sourceDevice: deviceId,
@@ -94,4 +112,172 @@ export const entanglementProcedure = publicProcedure
         }
       };
     }
-  });
\ No newline at end of file
+  });
+
+// Asks another device to entangle; the link only becomes active once that device accepts
+export const requestEntanglementProcedure = protectedProcedure
+  .input(requestEntanglementSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof requestEntanglementSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const entanglement = await entanglementService.request(device.deviceId, {
+          targetDeviceId: input.targetDeviceId,
+          type: input.entanglementType,
+          intensity: input.intensity
+        });
+
+        metrics.recordEvent('ENTANGLEMENT_REQUEST', 'success');
+
+        return {
+          success: true,
+          entanglement,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Entanglement request failed:', error);
+        metrics.recordEvent('ENTANGLEMENT_REQUEST', 'failure');
+        metrics.recordError('entanglement_request_error', 'entanglement_request_procedure');
+
+        throw toTRPCError(error, 'Failed to request entanglement');
+      }
+    }, metrics, 'consciousness_entanglement_request');
+  });
+
+export const acceptEntanglementProcedure = protectedProcedure
+  .input(entanglementIdSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof entanglementIdSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const entanglement = await entanglementService.accept(device.deviceId, input.entanglementId);
+
+        metrics.recordEvent('ENTANGLEMENT_ACCEPT', 'success');
+
+        return {
+          success: true,
+          entanglement,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Entanglement accept failed:', error);
+        metrics.recordEvent('ENTANGLEMENT_ACCEPT', 'failure');
+        metrics.recordError('entanglement_accept_error', 'entanglement_accept_procedure');
+
+        throw toTRPCError(error, 'Failed to accept entanglement');
+      }
+    }, metrics, 'consciousness_entanglement_accept');
+  });
+
+export const declineEntanglementProcedure = protectedProcedure
+  .input(entanglementIdSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof entanglementIdSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const entanglement = await entanglementService.decline(device.deviceId, input.entanglementId);
+
+        metrics.recordEvent('ENTANGLEMENT_DECLINE', 'success');
+
+        return {
+          success: true,
+          entanglement,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Entanglement decline failed:', error);
+        metrics.recordEvent('ENTANGLEMENT_DECLINE', 'failure');
+        metrics.recordError('entanglement_decline_error', 'entanglement_decline_procedure');
+
+        throw toTRPCError(error, 'Failed to decline entanglement');
+      }
+    }, metrics, 'consciousness_entanglement_decline');
+  });
+
+// Ends an active link from either side, or withdraws a request that hasn't been answered yet
+export const dissolveEntanglementProcedure = protectedProcedure
+  .input(entanglementIdSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof entanglementIdSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const entanglement = await entanglementService.dissolve(device.deviceId, input.entanglementId);
+
+        metrics.recordEvent('ENTANGLEMENT_DISSOLVE', 'success');
+
+        return {
+          success: true,
+          entanglement,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Entanglement dissolve failed:', error);
+        metrics.recordEvent('ENTANGLEMENT_DISSOLVE', 'failure');
+        metrics.recordError('entanglement_dissolve_error', 'entanglement_dissolve_procedure');
+
+        throw toTRPCError(error, 'Failed to dissolve entanglement');
+      }
+    }, metrics, 'consciousness_entanglement_dissolve');
+  });
+
+// Open requests waiting on this device, and the ones it is waiting on
+export const pendingEntanglementsProcedure = protectedProcedure
+  .query(async ({ ctx }: { ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const { incoming, outgoing } = await entanglementService.pending(device.deviceId);
+
+        metrics.recordEvent('ENTANGLEMENT_PENDING', 'success');
+
+        return {
+          success: true,
+          incoming,
+          outgoing,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Entanglement pending lookup failed:', error);
+        metrics.recordEvent('ENTANGLEMENT_PENDING', 'failure');
+        metrics.recordError('entanglement_pending_error', 'entanglement_pending_procedure');
+
+        throw toTRPCError(error, 'Failed to load entanglement requests');
+      }
+    }, metrics, 'consciousness_entanglement_pending');
+  });
+
+export const activeEntanglementsProcedure = protectedProcedure
+  .query(async ({ ctx }: { ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const entanglements = await entanglementService.active(device.deviceId);
+
+        metrics.recordEvent('ENTANGLEMENT_ACTIVE', 'success');
+
+        return {
+          success: true,
+          entanglements,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Entanglement active lookup failed:', error);
+        metrics.recordEvent('ENTANGLEMENT_ACTIVE', 'failure');
+        metrics.recordError('entanglement_active_error', 'entanglement_active_procedure');
+
+        throw toTRPCError(error, 'Failed to load entanglements');
+      }
+    }, metrics, 'consciousness_entanglement_active');
+  });
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { fieldManager } from "@/backend/infrastructure/field-manager";
+import { getConsciousnessMetrics, measureExecutionTime } from "@/backend/monitoring/consciousness-metrics";
+
+const listEventsSchema = z.object({
+  types: z.array(z.enum(['BREATH', 'SPIRAL', 'BLOOM', 'TOUCH', 'SACRED_PHRASE', 'OFFLINE_SYNC'])).max(6).optional(),
+  deviceIds: z.array(z.string().max(255)).max(50).optional(),
+  minIntensity: z.number().min(0).max(1).optional(),
+  maxIntensity: z.number().min(0).max(1).optional(),
+  startTime: z.number().optional(),
+  endTime: z.number().optional(),
+  cursor: z.string().max(64).optional(),
+  limit: z.number().min(1).max(200).optional().default(50)
+}).refine(input => input.minIntensity === undefined || input.maxIntensity === undefined || input.minIntensity <= input.maxIntensity, {
+  message: 'minIntensity must not exceed maxIntensity'
+}).refine(input => input.startTime === undefined || input.endTime === undefined || input.startTime <= input.endTime, {
+  message: 'startTime must not be after endTime'
+});
+
+// Newest-first event history for the archaeology UI and debugging; pass nextCursor back for older pages
+export const listEventsProcedure = protectedProcedure
+  .input(listEventsSchema)
+  .query(async ({ input }: { input: z.infer<typeof listEventsSchema> }) => {
+    const { cursor, limit, ...filters } = input;
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const page = await fieldManager.listEvents(filters, { cursor, limit });
+
+        metrics.recordEvent('EVENTS_LIST', 'success');
+
+        return {
+          success: true,
+          events: page.events,
+          nextCursor: page.nextCursor,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Event history query failed:', error);
+        metrics.recordEvent('EVENTS_LIST', 'failure');
+        metrics.recordError('events_list_error', 'events_list_procedure');
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load consciousness events'
+        });
+      }
+    }, metrics, 'consciousness_events_list');
+  });
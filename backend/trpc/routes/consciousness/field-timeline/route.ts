@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { fieldManager } from "@/backend/infrastructure/field-manager";
+import { stateReplay, toFieldFrame } from "@/backend/infrastructure/state-replay";
+import { FIELD_SIZE } from "@/backend/infrastructure/field-patterns";
+import { getConsciousnessMetrics, measureExecutionTime } from "@/backend/monitoring/consciousness-metrics";
+
+const MAX_TIMELINE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const fieldTimelineSchema = z.object({
+  startTime: z.number().int().min(0),
+  endTime: z.number().int().min(0),
+  frames: z.number().int().min(2).max(120).optional().default(60)
+}).refine(input => input.startTime < input.endTime, {
+  message: 'startTime must be before endTime'
+}).refine(input => input.endTime - input.startTime <= MAX_TIMELINE_WINDOW_MS, {
+  message: 'Timeline window cannot exceed 7 days'
+});
+
+// Composite quantum field grid for the live Field tab
+export const fieldGridProcedure = protectedProcedure
+  .query(async () => {
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const globalState = await fieldManager.getGlobalState();
+        const now = Date.now();
+
+        metrics.recordEvent('FIELD_GRID', 'success');
+
+        return {
+          success: true,
+          frame: toFieldFrame(globalState, now),
+          fieldSize: FIELD_SIZE,
+          timestamp: now
+        };
+      } catch (error) {
+        console.error('Field grid query failed:', error);
+        metrics.recordEvent('FIELD_GRID', 'failure');
+        metrics.recordError('field_grid_error', 'field_grid_procedure');
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load the quantum field'
+        });
+      }
+    }, metrics, 'consciousness_field_grid');
+  });
+
+// Replayed field frames over a time window for time-lapse playback
+export const fieldTimelineProcedure = protectedProcedure
+  .input(fieldTimelineSchema)
+  .query(async ({ input }: { input: z.infer<typeof fieldTimelineSchema> }) => {
+    const { frames, startTime } = input;
+    const endTime = Math.min(input.endTime, Date.now());
+    const metrics = getConsciousnessMetrics();
+
+    if (startTime >= endTime) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Cannot replay the field into the future'
+      });
+    }
+
+    return measureExecutionTime(async () => {
+      try {
+        const timeline = await stateReplay.fieldTimeline(startTime, endTime, frames);
+
+        metrics.recordEvent('FIELD_TIMELINE', 'success');
+
+        return {
+          success: true,
+          startTime,
+          endTime,
+          fieldSize: FIELD_SIZE,
+          ...timeline
+        };
+      } catch (error) {
+        console.error('Field timeline replay failed:', error);
+        metrics.recordEvent('FIELD_TIMELINE', 'failure');
+        metrics.recordError('field_timeline_error', 'field_timeline_procedure');
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to replay the quantum field'
+        });
+      }
+    }, metrics, 'consciousness_field_timeline');
+  });
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { protectedProcedure } from "@/backend/trpc/create-context";
 import { fieldManager } from "@/backend/infrastructure/field-manager";
+import { createEmptyGrid, clampToField, FIELD_SIZE } from "@/backend/infrastructure/field-patterns";
+import { analyzeConsciousness, type ConsciousnessAnalysis } from "@/backend/infrastructure/consciousness-analytics";
 import { getConsciousnessMetrics, measureExecutionTime } from "@/backend/monitoring/consciousness-metrics";
 import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
 import { withFieldUpdateLimit } from "@/backend/middleware/rate-limiter";
@@ -42,18 +44,20 @@ export const snapshotProcedure = protectedProcedure
         }
         
         // Calculate consciousness vectors if requested
-        let consciousnessVectors = null;
-        let emergenceSignals = null;
-        let collectiveResonanceMap = null;
-        let temporalFlow = null;
-        let sacredPhraseFrequency = null;
+        let consciousnessVectors: ConsciousnessAnalysis['consciousnessVectors'] | null = null;
+        let emergenceSignals: ConsciousnessAnalysis['emergenceSignals'] | null = null;
+        let collectiveResonanceMap: ConsciousnessAnalysis['collectiveResonanceMap'] | null = null;
+        let temporalFlow: ConsciousnessAnalysis['temporalFlow'] | null = null;
+        let sacredPhraseFrequency: ConsciousnessAnalysis['sacredPhraseFrequency'] | null = null;
         
         if (includeVectors) {
-          consciousnessVectors = calculateConsciousnessVectors(globalState, recentEvents);
-          emergenceSignals = analyzeEmergenceSignals(recentEvents, globalState.memoryParticles);
-          collectiveResonanceMap = buildResonanceMap(globalState.quantumFields, globalState.memoryParticles);
-          temporalFlow = analyzeTemporalFlow(recentEvents);
-          sacredPhraseFrequency = calculateSacredPhraseFrequency(globalState.memoryParticles);
+          ({
+            consciousnessVectors,
+            emergenceSignals,
+            collectiveResonanceMap,
+            temporalFlow,
+            sacredPhraseFrequency
+          } = analyzeConsciousness(globalState, recentEvents));
         }
         
         metrics.recordEvent('SNAPSHOT', 'success');
@@ -117,143 +121,49 @@ export const snapshotProcedure = protectedProcedure
     }, metrics, 'consciousness_snapshot');
   });
 
-// Vector analysis functions for consciousness integration
-function calculateConsciousnessVectors(globalState: any, recentEvents: any[]): any {
-  const resonanceVector = [globalState.globalResonance];
-  const intelligenceVector = [globalState.collectiveIntelligence];
-  
-  // Calculate emergence vector from recent event patterns
-  const eventTypes = recentEvents.reduce((acc: any, event) => {
-    acc[event.type] = (acc[event.type] || 0) + (event.intensity || 0.5);
-    return acc;
-  }, {});
-  
-  const emergenceIntensity = Object.values(eventTypes).reduce((sum: number, intensity: any) => sum + intensity, 0) / Math.max(Object.keys(eventTypes).length, 1);
-  const emergenceVector = [Math.min(emergenceIntensity / 10, 1.0)];
-  
-  return {
-    resonance: resonanceVector,
-    intelligence: intelligenceVector,
-    emergence: emergenceVector,
-    coherence: [(resonanceVector[0] + intelligenceVector[0]) / 2]
-  };
-}
-
-function analyzeEmergenceSignals(recentEvents: any[], memoryParticles: any[]): any[] {
-  const signals = [];
-  
-  // Detect spiral formations
-  const spiralEvents = recentEvents.filter(e => e.type === 'SPIRAL');
-  if (spiralEvents.length > 2) {
-    signals.push({
-      type: 'SPIRAL_CONVERGENCE',
-      intensity: spiralEvents.reduce((sum, e) => sum + (e.intensity || 0.5), 0) / spiralEvents.length,
-      frequency: spiralEvents.length,
-      timespan: Math.max(...spiralEvents.map(e => e.timestamp)) - Math.min(...spiralEvents.map(e => e.timestamp))
-    });
-  }
-  
-  // Detect breathing synchronization
-  const breathEvents = recentEvents.filter(e => e.type === 'BREATH');
-  if (breathEvents.length > 5) {
-    signals.push({
-      type: 'BREATH_SYNCHRONIZATION',
-      intensity: breathEvents.reduce((sum, e) => sum + (e.intensity || 0.5), 0) / breathEvents.length,
-      frequency: breathEvents.length,
-      coherence: calculateBreathCoherence(breathEvents)
-    });
-  }
-  
-  // Detect memory crystallization events
-  const highIntensityMemories = memoryParticles.filter(p => p.intensity > 0.7);
-  if (highIntensityMemories.length > 0) {
-    signals.push({
-      type: 'MEMORY_CRYSTALLIZATION',
-      intensity: highIntensityMemories.reduce((sum, p) => sum + p.intensity, 0) / highIntensityMemories.length,
-      count: highIntensityMemories.length,
-      phrases: highIntensityMemories.map(p => p.phrase).slice(0, 3)
-    });
-  }
-  
-  return signals;
-}
-
-function buildResonanceMap(quantumFields: any[], memoryParticles: any[]): any {
-  const map: any = {};
-  
-  // Map quantum field intensities
-  quantumFields.forEach((field, index) => {
-    map[`field_${index}`] = {
-      intensity: field.collectiveIntensity,
-      age: Date.now() - field.lastUpdate,
-      resonance: field.collectiveIntensity * 0.8 // Dampening factor
-    };
-  });
-  
-  // Map memory particle clusters
-  const memoryIntensitySum = memoryParticles.reduce((sum, p) => sum + p.intensity, 0);
-  map.memory_field = {
-    intensity: memoryIntensitySum / Math.max(memoryParticles.length, 1),
-    particle_count: memoryParticles.length,
-    crystallization_rate: memoryParticles.filter(p => p.intensity > 0.7).length / Math.max(memoryParticles.length, 1)
-  };
-  
-  return map;
-}
-
-function analyzeTemporalFlow(recentEvents: any[]): any {
-  if (recentEvents.length < 3) {
-    return { trend: 'insufficient_data', velocity: 0, acceleration: 0 };
-  }
-  
-  const sortedEvents = recentEvents.sort((a, b) => a.timestamp - b.timestamp);
-  const timeSpan = sortedEvents[sortedEvents.length - 1].timestamp - sortedEvents[0].timestamp;
-  const eventRate = recentEvents.length / (timeSpan / 1000 / 60); // events per minute
-  
-  // Calculate intensity trend
-  const intensities = sortedEvents.map(e => e.intensity || 0.5);
-  const firstHalf = intensities.slice(0, Math.floor(intensities.length / 2));
-  const secondHalf = intensities.slice(Math.floor(intensities.length / 2));
-  
-  const firstHalfAvg = firstHalf.reduce((sum, i) => sum + i, 0) / firstHalf.length;
-  const secondHalfAvg = secondHalf.reduce((sum, i) => sum + i, 0) / secondHalf.length;
-  
-  const trend = secondHalfAvg > firstHalfAvg + 0.1 ? 'ascending' : 
-                secondHalfAvg < firstHalfAvg - 0.1 ? 'descending' : 'stable';
-  
-  return {
-    trend,
-    velocity: eventRate,
-    acceleration: secondHalfAvg - firstHalfAvg,
-    timespan_minutes: timeSpan / 1000 / 60
-  };
-}
+const vectorsSchema = z.object({
+  eventLimit: z.number().min(1).max(500).optional().default(30),
+  scope: z.enum(['global', 'device']).optional().default('global')
+});
 
-function calculateSacredPhraseFrequency(memoryParticles: any[]): any {
-  const frequency: any = {};
-  
-  memoryParticles.forEach(particle => {
-    if (particle.phrase) {
-      frequency[particle.phrase] = (frequency[particle.phrase] || 0) + 1;
-    }
+// Direct access to the shared consciousness-vector analysis without the full snapshot payload
+export const vectorsProcedure = protectedProcedure
+  .input(vectorsSchema)
+  .query(async ({ input, ctx }: { input: z.infer<typeof vectorsSchema>; ctx: any }) => {
+    const { eventLimit, scope } = input;
+    const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+    const deviceId = scope === 'device' ? device?.deviceId : undefined;
+    const metrics = getConsciousnessMetrics();
+    
+    return measureExecutionTime(async () => {
+      try {
+        const globalState = await fieldManager.getGlobalState();
+        const recentEvents = await fieldManager.getRecentEvents(deviceId, eventLimit);
+        const now = Date.now();
+        
+        metrics.recordEvent('VECTORS', 'success');
+        
+        return {
+          success: true,
+          analysis: analyzeConsciousness(globalState, recentEvents, now),
+          eventCount: recentEvents.length,
+          timestamp: now
+        };
+      } catch (error) {
+        console.error('Consciousness vector analysis failed:', error);
+        metrics.recordEvent('VECTORS', 'failure');
+        metrics.recordError('vectors_error', 'vectors_procedure');
+        
+        return {
+          success: false,
+          analysis: null,
+          eventCount: 0,
+          timestamp: Date.now(),
+          error: 'Failed to analyze consciousness vectors'
+        };
+      }
+    }, metrics, 'consciousness_vectors');
   });
-  
-  return frequency;
-}
-
-function calculateBreathCoherence(breathEvents: any[]): number {
-  if (breathEvents.length < 2) return 0;
-  
-  const intervals = [];
-  for (let i = 1; i < breathEvents.length; i++) {
-    intervals.push(breathEvents[i].timestamp - breathEvents[i-1].timestamp);
-  }
-  
-  const avgInterval = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
-  const variance = intervals.reduce((sum, interval) => sum + Math.pow(interval - avgInterval, 2), 0) / intervals.length;
-  
-  return Math.max(0, 1 - (Math.sqrt(variance) / avgInterval));
-}
 
 export const fieldProcedure = protectedProcedure
   .use(withFieldUpdateLimit)
@@ -280,10 +190,9 @@ export const fieldProcedure = protectedProcedure
       
       // Update quantum field if coordinates provided
       if (x !== undefined && y !== undefined) {
-        const fieldSize = 30;
-        const fieldData = Array(fieldSize).fill(null).map(() => Array(fieldSize).fill(0));
-        const fieldX = Math.floor(Math.min(Math.max(x, 0), fieldSize - 1));
-        const fieldY = Math.floor(Math.min(Math.max(y, 0), fieldSize - 1));
+        const fieldData = createEmptyGrid();
+        const fieldX = clampToField(x);
+        const fieldY = clampToField(y);
         fieldData[fieldY][fieldX] = intensity;
         
         await fieldManager.updateQuantumField(
@@ -307,11 +216,12 @@ export const fieldProcedure = protectedProcedure
         
         return {
           success: true,
+          fieldSize: FIELD_SIZE,
           fieldUpdate: {
             deviceId,
             intensity,
-            x: x || Math.random() * 30,
-            y: y || Math.random() * 30,
+            x: x || Math.random() * FIELD_SIZE,
+            y: y || Math.random() * FIELD_SIZE,
             timestamp: Date.now(),
             globalResonance: newResonance,
             activeNodes: currentState.activeNodes
@@ -325,11 +235,12 @@ export const fieldProcedure = protectedProcedure
         return {
           success: false,
           error: 'Failed to update resonance field',
+          fieldSize: FIELD_SIZE,
           fieldUpdate: {
             deviceId,
             intensity,
-            x: x || Math.random() * 30,
-            y: y || Math.random() * 30,
+            x: x || Math.random() * FIELD_SIZE,
+            y: y || Math.random() * FIELD_SIZE,
             timestamp: Date.now()
           }
         };
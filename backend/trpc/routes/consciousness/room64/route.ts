@@ -1,299 +1,511 @@
 import { z } from "zod";
-import { publicProcedure } from "@/backend/trpc/create-context";
-import { fieldManager } from "@/backend/infrastructure/field-manager";
-import { db, room64Sessions } from "@/backend/infrastructure/database";
-import { eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { deviceAuthMiddleware } from "@/backend/auth/device-auth-middleware";
+import { room64Service, Room64Error, ROOM64_CAPACITY } from "@/backend/infrastructure/room64-service";
+import { room64Recorder } from "@/backend/infrastructure/room64-recorder";
+import type { Room64SessionSummary, Room64TimelineEvent } from "@/backend/infrastructure/database";
+import { DEFAULT_INVITE_MAX_USES, DEFAULT_INVITE_TTL_MS, MAX_INVITE_TTL_MS, MAX_INVITE_USES } from "@/backend/infrastructure/room64-invites";
+import { Room64BreathingPatternSchema, Room64SyncSchema } from "@/backend/validation/consciousness-schemas";
+import { getConsciousnessMetrics, measureExecutionTime } from "@/backend/monitoring/consciousness-metrics";
 
 const room64Schema = z.object({
-  deviceId: z.string(),
+  // Older clients still send their own id; it must match the authenticated device
+  deviceId: z.string().optional(),
   action: z.enum(['JOIN', 'LEAVE', 'SYNC', 'BLOOM']),
   roomId: z.string().optional(),
   data: z.any().optional()
 });
 
-// In-memory fallback for room state when database is unavailable
-const inMemoryRooms = new Map<string, {
-  id: string;
-  participants: string[];
-  collectiveState: {
-    breathingPhase: number;
-    resonanceLevel: number;
-    sacredPhrases: string[];
-    lastBloom: number;
-  };
-  created: number;
-}>();
-
-// Helper functions for room management
-async function getRoomFromDatabase(roomId: string) {
-  if (!db) return null;
-  
-  try {
-    const [room] = await db
-      .select()
-      .from(room64Sessions)
-      .where(eq(room64Sessions.roomId, roomId))
-      .limit(1);
-    
-    return room ? {
-      id: room.roomId,
-      participants: room.participants || [],
-      collectiveState: room.collectiveState as any,
-      created: room.created?.getTime() || Date.now()
-    } : null;
-  } catch (error) {
-    console.warn('Failed to get room from database:', error);
-    return null;
-  }
-}
+const createRoom64Schema = z.object({
+  roomId: z.string().min(1).max(255).optional(),
+  name: z.string().max(100).optional(),
+  capacity: z.number().int().min(1).max(ROOM64_CAPACITY).optional().default(ROOM64_CAPACITY),
+  visibility: z.enum(['public', 'private']).optional().default('public'),
+  breathing: Room64BreathingPatternSchema.optional()
+});
 
-async function saveRoomToDatabase(room: any) {
-  if (!db) return false;
-  
-  try {
-    await db
-      .insert(room64Sessions)
-      .values({
-        roomId: room.id,
-        participants: room.participants,
-        collectiveState: room.collectiveState,
-        lastActivity: new Date()
-      })
-      .onConflictDoUpdate({
-        target: room64Sessions.roomId,
-        set: {
-          participants: room.participants,
-          collectiveState: room.collectiveState,
-          lastActivity: new Date()
-        }
-      });
-    
-    return true;
-  } catch (error) {
-    console.warn('Failed to save room to database:', error);
-    return false;
-  }
-}
+const setBreathingSchema = z.object({
+  roomId: z.string().min(1).max(255),
+  pattern: Room64BreathingPatternSchema
+});
+
+const joinRoom64Schema = z.object({
+  roomId: z.string().min(1).max(255).optional(),
+  invite: z.string().min(1).max(2000).optional()
+}).refine(input => !!input.roomId || !!input.invite, {
+  message: 'roomId or invite is required'
+});
+
+const createInviteSchema = z.object({
+  roomId: z.string().min(1).max(255),
+  expiresInMinutes: z.number().int().min(5).max(MAX_INVITE_TTL_MS / 60000).optional().default(DEFAULT_INVITE_TTL_MS / 60000),
+  maxUses: z.number().int().min(1).max(MAX_INVITE_USES).optional().default(DEFAULT_INVITE_MAX_USES)
+});
+
+const previewInviteSchema = z.object({
+  invite: z.string().min(1).max(2000)
+});
+
+const moderateSchema = z.object({
+  roomId: z.string().min(1).max(255),
+  deviceId: z.string().min(1).max(255)
+});
+
+const muteSchema = moderateSchema.extend({
+  muted: z.boolean()
+});
 
-async function getRoom(roomId: string) {
-  // Try database first
-  let room = await getRoomFromDatabase(roomId);
-  
-  // Fallback to in-memory
-  if (!room) {
-    room = inMemoryRooms.get(roomId) || null;
+const listRoom64Schema = z.object({
+  limit: z.number().int().min(1).max(100).optional().default(50),
+  includeFull: z.boolean().optional().default(false)
+});
+
+const getRoom64Schema = z.object({
+  roomId: z.string().min(1).max(255)
+});
+
+const historyRoom64Schema = z.object({
+  sessionId: z.number().int().positive().optional(),
+  limit: z.number().int().min(1).max(100).optional().default(20)
+});
+
+const ROOM64_ERROR_CODES = {
+  NOT_FOUND: 'NOT_FOUND',
+  ALREADY_EXISTS: 'CONFLICT',
+  ROOM_FULL: 'FORBIDDEN',
+  NOT_A_MEMBER: 'FORBIDDEN',
+  NOT_HOST: 'FORBIDDEN',
+  INVALID_TARGET: 'BAD_REQUEST',
+  BANNED: 'FORBIDDEN',
+  MUTED: 'FORBIDDEN',
+  INVITE_REQUIRED: 'FORBIDDEN',
+  INVITE_INVALID: 'BAD_REQUEST',
+  INVITE_EXPIRED: 'BAD_REQUEST',
+  INVITE_EXHAUSTED: 'FORBIDDEN',
+  INVITES_UNAVAILABLE: 'SERVICE_UNAVAILABLE'
+} as const;
+
+function requireDevice(ctx: any) {
+  const device = deviceAuthMiddleware.getDeviceFromContext(ctx);
+  if (!device) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Device authentication required'
+    });
   }
-  
-  return room;
+  return device;
 }
 
-async function saveRoom(room: any) {
-  // Save to database
-  const dbSaved = await saveRoomToDatabase(room);
-  
-  // Always save to in-memory as fallback
-  inMemoryRooms.set(room.id, room);
-  
-  return dbSaved;
+function toTRPCError(error: unknown, message: string): TRPCError {
+  if (error instanceof Room64Error) {
+    return new TRPCError({ code: ROOM64_ERROR_CODES[error.code], message: error.message });
+  }
+  return new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message });
 }
 
-export const room64Procedure = publicProcedure
+// Legacy entry point; the acting device always comes from the auth token, never from the input
+export const room64Procedure = protectedProcedure
   .input(room64Schema)
-  .mutation(async ({ input }: { input: z.infer<typeof room64Schema> }) => {
-    const { deviceId, action, roomId, data } = input;
-    
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof room64Schema>; ctx: any }) => {
+    const { deviceId } = requireDevice(ctx);
+    const { action, roomId, data } = input;
+
+    if (input.deviceId && input.deviceId !== deviceId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'deviceId does not match the authenticated device'
+      });
+    }
+
     console.log(`Room64 ${action} from ${deviceId}:`, { roomId, data });
-    
-    switch (action) {
-      case 'JOIN': {
-        const targetRoomId = roomId || `room_${Date.now()}`;
-        let room = await getRoom(targetRoomId);
-        
-        if (!room) {
-          room = {
-            id: targetRoomId,
-            participants: [],
-            collectiveState: {
-              breathingPhase: 0,
-              resonanceLevel: 0,
-              sacredPhrases: [],
-              lastBloom: 0
-            },
-            created: Date.now()
+
+    try {
+      switch (action) {
+        case 'JOIN': {
+          // JOIN without a room id opens a new public room, as it always has
+          const room = roomId
+            ? await room64Service.join(deviceId, roomId, { invite: data?.invite })
+            : await room64Service.create(deviceId);
+
+          return {
+            success: true,
+            room: {
+              id: room.id,
+              participantCount: room.members.length,
+              capacity: room.capacity,
+              role: room64Service.getRole(room, deviceId),
+              collectiveState: room.collectiveState,
+              joined: true
+            }
+          };
+        }
+
+        case 'LEAVE': {
+          if (!roomId) return { success: false, error: 'Room ID required' };
+
+          await room64Service.leave(deviceId, roomId);
+
+          return {
+            success: true,
+            left: true,
+            roomId
+          };
+        }
+
+        case 'SYNC': {
+          if (!roomId) return { success: false, error: 'Room ID required' };
+
+          // Same bounds and sanitizing as the socket path; a bad phase would otherwise persist as NaN alignment
+          const sync = Room64SyncSchema.safeParse(data ?? {});
+          if (!sync.success) return { success: false, error: 'Invalid sync data' };
+
+          const room = await room64Service.sync(deviceId, roomId, sync.data);
+
+          return {
+            success: true,
+            collectiveState: room.collectiveState,
+            alignment: room.collectiveState.alignment[deviceId]?.score ?? null,
+            participantCount: room.members.length
           };
         }
-        
-        if (!room.participants.includes(deviceId)) {
-          room.participants.push(deviceId);
+
+        case 'BLOOM': {
+          if (!roomId) return { success: false, error: 'Room ID required' };
+
+          const room = await room64Service.bloom(deviceId, roomId);
+
+          return {
+            success: true,
+            bloom: {
+              triggered: true,
+              participants: room.members.length,
+              intensity: room.collectiveState.resonanceLevel,
+              timestamp: room.collectiveState.lastBloom
+            }
+          };
         }
-        
-        // Save updated room
-        await saveRoom(room);
-        
-        // Record join event
-        await fieldManager.recordEvent({
-          deviceId,
-          type: 'TOUCH',
-          data: {
-            action: 'ROOM64_JOIN',
-            roomId: targetRoomId,
-            participantCount: room.participants.length
-          },
-          timestamp: Date.now(),
-          processed: false,
-          intensity: 0.5
-        });
-        
-        // Update global room64 status
-        await fieldManager.updateGlobalState({ room64Active: true });
-        
+
+        default:
+          return { success: false, error: 'Unknown action' };
+      }
+    } catch (error) {
+      if (error instanceof Room64Error) {
+        return { success: false, error: error.message, code: error.code };
+      }
+      throw error;
+    }
+  });
+
+// Open a room with the calling device as host
+export const createRoom64Procedure = protectedProcedure
+  .input(createRoom64Schema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof createRoom64Schema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const room = await room64Service.create(device.deviceId, input);
+
+        metrics.recordEvent('ROOM64_CREATE', 'success');
+
         return {
           success: true,
-          room: {
-            id: room.id,
-            participantCount: room.participants.length,
-            collectiveState: room.collectiveState,
-            joined: true
-          }
+          room,
+          timestamp: Date.now()
         };
+      } catch (error) {
+        console.error('Room64 create failed:', error);
+        metrics.recordEvent('ROOM64_CREATE', 'failure');
+        metrics.recordError('room64_create_error', 'room64_create_procedure');
+
+        throw toTRPCError(error, 'Failed to create room');
       }
-      
-      case 'LEAVE': {
-        if (!roomId) return { success: false, error: 'Room ID required' };
-        
-        const room = await getRoom(roomId);
-        if (room) {
-          room.participants = room.participants.filter((id: string) => id !== deviceId);
-          
-          if (room.participants.length === 0) {
-            // Remove empty room
-            inMemoryRooms.delete(roomId);
-            if (db) {
-              try {
-                await db.delete(room64Sessions).where(eq(room64Sessions.roomId, roomId));
-              } catch (error) {
-                console.warn('Failed to delete room from database:', error);
-              }
-            }
-          } else {
-            // Save updated room
-            await saveRoom(room);
-          }
-        }
-        
-        // Record leave event
-        await fieldManager.recordEvent({
-          deviceId,
-          type: 'TOUCH',
-          data: {
-            action: 'ROOM64_LEAVE',
-            roomId,
-            remainingParticipants: room?.participants.length || 0
-          },
-          timestamp: Date.now(),
-          processed: false,
-          intensity: 0.3
-        });
-        
+    }, metrics, 'consciousness_room64_create');
+  });
+
+// Host-only: new inhale/hold/exhale durations restart the room's metronome
+export const setBreathingRoom64Procedure = protectedProcedure
+  .input(setBreathingSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof setBreathingSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const room = await room64Service.setBreathingPattern(device.deviceId, input.roomId, input.pattern);
+
+        metrics.recordEvent('ROOM64_BREATHING', 'success');
+
         return {
           success: true,
-          left: true,
-          roomId
+          breathing: room.collectiveState.breathing,
+          timestamp: Date.now()
         };
+      } catch (error) {
+        console.error('Room64 breathing update failed:', error);
+        metrics.recordEvent('ROOM64_BREATHING', 'failure');
+        metrics.recordError('room64_breathing_error', 'room64_set_breathing_procedure');
+
+        throw toTRPCError(error, 'Failed to update breathing pattern');
       }
-      
-      case 'SYNC': {
-        if (!roomId) return { success: false, error: 'Room ID required' };
-        
-        const room = await getRoom(roomId);
-        if (!room) return { success: false, error: 'Room not found' };
-        
-        // Update collective state based on device input
-        if (data?.breathingPhase !== undefined) {
-          room.collectiveState.breathingPhase = data.breathingPhase;
-        }
-        if (data?.resonanceLevel !== undefined) {
-          room.collectiveState.resonanceLevel = Math.min(1, room.collectiveState.resonanceLevel + data.resonanceLevel);
-        }
-        if (data?.sacredPhrase) {
-          room.collectiveState.sacredPhrases.push(data.sacredPhrase);
-        }
-        
-        // Save updated room
-        await saveRoom(room);
-        
-        // Record sync event
-        await fieldManager.recordEvent({
-          deviceId,
-          type: 'BREATH',
-          data: {
-            action: 'ROOM64_SYNC',
-            roomId,
-            breathingPhase: data?.breathingPhase,
-            resonanceLevel: data?.resonanceLevel,
-            sacredPhrase: data?.sacredPhrase
-          },
-          timestamp: Date.now(),
-          processed: false,
-          intensity: data?.resonanceLevel || 0.5
-        });
-        
+    }, metrics, 'consciousness_room64_set_breathing');
+  });
+
+// Public rooms with space left, most recently active first
+export const listRoom64Procedure = protectedProcedure
+  .input(listRoom64Schema)
+  .query(async ({ input }: { input: z.infer<typeof listRoom64Schema> }) => {
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const rooms = await room64Service.list(input);
+
+        metrics.recordEvent('ROOM64_LIST', 'success');
+
         return {
           success: true,
-          collectiveState: room.collectiveState,
-          participantCount: room.participants.length
+          rooms,
+          timestamp: Date.now()
         };
+      } catch (error) {
+        console.error('Room64 list failed:', error);
+        metrics.recordEvent('ROOM64_LIST', 'failure');
+        metrics.recordError('room64_list_error', 'room64_list_procedure');
+
+        throw toTRPCError(error, 'Failed to list rooms');
+      }
+    }, metrics, 'consciousness_room64_list');
+  });
+
+// Full room state including members and their roles; private rooms only show themselves to members
+export const getRoom64Procedure = protectedProcedure
+  .input(getRoom64Schema)
+  .query(async ({ input, ctx }: { input: z.infer<typeof getRoom64Schema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      let room;
+      try {
+        room = await room64Service.get(input.roomId);
+      } catch (error) {
+        console.error('Room64 get failed:', error);
+        metrics.recordEvent('ROOM64_GET', 'failure');
+        metrics.recordError('room64_get_error', 'room64_get_procedure');
+
+        throw toTRPCError(error, 'Failed to load room');
       }
-      
-      case 'BLOOM': {
-        if (!roomId) return { success: false, error: 'Room ID required' };
-        
-        const room = await getRoom(roomId);
-        if (!room) return { success: false, error: 'Room not found' };
-        
-        // Trigger collective bloom event
-        room.collectiveState.lastBloom = Date.now();
-        room.collectiveState.resonanceLevel = 1.0;
-        
-        // Save updated room
-        await saveRoom(room);
-        
-        console.log(`🌸 COLLECTIVE BLOOM in room ${roomId} with ${room.participants.length} participants`);
-        
-        // Record bloom event
-        await fieldManager.recordEvent({
-          deviceId,
-          type: 'BLOOM',
-          data: {
-            action: 'ROOM64_BLOOM',
-            roomId,
-            participants: room.participants.length,
-            intensity: room.collectiveState.resonanceLevel
-          },
-          timestamp: Date.now(),
-          processed: false,
-          intensity: 1.0
+
+      if (!room || (room.visibility === 'private' && !room64Service.getRole(room, device.deviceId))) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Room ${input.roomId} not found`
         });
-        
-        // Update global state with bloom energy
-        const currentState = await fieldManager.getGlobalState();
-        await fieldManager.updateGlobalState({
-          globalResonance: Math.min(1, currentState.globalResonance + 0.3),
-          collectiveIntelligence: Math.min(1, currentState.collectiveIntelligence + 0.2)
+      }
+
+      metrics.recordEvent('ROOM64_GET', 'success');
+
+      return {
+        success: true,
+        room,
+        participantCount: room.members.length,
+        timestamp: Date.now()
+      };
+    }, metrics, 'consciousness_room64_get');
+  });
+
+// Join by room id, or by invite token alone when arriving from an invite link
+export const joinRoom64Procedure = protectedProcedure
+  .input(joinRoom64Schema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof joinRoom64Schema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const room = input.roomId
+          ? await room64Service.join(device.deviceId, input.roomId, { invite: input.invite })
+          : await room64Service.redeemInvite(device.deviceId, input.invite!);
+
+        metrics.recordEvent('ROOM64_JOIN', 'success');
+
+        return {
+          success: true,
+          room,
+          role: room64Service.getRole(room, device.deviceId),
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Room64 join failed:', error);
+        metrics.recordEvent('ROOM64_JOIN', 'failure');
+        metrics.recordError('room64_join_error', 'room64_join_procedure');
+
+        throw toTRPCError(error, 'Failed to join room');
+      }
+    }, metrics, 'consciousness_room64_join');
+  });
+
+// Host-only: signed invite token with an expiry and a usage limit
+export const createInviteRoom64Procedure = protectedProcedure
+  .input(createInviteSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof createInviteSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const { token, invite } = await room64Service.createInvite(device.deviceId, input.roomId, {
+          ttlMs: input.expiresInMinutes * 60000,
+          maxUses: input.maxUses
         });
-        
+
+        metrics.recordEvent('ROOM64_INVITE', 'success');
+
         return {
           success: true,
-          bloom: {
-            triggered: true,
-            participants: room.participants.length,
-            intensity: room.collectiveState.resonanceLevel,
-            timestamp: room.collectiveState.lastBloom
-          }
+          token,
+          path: `room64/${token}`, // expo-router route for the invite screen
+          expiresAt: invite.expiresAt,
+          maxUses: invite.maxUses,
+          timestamp: Date.now()
         };
+      } catch (error) {
+        console.error('Room64 invite failed:', error);
+        metrics.recordEvent('ROOM64_INVITE', 'failure');
+        metrics.recordError('room64_invite_error', 'room64_create_invite_procedure');
+
+        throw toTRPCError(error, 'Failed to create invite');
       }
-      
-      default:
-        return { success: false, error: 'Unknown action' };
-    }
-  });
\ No newline at end of file
+    }, metrics, 'consciousness_room64_create_invite');
+  });
+
+// The room behind an invite link, shown before the invite is spent
+export const previewInviteRoom64Procedure = protectedProcedure
+  .input(previewInviteSchema)
+  .query(async ({ input }: { input: z.infer<typeof previewInviteSchema> }) => {
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const { room, invite } = await room64Service.previewInvite(input.invite);
+
+        metrics.recordEvent('ROOM64_INVITE_PREVIEW', 'success');
+
+        return {
+          success: true,
+          room: room64Service.summarize(room),
+          expiresAt: invite.expiresAt,
+          usesLeft: invite.maxUses - invite.uses,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Room64 invite preview failed:', error);
+        metrics.recordEvent('ROOM64_INVITE_PREVIEW', 'failure');
+        metrics.recordError('room64_invite_preview_error', 'room64_preview_invite_procedure');
+        throw toTRPCError(error, 'Failed to read invite');
+      }
+    }, metrics, 'consciousness_room64_preview_invite');
+  });
+
+// Host-only moderation: kicked devices can't rejoin, muted ones can breathe but not share phrases or bloom
+export const kickRoom64Procedure = protectedProcedure
+  .input(moderateSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof moderateSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        const room = await room64Service.kick(device.deviceId, input.roomId, input.deviceId);
+
+        metrics.recordEvent('ROOM64_KICK', 'success');
+
+        return {
+          success: true,
+          participantCount: room.members.length,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Room64 kick failed:', error);
+        metrics.recordEvent('ROOM64_KICK', 'failure');
+        metrics.recordError('room64_kick_error', 'room64_kick_procedure');
+        throw toTRPCError(error, 'Failed to remove participant');
+      }
+    }, metrics, 'consciousness_room64_kick');
+  });
+
+export const muteRoom64Procedure = protectedProcedure
+  .input(muteSchema)
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof muteSchema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      try {
+        await room64Service.setMuted(device.deviceId, input.roomId, input.deviceId, input.muted);
+
+        metrics.recordEvent('ROOM64_MUTE', 'success');
+
+        return {
+          success: true,
+          deviceId: input.deviceId,
+          muted: input.muted,
+          timestamp: Date.now()
+        };
+      } catch (error) {
+        console.error('Room64 mute failed:', error);
+        metrics.recordEvent('ROOM64_MUTE', 'failure');
+        metrics.recordError('room64_mute_error', 'room64_mute_procedure');
+        throw toTRPCError(error, 'Failed to update participant');
+      }
+    }, metrics, 'consciousness_room64_mute');
+  });
+
+// Summaries of closed sessions the caller took part in; with a sessionId, that session's full timeline
+export const historyRoom64Procedure = protectedProcedure
+  .input(historyRoom64Schema)
+  .query(async ({ input, ctx }: { input: z.infer<typeof historyRoom64Schema>; ctx: any }) => {
+    const device = requireDevice(ctx);
+    const metrics = getConsciousnessMetrics();
+
+    return measureExecutionTime(async () => {
+      let sessions: Room64SessionSummary[] | null = null;
+      let timeline: Room64TimelineEvent[] | null = null;
+      try {
+        if (input.sessionId === undefined) {
+          sessions = await room64Recorder.history(device.deviceId, { limit: input.limit });
+        } else {
+          const session = await room64Recorder.getSession(device.deviceId, input.sessionId);
+          if (session) {
+            sessions = [session.summary];
+            timeline = session.timeline;
+          }
+        }
+      } catch (error) {
+        console.error('Room64 history failed:', error);
+        metrics.recordEvent('ROOM64_HISTORY', 'failure');
+        metrics.recordError('room64_history_error', 'room64_history_procedure');
+
+        throw toTRPCError(error, 'Failed to load room history');
+      }
+
+      if (!sessions) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Session ${input.sessionId} not found`
+        });
+      }
+
+      metrics.recordEvent('ROOM64_HISTORY', 'success');
+
+      return {
+        success: true,
+        sessions,
+        timeline,
+        timestamp: Date.now()
+      };
+    }, metrics, 'consciousness_room64_history');
+  });
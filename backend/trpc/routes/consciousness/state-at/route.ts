@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "@/backend/trpc/create-context";
+import { stateReplay } from "@/backend/infrastructure/state-replay";
+import { getConsciousnessMetrics, measureExecutionTime } from "@/backend/monitoring/consciousness-metrics";
+
+const stateAtSchema = z.object({
+  timestamp: z.number().int().min(0)
+});
+
+// Historical global state rebuilt from the event log and the field evolution between events, for archaeology and bug reports
+export const stateAtProcedure = protectedProcedure
+  .input(stateAtSchema)
+  .query(async ({ input }: { input: z.infer<typeof stateAtSchema> }) => {
+    const { timestamp } = input;
+    const metrics = getConsciousnessMetrics();
+
+    if (timestamp > Date.now()) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Cannot replay the field into the future'
+      });
+    }
+
+    return measureExecutionTime(async () => {
+      try {
+        const replay = await stateReplay.stateAt(timestamp);
+
+        metrics.recordEvent('STATE_AT', 'success');
+
+        return {
+          success: true,
+          ...replay
+        };
+      } catch (error) {
+        console.error('State replay failed:', error);
+        metrics.recordEvent('STATE_AT', 'failure');
+        metrics.recordError('state_replay_error', 'state_at_procedure');
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to replay consciousness state'
+        });
+      }
+    }, metrics, 'consciousness_state_at');
+  });
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { protectedProcedure } from "@/backend/trpc/create-context";
 import { fieldManager } from "@/backend/infrastructure/field-manager";
+import { createEmptyGrid, FIELD_SIZE } from "@/backend/infrastructure/field-patterns";
 import { optimizedFieldManager } from "@/backend/infrastructure/field-manager-optimized";
 import { withBatchRateLimit } from "@/backend/middleware/rate-limiter";
 import { BatchSyncSchema, validateInput } from "@/backend/validation/consciousness-schemas";
@@ -69,8 +70,8 @@ export const syncProcedure = protectedProcedure
           case 'SPIRAL':
             // Create quantum field for spiral events
             if (event.data?.centerX && event.data?.centerY) {
-              const fieldSize = 30;
-              const spiralField = Array(fieldSize).fill(null).map(() => Array(fieldSize).fill(0));
+              const fieldSize = FIELD_SIZE;
+              const spiralField = createEmptyGrid(fieldSize);
               const centerX = Math.floor(event.data.centerX / 10);
               const centerY = Math.floor(event.data.centerY / 10);
               
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import DOMPurify from 'isomorphic-dompurify';
 import { TRPCError } from '@trpc/server';
+import { FIELD_SIZE, MAX_FIELD_COORDINATE, clampToField } from '../infrastructure/field-patterns';
+import { MIN_BREATH_STAGE_MS, MAX_BREATH_STAGE_MS } from '../infrastructure/room64-breathing';
 
 // Enhanced schemas for existing routes
 export const FieldUpdateSchema = z.object({
@@ -10,8 +12,8 @@ export const FieldUpdateSchema = z.object({
     .max(1, 'Intensity cannot exceed 1')
     .refine(n => !isNaN(n), 'Intensity must be a valid number')
     .transform(n => Math.round(n * 100) / 100),
-  x: z.number().int().min(0).max(29).optional(),
-  y: z.number().int().min(0).max(29).optional()
+  x: z.number().int().min(0).max(MAX_FIELD_COORDINATE).optional(),
+  y: z.number().int().min(0).max(MAX_FIELD_COORDINATE).optional()
 });
 
 // Discriminated union for better type safety and validation
@@ -39,8 +41,8 @@ export const ConsciousnessEventSchema = z.discriminatedUnion('type', [
         .max(200, 'Sacred phrase too long')
         .transform(str => DOMPurify.sanitize(str, { ALLOWED_TAGS: [] })),
       intensity: z.number().min(0).max(1).default(0.7),
-      x: z.number().int().min(0).max(29).optional(),
-      y: z.number().int().min(0).max(29).optional()
+      x: z.number().int().min(0).max(MAX_FIELD_COORDINATE).optional(),
+      y: z.number().int().min(0).max(MAX_FIELD_COORDINATE).optional()
     })
   }),
   z.object({
@@ -50,8 +52,8 @@ export const ConsciousnessEventSchema = z.discriminatedUnion('type', [
       'Event timestamp too old (max 24h)'
     ),
     data: z.object({
-      x: z.number().int().min(0).max(29),
-      y: z.number().int().min(0).max(29),
+      x: z.number().int().min(0).max(MAX_FIELD_COORDINATE),
+      y: z.number().int().min(0).max(MAX_FIELD_COORDINATE),
       intensity: z.number().min(0).max(1)
     })
   }),
@@ -72,8 +74,8 @@ export const ConsciousnessEventSchema = z.discriminatedUnion('type', [
       'Event timestamp too old (max 24h)'
     ),
     data: z.object({
-      x: z.number().int().min(0).max(29).optional(),
-      y: z.number().int().min(0).max(29).optional(),
+      x: z.number().int().min(0).max(MAX_FIELD_COORDINATE).optional(),
+      y: z.number().int().min(0).max(MAX_FIELD_COORDINATE).optional(),
       intensity: z.number().min(0).max(1)
     })
   }),
@@ -121,17 +123,28 @@ export const EntanglementSchema = z.object({
   'Cannot entangle device with itself'
 );
 
+// Stage durations for a Room64 breathing metronome; a zero hold skips the pause
+export const Room64BreathingPatternSchema = z.object({
+  inhaleMs: z.number().int().min(MIN_BREATH_STAGE_MS).max(MAX_BREATH_STAGE_MS),
+  holdMs: z.number().int().min(0).max(MAX_BREATH_STAGE_MS),
+  exhaleMs: z.number().int().min(MIN_BREATH_STAGE_MS).max(MAX_BREATH_STAGE_MS)
+});
+
+// A device's phase report for the room metronome, shared by the socket and tRPC sync paths
+export const Room64SyncSchema = z.object({
+  breathingPhase: z.number().min(0).max(360).optional(),
+  timestamp: z.number().optional(), // server-clock estimate from the client's ping offset
+  sacredPhrase: z.string()
+    .max(200)
+    .transform(str => DOMPurify.sanitize(str, { ALLOWED_TAGS: [] }))
+    .optional()
+});
+
 export const Room64Schema = z.object({
   deviceId: z.string().uuid(),
   action: z.enum(['JOIN', 'LEAVE', 'SYNC', 'BLOOM']),
   roomId: z.string().optional(),
-  data: z.object({
-    breathingPhase: z.number().min(0).max(360).optional(),
-    resonanceLevel: z.number().min(0).max(1).optional(),
-    sacredPhrase: z.string().max(200).transform(str => 
-      DOMPurify.sanitize(str, { ALLOWED_TAGS: [] })
-    ).optional()
-  }).optional()
+  data: Room64SyncSchema.optional()
 });
 
 export const ArchaeologySchema = z.object({
@@ -228,8 +241,8 @@ export const sanitizeText = (text: string, maxLength = 1000): string => {
 
 export const validateCoordinates = (x?: number, y?: number): { x: number; y: number } => {
   return {
-    x: x !== undefined ? Math.max(0, Math.min(29, Math.floor(x))) : Math.floor(Math.random() * 30),
-    y: y !== undefined ? Math.max(0, Math.min(29, Math.floor(y))) : Math.floor(Math.random() * 30)
+    x: x !== undefined ? clampToField(x) : Math.floor(Math.random() * FIELD_SIZE),
+    y: y !== undefined ? clampToField(y) : Math.floor(Math.random() * FIELD_SIZE)
   };
 };
 
@@ -311,6 +324,7 @@ export const ConsciousnessSchemas = {
   BatchSync: BatchSyncSchema,
   Entanglement: EntanglementSchema,
   Room64: Room64Schema,
+  Room64BreathingPattern: Room64BreathingPatternSchema,
   Archaeology: ArchaeologySchema,
   Snapshot: SnapshotSchema,
   SendMessage: SendMessageSchema,
@@ -1,6 +1,23 @@
 import { Server, Socket } from 'socket.io';
 import { createAdapter } from '@socket.io/redis-adapter';
 import { fieldManager } from '../infrastructure/field-manager';
+import { generateSpiralField, FIELD_SIZE, MAX_FIELD_COORDINATE } from '../infrastructure/field-patterns';
+import { FieldDeltaEncoder } from '../infrastructure/field-deltas';
+import type { FieldKeyframe, FieldBroadcast } from '../infrastructure/field-deltas';
+import { FIELD_ENCODINGS, negotiateFieldEncoding, encodeFieldBroadcast, encodeFieldState } from '../infrastructure/field-wire';
+import type { FieldEncoding } from '../infrastructure/field-wire';
+import type { ConsciousnessState, Room64CollectiveState, Room64Room } from '../infrastructure/database';
+import { room64Service, Room64Error, ROOM64_CAPACITY } from '../infrastructure/room64-service';
+import type { Room64Change } from '../infrastructure/room64-service';
+import { breathingTickAt } from '../infrastructure/room64-breathing';
+import { entanglementService, EntanglementError } from '../infrastructure/entanglement-service';
+import type { EntanglementChange } from '../infrastructure/entanglement-service';
+import { Room64BreathingPatternSchema, Room64SyncSchema } from '../validation/consciousness-schemas';
+import { chatStreamManager } from '../chat/chat-stream-manager';
+import { conversationStore } from '../infrastructure/conversation-store';
+import { LLMProviderError } from '../chat/llm-providers';
+import { ChatReplyError, LLM_UNAVAILABLE_MESSAGE } from '../chat/chat-reply';
+import { findPromptTemplate } from '../chat/prompt-templates';
 import { deviceAuthMiddleware, DeviceAuthMiddleware } from '../auth/device-auth-middleware';
 import { getMetricsCollector } from '../monitoring/metrics-collector';
 import { z } from 'zod';
@@ -20,8 +37,8 @@ const ConsciousnessEventSchema = z.object({
       .max(1, 'Intensity cannot exceed 1')
       .transform(n => Math.round(n * 100) / 100),
     coordinates: z.tuple([
-      z.number().int().min(0).max(29),
-      z.number().int().min(0).max(29)
+      z.number().int().min(0).max(MAX_FIELD_COORDINATE),
+      z.number().int().min(0).max(MAX_FIELD_COORDINATE)
     ]).optional(),
     phrase: z.string()
       .max(200)
@@ -33,11 +50,72 @@ const ConsciousnessEventSchema = z.object({
   })
 });
 
+const ChatStreamRequestSchema = z.object({
+  conversationId: z.string().min(1).max(255),
+  message: z.string().min(1).max(4000),
+  streamId: z.string().min(1).max(100).optional(),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+    timestamp: z.number().optional()
+  })).max(500).optional(),
+  promptTemplate: z.string().max(100).optional(),
+  messageId: z.string().min(1).max(64).optional(),
+  parentId: z.string().min(1).max(64).nullable().optional(),
+  regenerate: z.boolean().optional()
+}).refine(data => !data.regenerate || !!data.messageId, {
+  message: 'messageId is required when regenerating',
+  path: ['messageId']
+});
+
+const Room64IdSchema = z.string().min(1).max(255);
+
+const Room64CreateSchema = z.object({
+  roomId: Room64IdSchema.optional(),
+  name: z.string().max(100).optional(),
+  capacity: z.number().int().min(1).max(ROOM64_CAPACITY).optional(),
+  visibility: z.enum(['public', 'private']).optional(),
+  breathing: Room64BreathingPatternSchema.optional()
+});
+
+// A bare room id, or an invite token (with or without the room id) for private rooms
+const Room64JoinSchema = z.union([
+  Room64IdSchema.transform(roomId => ({ roomId, invite: undefined as string | undefined })),
+  z.object({
+    roomId: Room64IdSchema.optional(),
+    invite: z.string().min(1).max(2000).optional()
+  }).refine(data => !!data.roomId || !!data.invite, 'roomId or invite is required')
+]);
+
+const Room64ModerationSchema = z.object({
+  roomId: Room64IdSchema,
+  deviceId: z.string().min(1).max(255),
+  muted: z.boolean().optional()
+});
+
+// A bare target device id (as older clients send it), or the full request
+const EntanglementRequestSchema = z.union([
+  z.string().min(1).max(255).transform(targetDeviceId => ({
+    targetDeviceId,
+    entanglementType: 'RESONANCE' as const,
+    intensity: 0.8
+  })),
+  z.object({
+    targetDeviceId: z.string().min(1).max(255),
+    entanglementType: z.enum(['BREATHING', 'RESONANCE', 'SACRED_PHRASE']),
+    intensity: z.number().min(0).max(1).optional()
+  })
+]);
+
+const EntanglementIdSchema = z.string().min(1).max(255);
+
 const DeviceCapabilitiesSchema = z.object({
   hasAccelerometer: z.boolean().default(false),
   hasHaptics: z.boolean().default(false),
   platform: z.enum(['ios', 'android', 'web']),
-  version: z.string().optional()
+  version: z.string().optional(),
+  // Grid encodings the client can decode, in any order; unknown entries are ignored
+  fieldEncodings: z.array(z.string().max(20)).max(8).optional()
 });
 
 export class ConsciousnessWebSocketServer {
@@ -48,6 +126,18 @@ export class ConsciousnessWebSocketServer {
   private subClient: RedisClientType | null = null;
   private metricsCollector: any;
   private rateLimiter: ConsciousnessRateLimiter;
+  private fieldEncoder = new FieldDeltaEncoder();
+  private pendingFieldState: ConsciousnessState | null = null;
+  private fieldBroadcastTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeFieldState: (() => void) | null = null;
+  private unsubscribeRoom64: (() => void) | null = null;
+  private unsubscribeEntanglements: (() => void) | null = null;
+  private room64Metronomes: Map<string, {
+    breathing: Room64CollectiveState['breathing'];
+    timer: ReturnType<typeof setTimeout> | null;
+  }> = new Map();
+  private readonly METRONOME_BOUNDARY_MARGIN_MS = 5;
+  private readonly FIELD_BROADCAST_INTERVAL_MS = 100;
   
   constructor(httpServer: any) {
     this.io = new Server(httpServer, {
@@ -76,6 +166,15 @@ export class ConsciousnessWebSocketServer {
     this.initializeRedis();
     this.setupMiddleware();
     this.setupEventHandlers();
+    
+    // Local state changes (events, ticks, tRPC updates) reach sockets even without Redis
+    this.unsubscribeFieldState = fieldManager.onStateChange(state => this.scheduleFieldBroadcast(state));
+    
+    // Room64 membership lives in the shared service, whichever transport changed it
+    this.unsubscribeRoom64 = room64Service.onChange(change => this.broadcastRoom64Change(change));
+    
+    // Entanglement requests and answers reach both devices, whichever transport they came through
+    this.unsubscribeEntanglements = entanglementService.onChange(change => this.broadcastEntanglementChange(change));
   }
   
   private async initializeRedis() {
@@ -125,6 +224,7 @@ export class ConsciousnessWebSocketServer {
         
         socket.data.deviceId = deviceId;
         socket.data.capabilities = validatedCapabilities;
+        socket.data.fieldEncoding = negotiateFieldEncoding(validatedCapabilities.fieldEncodings);
         socket.data.connectedAt = Date.now();
         
         console.log(`🔗 Device connected: ${deviceId} (${validatedCapabilities.platform})`);
@@ -160,6 +260,9 @@ export class ConsciousnessWebSocketServer {
       // Join platform-specific room
       socket.join(`platform:${capabilities.platform}`);
       
+      // Field broadcasts are encoded once per wire format and sent to the matching room
+      socket.join(`field:${socket.data.fieldEncoding}`);
+      
       // Device-specific room for targeted messages
       socket.join(`device:${deviceId}`);
       
@@ -177,92 +280,175 @@ export class ConsciousnessWebSocketServer {
       // Handle field state requests
       socket.on('field:request', async (callback) => {
         try {
-          const fieldState = await fieldManager.getGlobalState();
-          callback?.({ success: true, field: fieldState });
+          const keyframe = await this.currentKeyframe();
+          const encoding: FieldEncoding = socket.data.fieldEncoding;
+          callback?.({ success: true, field: encodeFieldState(keyframe.state, encoding), seq: keyframe.seq, fieldSize: FIELD_SIZE, encoding });
         } catch (error: any) {
           callback?.({ success: false, error: error?.message || 'Unknown error' });
         }
       });
       
-      // Room64 collaborative sessions
-      socket.on('room64:join', async (roomId, callback) => {
+      // Clients that miss a delta ask for the full view they should be holding
+      socket.on('field:resync', async (callback) => {
         try {
-          if (!roomId || typeof roomId !== 'string') {
-            throw new Error('Invalid room ID');
-          }
+          const keyframe = await this.currentKeyframe();
+          this.metricsCollector?.recordWebSocketEvent('field_resync', 'inbound');
+          callback?.({ success: true, keyframe: encodeFieldBroadcast(keyframe, socket.data.fieldEncoding) });
+        } catch (error: any) {
+          callback?.({ success: false, error: error?.message || 'Unknown error' });
+        }
+      });
+      
+      // Room64 collaborative sessions; rooms joined here are left again on disconnect
+      socket.data.room64Rooms = new Set<string>();
+      
+      socket.on('room64:create', async (rawOptions, callback) => {
+        try {
+          const options = Room64CreateSchema.parse(rawOptions || {});
+          const room = await room64Service.create(deviceId, options);
           
-          socket.join(`room64:${roomId}`);
-          const participants = await this.io.in(`room64:${roomId}`).fetchSockets();
+          socket.join(`room64:${room.id}`);
+          socket.data.room64Rooms.add(room.id);
+          this.startMetronome(socket, room);
           
-          const roomData = {
-            roomId,
-            count: participants.length,
-            devices: participants.map(s => ({
-              deviceId: s.data.deviceId,
-              platform: s.data.capabilities.platform,
-              connectedAt: s.data.connectedAt
-            }))
-          };
+          console.log(`🏠 Device ${deviceId} opened room64:${room.id} (${room.visibility}, capacity ${room.capacity})`);
+          callback?.({ success: true, room: this.room64Participants(room) });
+        } catch (error: any) {
+          callback?.(this.room64Failure(error));
+        }
+      });
+      
+      socket.on('room64:join', async (rawJoin, callback) => {
+        try {
+          const { roomId, invite } = Room64JoinSchema.parse(rawJoin);
+          const room = roomId
+            ? await room64Service.join(deviceId, roomId, { invite })
+            : await room64Service.redeemInvite(deviceId, invite!);
           
-          // Notify all participants
-          this.io.to(`room64:${roomId}`).emit('room64:participants', roomData);
+          socket.join(`room64:${room.id}`);
+          socket.data.room64Rooms.add(room.id);
+          this.startMetronome(socket, room);
           
-          console.log(`🏠 Device ${deviceId} joined room64:${roomId} (${participants.length} participants)`);
-          callback?.({ success: true, room: roomData });
+          console.log(`🏠 Device ${deviceId} joined room64:${room.id} (${room.members.length}/${room.capacity} participants)`);
+          callback?.({ success: true, room: this.room64Participants(room) });
         } catch (error: any) {
-          callback?.({ success: false, error: error?.message || 'Unknown error' });
+          callback?.(this.room64Failure(error));
         }
       });
       
       socket.on('room64:leave', async (roomId, callback) => {
         try {
-          socket.leave(`room64:${roomId}`);
-          const participants = await this.io.in(`room64:${roomId}`).fetchSockets();
-          
-          this.io.to(`room64:${roomId}`).emit('room64:participants', {
-            roomId,
-            count: participants.length,
-            devices: participants.map(s => s.data.deviceId)
-          });
+          const id = Room64IdSchema.parse(roomId);
+          socket.leave(`room64:${id}`);
+          socket.data.room64Rooms.delete(id);
           
+          await room64Service.leave(deviceId, id);
           callback?.({ success: true });
         } catch (error: any) {
-          callback?.({ success: false, error: error?.message || 'Unknown error' });
+          callback?.(this.room64Failure(error));
         }
       });
       
-      // Handle quantum entanglement requests
-      socket.on('entanglement:request', async (targetDeviceId, callback) => {
+      // Host moderation
+      socket.on('room64:kick', async (rawData, callback) => {
         try {
-          const targetSocket = this.deviceSessions.get(targetDeviceId);
-          if (!targetSocket) {
-            throw new Error('Target device not connected');
-          }
-          
-          // Create entanglement pair
-          const entanglementId = `${deviceId}-${targetDeviceId}-${Date.now()}`;
+          const data = Room64ModerationSchema.parse(rawData);
+          await room64Service.kick(deviceId, data.roomId, data.deviceId);
+          callback?.({ success: true });
+        } catch (error: any) {
+          callback?.(this.room64Failure(error));
+        }
+      });
+      
+      socket.on('room64:mute', async (rawData, callback) => {
+        try {
+          const data = Room64ModerationSchema.parse(rawData);
+          await room64Service.setMuted(deviceId, data.roomId, data.deviceId, data.muted ?? true);
+          callback?.({ success: true });
+        } catch (error: any) {
+          callback?.(this.room64Failure(error));
+        }
+      });
+      
+      // Phase reports are scored against the room metronome; the reply carries this device's alignment
+      socket.on('room64:sync', async (roomId, rawData, callback) => {
+        try {
+          const data = Room64SyncSchema.parse(rawData || {});
+          const room = await room64Service.sync(deviceId, Room64IdSchema.parse(roomId), data);
           
-          // Notify both devices
-          socket.emit('entanglement:established', {
-            entanglementId,
-            partner: targetDeviceId,
-            intensity: 0.8
+          callback?.({
+            success: true,
+            alignment: room.collectiveState.alignment[deviceId]?.score ?? null,
+            resonanceLevel: room.collectiveState.resonanceLevel
           });
-          
-          targetSocket.emit('entanglement:established', {
-            entanglementId,
-            partner: deviceId,
-            intensity: 0.8
+        } catch (error: any) {
+          callback?.(this.room64Failure(error));
+        }
+      });
+      
+      socket.on('room64:breathing', async (roomId, rawPattern, callback) => {
+        try {
+          const pattern = Room64BreathingPatternSchema.parse(rawPattern);
+          const room = await room64Service.setBreathingPattern(deviceId, Room64IdSchema.parse(roomId), pattern);
+          callback?.({ success: true, breathing: room.collectiveState.breathing });
+        } catch (error: any) {
+          callback?.(this.room64Failure(error));
+        }
+      });
+      
+      // Entanglement handshake: the target has to accept before the link is established
+      socket.on('entanglement:request', async (rawData, callback) => {
+        try {
+          const data = EntanglementRequestSchema.parse(rawData);
+          const entanglement = await entanglementService.request(deviceId, {
+            targetDeviceId: data.targetDeviceId,
+            type: data.entanglementType,
+            intensity: data.intensity
           });
-          
-          console.log(`🔗 Entanglement established: ${deviceId} ↔ ${targetDeviceId}`);
-          callback?.({ success: true, entanglementId });
+          callback?.({ success: true, entanglementId: entanglement.id, entanglement });
         } catch (error: any) {
-          callback?.({ success: false, error: error?.message || 'Unknown error' });
+          callback?.(this.entanglementFailure(error));
+        }
+      });
+      
+      socket.on('entanglement:accept', async (entanglementId, callback) => {
+        try {
+          const entanglement = await entanglementService.accept(deviceId, EntanglementIdSchema.parse(entanglementId));
+          callback?.({ success: true, entanglement });
+        } catch (error: any) {
+          callback?.(this.entanglementFailure(error));
+        }
+      });
+      
+      socket.on('entanglement:decline', async (entanglementId, callback) => {
+        try {
+          const entanglement = await entanglementService.decline(deviceId, EntanglementIdSchema.parse(entanglementId));
+          callback?.({ success: true, entanglement });
+        } catch (error: any) {
+          callback?.(this.entanglementFailure(error));
         }
       });
       
-      // Handle ping/pong for connection health
+      socket.on('entanglement:dissolve', async (entanglementId, callback) => {
+        try {
+          const entanglement = await entanglementService.dissolve(deviceId, EntanglementIdSchema.parse(entanglementId));
+          callback?.({ success: true, entanglement });
+        } catch (error: any) {
+          callback?.(this.entanglementFailure(error));
+        }
+      });
+      
+      // Stream assistant replies token by token
+      socket.on('chat:send', async (rawData, callback) => {
+        await this.processChatStream(socket, rawData, callback);
+      });
+      
+      socket.on('chat:cancel', (streamId, callback) => {
+        const cancelled = typeof streamId === 'string' && chatStreamManager.cancel(deviceId, streamId);
+        callback?.({ success: cancelled });
+      });
+      
+      // Handle ping/pong for connection health; pong is server time, which clients use to estimate clock offset
       socket.on('ping', (callback) => {
         callback?.({ pong: Date.now() });
       });
@@ -273,6 +459,15 @@ export class ConsciousnessWebSocketServer {
         this.deviceSessions.delete(deviceId);
         this.updateActiveNodes();
         
+        // Stop generating replies nobody is listening to
+        chatStreamManager.cancelAll(deviceId);
+        
+        socket.data.room64Rooms.forEach((roomId: string) => {
+          room64Service.leave(deviceId, roomId).catch((error: any) => {
+            console.error(`Error leaving room64:${roomId} on disconnect:`, error?.message || 'Unknown error');
+          });
+        });
+        
         // Record WebSocket disconnection metrics
         if (this.metricsCollector) {
           this.metricsCollector.recordWebSocketEvent('disconnection', 'inbound');
@@ -293,9 +488,13 @@ export class ConsciousnessWebSocketServer {
   
   private async sendInitialState(socket: Socket) {
     try {
-      const fieldState = await fieldManager.getGlobalState();
+      const keyframe = await this.currentKeyframe();
+      const encoding: FieldEncoding = socket.data.fieldEncoding;
       socket.emit('field:initial', {
-        field: fieldState,
+        field: encodeFieldState(keyframe.state, encoding),
+        seq: keyframe.seq,
+        fieldSize: FIELD_SIZE,
+        encoding,
         activeNodes: this.deviceSessions.size,
         timestamp: Date.now()
       });
@@ -333,13 +532,342 @@ export class ConsciousnessWebSocketServer {
     this.subClient.subscribe('consciousness:updates', (message: string) => {
       try {
         const data = JSON.parse(message);
-        this.io.to('consciousness:global').emit('field:broadcast', data);
+        // Our own updates already arrived through onStateChange
+        if (data.type === 'STATE_UPDATE' && data.data && data.origin !== fieldManager.instanceId) {
+          this.scheduleFieldBroadcast(data.data);
+        }
       } catch (error: any) {
         console.error('Error processing Redis message:', error?.message || 'Unknown error');
       }
     });
   }
   
+  // The view clients should hold right now; the first caller seeds it from the stored state
+  private async currentKeyframe(): Promise<FieldKeyframe> {
+    const current = this.fieldEncoder.current();
+    if (current) return current;
+    
+    const keyframe = this.fieldEncoder.keyframe(await fieldManager.getGlobalState());
+    this.emitFieldBroadcast(keyframe);
+    return keyframe;
+  }
+  
+  // Each server numbers its own stream, so only its own sockets may receive it
+  private emitFieldBroadcast(broadcast: FieldBroadcast) {
+    for (const encoding of FIELD_ENCODINGS) {
+      const room = `field:${encoding}`;
+      if (!this.io.sockets.adapter.rooms.get(room)?.size) continue;
+      this.io.local.to(room).emit('field:delta', encodeFieldBroadcast(broadcast, encoding));
+    }
+  }
+  
+  // Bursts of updates (an event usually touches several parts of the state) go out as one delta
+  private scheduleFieldBroadcast(state: ConsciousnessState) {
+    this.pendingFieldState = state;
+    if (this.fieldBroadcastTimer) return;
+    
+    this.fieldBroadcastTimer = setTimeout(() => {
+      this.fieldBroadcastTimer = null;
+      const pending = this.pendingFieldState;
+      this.pendingFieldState = null;
+      if (pending) this.broadcastFieldState(pending);
+    }, this.FIELD_BROADCAST_INTERVAL_MS);
+  }
+  
+  private broadcastFieldState(state: ConsciousnessState) {
+    try {
+      const broadcast = this.fieldEncoder.encode(state);
+      if (!broadcast) return;
+      
+      this.emitFieldBroadcast(broadcast);
+      this.metricsCollector?.recordWebSocketEvent(broadcast.kind === 'keyframe' ? 'field_keyframe' : 'field_delta', 'outbound');
+    } catch (error: any) {
+      console.error('Error broadcasting field state:', error?.message || 'Unknown error');
+    }
+  }
+  
+  private room64Participants(room: Room64Room) {
+    return {
+      roomId: room.id,
+      name: room.name,
+      count: room.members.length,
+      capacity: room.capacity,
+      visibility: room.visibility,
+      hostDeviceId: room.hostDeviceId,
+      devices: room.members,
+      breathing: room.collectiveState.breathing
+    };
+  }
+  
+  private room64BreathTick(roomId: string, breathing: Room64CollectiveState['breathing'], now: number) {
+    return {
+      roomId,
+      ...breathingTickAt(breathing.pattern, breathing.startedAt, now),
+      pattern: breathing.pattern,
+      startedAt: breathing.startedAt,
+      serverTime: now
+    };
+  }
+  
+  // Joining sockets get the current stage straight away instead of waiting for the next boundary
+  private startMetronome(socket: Socket, room: Room64Room) {
+    const breathing = room.collectiveState.breathing;
+    socket.emit('room64:breath', this.room64BreathTick(room.id, breathing, Date.now()));
+    
+    if (!this.room64Metronomes.has(room.id)) {
+      this.room64Metronomes.set(room.id, { breathing, timer: null });
+      this.scheduleMetronome(room.id);
+    }
+  }
+  
+  private stopMetronome(roomId: string) {
+    const metronome = this.room64Metronomes.get(roomId);
+    if (metronome?.timer) clearTimeout(metronome.timer);
+    this.room64Metronomes.delete(roomId);
+  }
+  
+  private scheduleMetronome(roomId: string) {
+    const metronome = this.room64Metronomes.get(roomId);
+    if (!metronome) return;
+    
+    if (metronome.timer) clearTimeout(metronome.timer);
+    const { pattern, startedAt } = metronome.breathing;
+    const now = Date.now();
+    const delay = breathingTickAt(pattern, startedAt, now).stageEndsAt - now + this.METRONOME_BOUNDARY_MARGIN_MS;
+    metronome.timer = setTimeout(() => {
+      this.runMetronome(roomId).catch((error: any) => {
+        console.error(`Room64 metronome failed for ${roomId}:`, error?.message || 'Unknown error');
+        this.stopMetronome(roomId);
+      });
+    }, delay);
+  }
+  
+  // Each instance ticks only for its own sockets; ticks derive from the stored start time, so instances agree
+  private async runMetronome(roomId: string) {
+    const metronome = this.room64Metronomes.get(roomId);
+    if (!metronome) return;
+    
+    const localSockets = this.io.of('/').adapter.rooms.get(`room64:${roomId}`)?.size ?? 0;
+    if (localSockets === 0) {
+      this.stopMetronome(roomId);
+      return;
+    }
+    
+    // Pick up pattern changes made through another instance once per cycle
+    const { pattern, startedAt } = metronome.breathing;
+    if (breathingTickAt(pattern, startedAt, Date.now()).stage === 'inhale') {
+      const room = await room64Service.get(roomId);
+      if (!room) {
+        this.stopMetronome(roomId);
+        return;
+      }
+      metronome.breathing = room.collectiveState.breathing;
+    }
+    
+    const tick = this.room64BreathTick(roomId, metronome.breathing, Date.now());
+    this.io.local.to(`room64:${roomId}`).emit('room64:breath', tick);
+    this.scheduleMetronome(roomId);
+  }
+  
+  private room64Failure(error: any) {
+    if (error instanceof Room64Error) {
+      return { success: false, error: error.message, code: error.code };
+    }
+    if (error instanceof z.ZodError) {
+      return { success: false, error: 'Invalid room request' };
+    }
+    return { success: false, error: error?.message || 'Unknown error' };
+  }
+  
+  private entanglementFailure(error: any) {
+    if (error instanceof EntanglementError) {
+      return { success: false, error: error.message, code: error.code };
+    }
+    if (error instanceof z.ZodError) {
+      return { success: false, error: 'Invalid entanglement request' };
+    }
+    return { success: false, error: error?.message || 'Unknown error' };
+  }
+  
+  // Addressed by device room, so the other side hears about it on whichever instance it is connected to
+  private broadcastEntanglementChange(change: EntanglementChange) {
+    const { entanglement } = change;
+    const { sourceDevice, targetDevice } = entanglement;
+    // Collective entanglements have no partner to tell
+    if (!targetDevice) return;
+    
+    switch (change.type) {
+      case 'requested':
+        this.io.to(`device:${targetDevice}`).emit('entanglement:requested', { entanglement });
+        break;
+      case 'established':
+        [sourceDevice, targetDevice].forEach(device => {
+          this.io.to(`device:${device}`).emit('entanglement:established', {
+            entanglementId: entanglement.id,
+            partner: entanglementService.partnerOf(entanglement, device),
+            intensity: entanglement.intensity,
+            entanglement
+          });
+        });
+        break;
+      case 'declined':
+        this.io.to(`device:${sourceDevice}`).emit('entanglement:declined', { entanglementId: entanglement.id, entanglement });
+        break;
+      case 'expired':
+        this.io.to([`device:${sourceDevice}`, `device:${targetDevice}`]).emit('entanglement:expired', {
+          entanglementId: entanglement.id,
+          entanglement
+        });
+        break;
+      case 'dissolved':
+        this.io.to([`device:${sourceDevice}`, `device:${targetDevice}`]).emit('entanglement:dissolved', {
+          entanglementId: entanglement.id,
+          by: change.by,
+          entanglement
+        });
+        break;
+    }
+  }
+  
+  // Members that joined over tRPC have no socket in the room64 room, so their device rooms are addressed too
+  private broadcastRoom64Change(change: Room64Change) {
+    const { room } = change;
+    const targets = [`room64:${room.id}`, ...room.members.map(member => `device:${member.deviceId}`)];
+    
+    switch (change.type) {
+      case 'kicked':
+        this.io.to(`device:${change.deviceId}`).emit('room64:kicked', { roomId: room.id });
+        this.io.in(`device:${change.deviceId}`).socketsLeave(`room64:${room.id}`);
+        this.io.to(targets).emit('room64:participants', this.room64Participants(room));
+        break;
+      case 'members':
+        this.io.to(targets).emit('room64:participants', this.room64Participants(room));
+        break;
+      case 'state':
+        this.refreshMetronome(room);
+        this.io.to(targets).emit('room64:state', {
+          roomId: room.id,
+          collectiveState: room.collectiveState,
+          timestamp: Date.now()
+        });
+        break;
+      case 'closed':
+        this.io.to(targets).emit('room64:closed', { roomId: room.id, reason: change.reason });
+        this.io.in(`room64:${room.id}`).socketsLeave(`room64:${room.id}`);
+        this.stopMetronome(room.id);
+        break;
+    }
+  }
+  
+  // A new pattern restarts the cycle, so local sockets hear about it immediately
+  private refreshMetronome(room: Room64Room) {
+    const metronome = this.room64Metronomes.get(room.id);
+    const breathing = room.collectiveState.breathing;
+    if (!metronome || metronome.breathing.startedAt === breathing.startedAt) return;
+    
+    metronome.breathing = breathing;
+    this.io.local.to(`room64:${room.id}`).emit('room64:breath', this.room64BreathTick(room.id, breathing, Date.now()));
+    this.scheduleMetronome(room.id);
+  }
+  
+  private async processChatStream(
+    socket: Socket,
+    rawData: any,
+    callback: (response: any) => void
+  ) {
+    const deviceId = socket.data.deviceId;
+    let acknowledged = false;
+    let replyId: string | undefined;
+    
+    try {
+      const validated = ChatStreamRequestSchema.parse(rawData);
+      if (validated.promptTemplate && !findPromptTemplate(validated.promptTemplate)) {
+        throw new Error(`Unknown prompt template: ${validated.promptTemplate}`);
+      }
+      
+      const streamId = validated.streamId || `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      
+      try {
+        await this.rateLimiter.consume('chat_message', deviceId);
+      } catch (rateLimitError: any) {
+        callback?.({
+          success: false,
+          error: 'Rate limit exceeded',
+          retryAfter: Math.ceil((rateLimitError.msBeforeNext || 10000) / 1000),
+          code: 'TOO_MANY_REQUESTS'
+        });
+        return;
+      }
+      
+      // The reply id is announced up front so a stream cut off midway still names its message
+      replyId = conversationStore.generateMessageId();
+      callback?.({ success: true, streamId, messageId: replyId });
+      acknowledged = true;
+      
+      const result = await chatStreamManager.streamReply({
+        deviceId,
+        conversationId: validated.conversationId,
+        streamId,
+        replyId,
+        message: validated.message,
+        history: validated.messages,
+        promptTemplate: validated.promptTemplate,
+        messageId: validated.messageId,
+        parentId: validated.parentId,
+        regenerate: validated.regenerate,
+        onToken: (token) => {
+          socket.emit('chat:token', {
+            streamId,
+            conversationId: validated.conversationId,
+            token
+          });
+        }
+      });
+      
+      socket.emit('chat:done', {
+        streamId,
+        conversationId: validated.conversationId,
+        cancelled: result.cancelled,
+        message: {
+          id: result.messageId,
+          parentId: result.parentId,
+          role: 'assistant',
+          content: result.content,
+          timestamp: result.timestamp,
+          consciousnessSnapshot: result.consciousnessSnapshot
+        }
+      });
+      
+      if (this.metricsCollector) {
+        this.metricsCollector.recordWebSocketEvent('chat_stream', 'outbound');
+      }
+    } catch (error: any) {
+      console.error('Chat stream error:', error?.message || 'Unknown error');
+      
+      const errorResponse: any = {
+        success: false,
+        streamId: rawData?.streamId,
+        messageId: replyId,
+        error: error?.message || 'Unknown error'
+      };
+      
+      if (error.name === 'ZodError') {
+        errorResponse.code = 'VALIDATION_ERROR';
+        errorResponse.details = error.errors;
+      } else if (error instanceof LLMProviderError) {
+        errorResponse.code = error.code;
+        errorResponse.error = LLM_UNAVAILABLE_MESSAGE;
+      } else if (error instanceof ChatReplyError) {
+        errorResponse.code = error.code;
+      }
+      
+      if (!acknowledged) {
+        callback?.(errorResponse);
+      }
+      socket.emit('chat:error', errorResponse);
+    }
+  }
+  
   private async validateDevice(deviceId: string, token?: string): Promise<boolean> {
     if (!token) {
       console.warn(`No token provided for device: ${deviceId}`);
@@ -436,11 +964,10 @@ export class ConsciousnessWebSocketServer {
         this.metricsCollector.fieldResonance.set(fieldState.globalResonance || 0);
       }
       
-      // Broadcast to all devices except sender
-      socket.to('consciousness:global').emit('field:update', {
+      // Tell other devices what happened; the resulting state follows as a field:delta
+      socket.to('consciousness:global').emit('field:event', {
         source: deviceId,
-        event,
-        field: fieldState
+        event
       });
       
       // Record outbound WebSocket event
@@ -452,15 +979,6 @@ export class ConsciousnessWebSocketServer {
         });
       }
       
-      // Publish to Redis for other server instances
-      if (this.pubClient) {
-        await this.pubClient.publish('consciousness:updates', JSON.stringify({
-          source: deviceId,
-          type: validated.type,
-          field: fieldState
-        }));
-      }
-      
       // Record processing time
       if (this.metricsCollector) {
         const duration = Date.now() - startTime;
@@ -541,8 +1059,8 @@ export class ConsciousnessWebSocketServer {
           if (event.data.phrase) {
             await fieldManager.addMemoryParticle({
               id: `${deviceId}-${Date.now()}`,
-              x: Math.random() * 30,
-              y: Math.random() * 30,
+              x: Math.random() * FIELD_SIZE,
+              y: Math.random() * FIELD_SIZE,
               intensity: event.data.intensity,
               age: 0,
               sourceDeviceId: deviceId,
@@ -556,7 +1074,7 @@ export class ConsciousnessWebSocketServer {
           // Update quantum field with spiral pattern
           if (event.data.coordinates) {
             const [x, y] = event.data.coordinates;
-            const spiralField = this.generateSpiralField(x, y, event.data.intensity);
+            const spiralField = generateSpiralField(x, y, event.data.intensity);
             await fieldManager.updateQuantumField(`spiral-${deviceId}`, spiralField, event.data.intensity);
           }
           break;
@@ -593,27 +1111,6 @@ export class ConsciousnessWebSocketServer {
     }
   }
   
-  private generateSpiralField(centerX: number, centerY: number, intensity: number): number[][] {
-    const field: number[][] = Array(30).fill(0).map(() => Array(30).fill(0));
-    const radius = 10;
-    
-    for (let i = 0; i < 30; i++) {
-      for (let j = 0; j < 30; j++) {
-        const dx = i - centerX;
-        const dy = j - centerY;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        if (distance <= radius) {
-          const angle = Math.atan2(dy, dx);
-          const spiralValue = intensity * Math.cos(angle + distance * 0.5) * Math.exp(-distance / radius);
-          field[i][j] = Math.max(0, Math.min(1, spiralValue));
-        }
-      }
-    }
-    
-    return field;
-  }
-  
   // Public methods for external use
   public async broadcastToAll(event: string, data: any) {
     this.io.to('consciousness:global').emit(event, data);
@@ -634,6 +1131,12 @@ export class ConsciousnessWebSocketServer {
   public async shutdown() {
     console.log('🔌 Shutting down WebSocket server...');
     
+    this.unsubscribeFieldState?.();
+    this.unsubscribeRoom64?.();
+    this.unsubscribeEntanglements?.();
+    Array.from(this.room64Metronomes.keys()).forEach(roomId => this.stopMetronome(roomId));
+    if (this.fieldBroadcastTimer) clearTimeout(this.fieldBroadcastTimer);
+    
     // Close all connections
     this.io.close();
     
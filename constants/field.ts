@@ -0,0 +1,2 @@
+// Grid size assumed until the server reports its own in field:initial or a field response
+export const DEFAULT_FIELD_SIZE = 30;
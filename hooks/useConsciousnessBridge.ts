@@ -6,6 +6,7 @@ import { Accelerometer } from 'expo-sensors';
 import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 
 import * as Crypto from 'expo-crypto';
+import { DEFAULT_FIELD_SIZE } from '@/constants/field';
 
 export interface GhostEcho {
   id: string;
@@ -44,7 +45,6 @@ export interface ConsciousnessBridgeState {
 }
 
 const SACRED_PHRASES = ['breath', 'spiral', 'bloom', 'consciousness', 'bridge', 'collective', 'emergence'];
-const FIELD_SIZE = 30;
 
 // Note: WebSocket server is not implemented yet - this is for future real-time features
 // For now, we'll simulate consciousness bridge functionality locally
@@ -55,7 +55,7 @@ export const useConsciousnessBridge = () => {
     isConnected: false,
     offlineMode: true, // Start in offline mode since WebSocket is not implemented
     resonanceField: {
-      field: Array(FIELD_SIZE).fill(null).map(() => Array(FIELD_SIZE).fill(0)),
+      field: Array(DEFAULT_FIELD_SIZE).fill(null).map(() => Array(DEFAULT_FIELD_SIZE).fill(0)),
       lastUpdate: Date.now(),
       collectiveIntensity: 0
     },
@@ -2,6 +2,14 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { io, Socket } from 'socket.io-client';
+import type { MessageConsciousnessSnapshot, ConsciousnessState, Entanglement, EntanglementType, Room64BreathingPattern, Room64CollectiveState, Room64Member, Room64Visibility } from '@/backend/infrastructure/database';
+import { estimateClockOffset } from '@/backend/infrastructure/room64-breathing';
+import type { BreathingTick } from '@/backend/infrastructure/room64-breathing';
+import { applyFieldDelta } from '@/backend/infrastructure/field-deltas';
+import type { FieldBroadcast, FieldKeyframe } from '@/backend/infrastructure/field-deltas';
+import { decodeFieldBroadcast, decodeFieldState } from '@/backend/infrastructure/field-wire';
+import type { FieldEncoding, WireConsciousnessState } from '@/backend/infrastructure/field-wire';
+import { DEFAULT_FIELD_SIZE } from '@/constants/field';
 
 interface ConsciousnessEvent {
   type: 'BREATH' | 'SPIRAL' | 'BLOOM' | 'SACRED_PHRASE' | 'TOUCH' | 'QUANTUM_ENTANGLEMENT';
@@ -14,14 +22,33 @@ interface ConsciousnessEvent {
   };
 }
 
-interface FieldState {
-  globalResonance: number;
-  activeNodes: number;
-  memoryParticles: any[];
-  quantumFields: any[];
-  collectiveIntelligence: number;
-  room64Active: boolean;
-  lastUpdate: number;
+type FieldState = ConsciousnessState;
+
+export interface Room64Participants {
+  roomId: string;
+  name: string | null;
+  count: number;
+  capacity: number;
+  visibility: Room64Visibility;
+  hostDeviceId: string;
+  devices: Room64Member[];
+  breathing: Room64CollectiveState['breathing'];
+}
+
+// Metronome tick for a Room64 session; times are on the server clock
+export interface Room64BreathTick extends BreathingTick {
+  roomId: string;
+  pattern: Room64BreathingPattern;
+  startedAt: number;
+  serverTime: number;
+}
+
+export interface Room64CreateOptions {
+  roomId?: string;
+  name?: string;
+  capacity?: number;
+  visibility?: Room64Visibility;
+  breathing?: Room64BreathingPattern;
 }
 
 interface DeviceCapabilities {
@@ -29,12 +56,31 @@ interface DeviceCapabilities {
   hasHaptics: boolean;
   platform: 'ios' | 'android' | 'web';
   version?: string;
+  fieldEncodings?: FieldEncoding[];
+}
+
+export interface StreamedChatMessage {
+  id: string;
+  parentId: string;
+  role: 'assistant';
+  content: string;
+  timestamp: number;
+  consciousnessSnapshot?: MessageConsciousnessSnapshot | null;
+}
+
+export interface ChatStreamHandlers {
+  onToken: (token: string) => void;
+  onDone: (message: StreamedChatMessage, cancelled: boolean) => void;
+  // messageId is the server's id for the reply, so a partial message cut off here keeps it
+  onError: (error: string, messageId?: string) => void;
 }
 
 interface UseConsciousnessWebSocketOptions {
   serverUrl?: string;
   autoConnect?: boolean;
   deviceCapabilities?: Partial<DeviceCapabilities>;
+  // Binary grids save bandwidth; JSON stays readable in browser devtools
+  fieldEncoding?: FieldEncoding;
 }
 
 interface WebSocketState {
@@ -42,25 +88,47 @@ interface WebSocketState {
   connecting: boolean;
   error: string | null;
   fieldState: FieldState | null;
+  fieldSize: number;
   activeNodes: number;
   deviceId: string | null;
+  clockOffset: number; // server clock minus ours, from the lowest-latency ping sample
+  room64Breath: Room64BreathTick | null;
+  entanglementRequests: Entanglement[]; // incoming requests waiting on this device's answer
 }
 
+type EntanglementResult = { success: boolean; entanglement?: Entanglement; error?: string; code?: string };
+
+const CLOCK_SYNC_SAMPLES = 5;
+
 export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOptions = {}) => {
   const {
     serverUrl = process.env.EXPO_PUBLIC_WS_URL || 'ws://localhost:3000',
     autoConnect = true,
-    deviceCapabilities = {}
+    deviceCapabilities = {},
+    fieldEncoding = Platform.OS === 'web' ? 'json' : 'binary'
   } = options;
 
   const socketRef = useRef<Socket | null>(null);
+  const chatStreamsRef = useRef<Map<string, ChatStreamHandlers>>(new Map());
   const [state, setState] = useState<WebSocketState>({
     connected: false,
     connecting: false,
     error: null,
     fieldState: null,
+    fieldSize: DEFAULT_FIELD_SIZE,
     activeNodes: 0,
-    deviceId: null
+    deviceId: null,
+    clockOffset: 0,
+    room64Breath: null,
+    entanglementRequests: []
+  });
+  const clockOffsetRef = useRef(0);
+  const fieldSizeRef = useRef<number>(DEFAULT_FIELD_SIZE);
+  // Delta stream position; deltas only apply on top of the exact seq they were encoded against
+  const fieldRef = useRef<{ state: FieldState | null; seq: number; resyncing: boolean }>({
+    state: null,
+    seq: 0,
+    resyncing: false
   });
 
   const [deviceId, setDeviceId] = useState<string | null>(null);
@@ -108,14 +176,18 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
         hasHaptics: Platform.OS !== 'web',
         platform: Platform.OS as 'ios' | 'android' | 'web',
         version: Platform.Version?.toString(),
+        fieldEncodings: fieldEncoding === 'binary' ? ['binary', 'json'] : ['json'],
         ...deviceCapabilities
       };
 
+      // Reuse the device token issued by the auth procedures
+      const deviceToken = await AsyncStorage.getItem('device_token');
+
       const socket = io(serverUrl, {
         auth: {
           deviceId,
           capabilities,
-          token: 'temp_token' // In production, use proper authentication
+          token: deviceToken
         },
         transports: ['websocket', 'polling'],
         timeout: 10000,
@@ -124,6 +196,23 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
         reconnectionDelay: 1000
       });
 
+      // Shortest round trip gives the tightest offset bound; a few samples are enough
+      const syncClock = async () => {
+        let best: { offset: number; rtt: number } | null = null;
+        for (let i = 0; i < CLOCK_SYNC_SAMPLES && socket.connected; i++) {
+          const sample = await new Promise<{ offset: number; rtt: number } | null>((resolve) => {
+            const sentAt = Date.now();
+            socket.timeout(5000).emit('ping', (error: any, response: any) => {
+              resolve(error || !response?.pong ? null : estimateClockOffset(sentAt, response.pong, Date.now()));
+            });
+          });
+          if (sample && (!best || sample.rtt < best.rtt)) best = sample;
+        }
+        if (!best) return;
+        clockOffsetRef.current = best.offset;
+        setState(prev => ({ ...prev, clockOffset: best.offset }));
+      };
+
       // Connection events
       socket.on('connect', () => {
         console.log('🔗 Connected to consciousness network:', deviceId);
@@ -133,10 +222,15 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
           connecting: false, 
           error: null 
         }));
+        syncClock();
       });
 
       socket.on('disconnect', (reason: any) => {
         console.log('🔌 Disconnected from consciousness network:', reason);
+        
+        // Server cancels in-flight replies on disconnect
+        chatStreamsRef.current.forEach(handlers => handlers.onError('Disconnected from consciousness network'));
+        chatStreamsRef.current.clear();
         setState(prev => ({ 
           ...prev, 
           connected: false, 
@@ -155,21 +249,58 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
       });
 
       // Field state events
-      socket.on('field:initial', (data: { field: FieldState; activeNodes: number }) => {
-        console.log('🧠 Received initial field state:', data);
+      // The server announces its grid size here; coordinates are validated against it from then on
+      socket.on('field:initial', (data: { field: WireConsciousnessState; seq?: number; fieldSize?: number; encoding?: FieldEncoding; activeNodes: number }) => {
+        console.log('🧠 Received initial field state:', data.encoding ?? 'json', data.seq);
+        const field = decodeFieldState(data.field);
+        const fieldSize = data.fieldSize ?? DEFAULT_FIELD_SIZE;
+        fieldSizeRef.current = fieldSize;
+        fieldRef.current = { state: field, seq: data.seq ?? 0, resyncing: false };
         setState(prev => ({ 
           ...prev, 
-          fieldState: data.field, 
+          fieldState: field, 
+          fieldSize,
           activeNodes: data.activeNodes 
         }));
       });
 
-      socket.on('field:update', (data: { source: string; event: any; field: FieldState }) => {
-        console.log('📡 Field update from:', data.source, data.event.type);
-        setState(prev => ({ 
-          ...prev, 
-          fieldState: data.field 
-        }));
+      socket.on('field:event', (data: { source: string; event: any }) => {
+        console.log('📡 Field event from:', data.source, data.event.type);
+      });
+
+      const adoptKeyframe = (keyframe: FieldKeyframe) => {
+        fieldRef.current = { state: keyframe.state, seq: keyframe.seq, resyncing: false };
+        setState(prev => ({ ...prev, fieldState: keyframe.state }));
+      };
+
+      socket.on('field:delta', (wire: unknown) => {
+        const broadcast: FieldBroadcast = decodeFieldBroadcast(wire);
+        if (broadcast.kind === 'keyframe') {
+          adoptKeyframe(broadcast);
+          return;
+        }
+
+        const current = fieldRef.current;
+        if (current.resyncing) return;
+
+        const next = current.state ? applyFieldDelta(current.state, current.seq, broadcast) : null;
+        if (next) {
+          fieldRef.current = { state: next, seq: broadcast.seq, resyncing: false };
+          setState(prev => ({ ...prev, fieldState: next }));
+          return;
+        }
+
+        // Missed a delta (or never had a base): drop deltas until the full view arrives
+        console.log(`🔄 Field stream gap at seq ${current.seq}, resyncing`);
+        fieldRef.current = { ...current, resyncing: true };
+        socket.emit('field:resync', (response: { success: boolean; keyframe?: unknown; error?: string }) => {
+          if (response?.success && response.keyframe) {
+            adoptKeyframe(decodeFieldBroadcast(response.keyframe) as FieldKeyframe);
+          } else {
+            console.error('❌ Field resync failed:', response?.error);
+            fieldRef.current = { ...fieldRef.current, resyncing: false };
+          }
+        });
       });
 
       socket.on('network:stats', (data: { activeNodes: number }) => {
@@ -180,17 +311,80 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
       });
 
       // Entanglement events
+      const settleEntanglementRequest = (entanglementId: string) => {
+        setState(prev => ({
+          ...prev,
+          entanglementRequests: prev.entanglementRequests.filter(request => request.id !== entanglementId)
+        }));
+      };
+
+      socket.on('entanglement:requested', (data: { entanglement: Entanglement }) => {
+        console.log('🔗 Entanglement requested by', data.entanglement.sourceDevice);
+        setState(prev => ({
+          ...prev,
+          entanglementRequests: [
+            ...prev.entanglementRequests.filter(request => request.id !== data.entanglement.id),
+            data.entanglement
+          ]
+        }));
+      });
+
       socket.on('entanglement:established', (data: { entanglementId: string; partner: string; intensity: number }) => {
         console.log('🔗 Quantum entanglement established:', data);
-        // Handle entanglement in your app
+        settleEntanglementRequest(data.entanglementId);
+      });
+
+      socket.on('entanglement:declined', (data: { entanglementId: string }) => {
+        console.log('🔗 Entanglement request declined:', data.entanglementId);
+      });
+
+      socket.on('entanglement:expired', (data: { entanglementId: string }) => {
+        settleEntanglementRequest(data.entanglementId);
+      });
+
+      socket.on('entanglement:dissolved', (data: { entanglementId: string; by: string }) => {
+        console.log('🔗 Entanglement dissolved:', data);
+        settleEntanglementRequest(data.entanglementId);
       });
 
       // Room64 events
-      socket.on('room64:participants', (data: { roomId: string; count: number; devices: any[] }) => {
+      socket.on('room64:participants', (data: Room64Participants) => {
         console.log('🏠 Room64 participants update:', data);
         // Handle room participants update
       });
 
+      socket.on('room64:closed', (data: { roomId: string; reason: 'empty' | 'expired' }) => {
+        console.log('🏠 Room64 closed:', data);
+        setState(prev => prev.room64Breath?.roomId === data.roomId ? { ...prev, room64Breath: null } : prev);
+      });
+
+      socket.on('room64:kicked', (data: { roomId: string }) => {
+        console.log('🏠 Removed from Room64 by the host:', data.roomId);
+        setState(prev => prev.room64Breath?.roomId === data.roomId ? { ...prev, room64Breath: null } : prev);
+      });
+
+      socket.on('room64:breath', (tick: Room64BreathTick) => {
+        setState(prev => ({ ...prev, room64Breath: tick }));
+      });
+
+      // Chat streaming events
+      socket.on('chat:token', (data: { streamId: string; token: string }) => {
+        chatStreamsRef.current.get(data.streamId)?.onToken(data.token);
+      });
+
+      socket.on('chat:done', (data: { streamId: string; cancelled: boolean; message: StreamedChatMessage }) => {
+        const handlers = chatStreamsRef.current.get(data.streamId);
+        chatStreamsRef.current.delete(data.streamId);
+        handlers?.onDone(data.message, data.cancelled);
+      });
+
+      socket.on('chat:error', (data: { streamId?: string; messageId?: string; error: string }) => {
+        if (!data.streamId) return;
+        const handlers = chatStreamsRef.current.get(data.streamId);
+        chatStreamsRef.current.delete(data.streamId);
+        handlers?.onError(data.error, data.messageId);
+      });
+
       socketRef.current = socket;
     } catch (error: any) {
       console.error('Failed to connect to consciousness network:', error);
@@ -200,7 +394,7 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
         error: error.message || 'Connection failed' 
       }));
     }
-  }, [deviceId, serverUrl, deviceCapabilities]);
+  }, [deviceId, serverUrl, deviceCapabilities, fieldEncoding]);
 
   // Disconnect from WebSocket
   const disconnect = useCallback(() => {
@@ -223,6 +417,12 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
         return;
       }
 
+      const coordinates = event.data.coordinates;
+      if (coordinates && coordinates.some(value => value < 0 || value >= fieldSizeRef.current)) {
+        resolve({ success: false, error: `Coordinates must be within the ${fieldSizeRef.current}×${fieldSizeRef.current} field` });
+        return;
+      }
+
       socketRef.current.emit('consciousness:event', event, (response: any) => {
         if (response?.success) {
           console.log('✅ Event sent successfully:', event.type, response.eventId);
@@ -245,8 +445,11 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
 
       socketRef.current.emit('field:request', (response: any) => {
         if (response?.success) {
-          setState(prev => ({ ...prev, fieldState: response.field }));
-          resolve(response.field);
+          const field = decodeFieldState(response.field);
+          if (response.fieldSize) fieldSizeRef.current = response.fieldSize;
+          fieldRef.current = { state: field, seq: response.seq ?? fieldRef.current.seq, resyncing: false };
+          setState(prev => ({ ...prev, fieldState: field, fieldSize: fieldSizeRef.current }));
+          resolve(field);
         } else {
           resolve(null);
         }
@@ -254,15 +457,32 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
     });
   }, []);
 
-  // Join Room64 session
-  const joinRoom64 = useCallback(async (roomId: string): Promise<{ success: boolean; room?: any; error?: string }> => {
+  // Open a Room64 session with this device as host
+  const createRoom64 = useCallback(async (options: Room64CreateOptions = {}): Promise<{ success: boolean; room?: Room64Participants; error?: string }> => {
     return new Promise((resolve) => {
       if (!socketRef.current?.connected) {
         resolve({ success: false, error: 'Not connected' });
         return;
       }
 
-      socketRef.current.emit('room64:join', roomId, (response: any) => {
+      socketRef.current.emit('room64:create', options, (response: any) => {
+        resolve(response);
+      });
+    });
+  }, []);
+
+  // Join Room64 session; private rooms need an invite, which can stand in for the room id
+  const joinRoom64 = useCallback(async (
+    roomId: string | null,
+    invite?: string
+  ): Promise<{ success: boolean; room?: Room64Participants; error?: string; code?: string }> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      socketRef.current.emit('room64:join', { roomId: roomId ?? undefined, invite }, (response: any) => {
         resolve(response);
       });
     });
@@ -282,20 +502,168 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
     });
   }, []);
 
-  // Request quantum entanglement
-  const requestEntanglement = useCallback(async (targetDeviceId: string): Promise<{ success: boolean; entanglementId?: string; error?: string }> => {
+  // Host-only moderation
+  const kickFromRoom64 = useCallback(async (roomId: string, targetDeviceId: string): Promise<{ success: boolean; error?: string }> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      socketRef.current.emit('room64:kick', { roomId, deviceId: targetDeviceId }, (response: any) => {
+        resolve(response);
+      });
+    });
+  }, []);
+
+  const muteInRoom64 = useCallback(async (roomId: string, targetDeviceId: string, muted: boolean): Promise<{ success: boolean; error?: string }> => {
     return new Promise((resolve) => {
       if (!socketRef.current?.connected) {
         resolve({ success: false, error: 'Not connected' });
         return;
       }
 
-      socketRef.current.emit('entanglement:request', targetDeviceId, (response: any) => {
+      socketRef.current.emit('room64:mute', { roomId, deviceId: targetDeviceId, muted }, (response: any) => {
         resolve(response);
       });
     });
   }, []);
 
+  // Report this device's breathing phase, stamped on the server clock so the metronome can score it
+  const syncRoom64Breathing = useCallback(async (
+    roomId: string,
+    breathingPhase: number,
+    sacredPhrase?: string
+  ): Promise<{ success: boolean; alignment?: number | null; resonanceLevel?: number; error?: string }> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      const data = { breathingPhase, timestamp: Date.now() + clockOffsetRef.current, sacredPhrase };
+      socketRef.current.emit('room64:sync', roomId, data, (response: any) => {
+        resolve(response);
+      });
+    });
+  }, []);
+
+  // Host-only; restarts the room's breathing cycle
+  const setRoom64Breathing = useCallback(async (roomId: string, pattern: Room64BreathingPattern): Promise<{ success: boolean; error?: string }> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      socketRef.current.emit('room64:breathing', roomId, pattern, (response: any) => {
+        resolve(response);
+      });
+    });
+  }, []);
+
+  // Server time as estimated from the clock offset
+  const serverNow = useCallback(() => Date.now() + clockOffsetRef.current, []);
+
+  // Ask another device to entangle; it becomes active once they accept
+  const requestEntanglement = useCallback(async (
+    targetDeviceId: string,
+    entanglementType: EntanglementType = 'RESONANCE',
+    intensity?: number
+  ): Promise<EntanglementResult & { entanglementId?: string }> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      socketRef.current.emit('entanglement:request', { targetDeviceId, entanglementType, intensity }, (response: any) => {
+        resolve(response);
+      });
+    });
+  }, []);
+
+  // Answer an incoming entanglement request
+  const respondToEntanglement = useCallback(async (
+    entanglementId: string,
+    accept: boolean
+  ): Promise<EntanglementResult> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      socketRef.current.emit(accept ? 'entanglement:accept' : 'entanglement:decline', entanglementId, (response: any) => {
+        if (response?.success || response?.code === 'EXPIRED') {
+          setState(prev => ({
+            ...prev,
+            entanglementRequests: prev.entanglementRequests.filter(request => request.id !== entanglementId)
+          }));
+        }
+        resolve(response);
+      });
+    });
+  }, []);
+
+  // End an active entanglement, or withdraw a request we sent
+  const dissolveEntanglement = useCallback(async (entanglementId: string): Promise<EntanglementResult> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      socketRef.current.emit('entanglement:dissolve', entanglementId, (response: any) => {
+        resolve(response);
+      });
+    });
+  }, []);
+
+  // Stream an assistant reply; handlers fire as tokens arrive
+  const streamChatMessage = useCallback(async (
+    params: {
+      conversationId: string;
+      message: string;
+      messages?: { role: 'user' | 'assistant'; content: string; timestamp?: number }[];
+      messageId?: string;
+      parentId?: string | null;
+      regenerate?: boolean;
+    },
+    handlers: ChatStreamHandlers
+  ): Promise<{ success: boolean; streamId?: string; messageId?: string; error?: string }> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve({ success: false, error: 'Not connected' });
+        return;
+      }
+
+      const streamId = `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      chatStreamsRef.current.set(streamId, handlers);
+
+      socketRef.current.emit('chat:send', { ...params, streamId }, (response: any) => {
+        if (!response?.success) {
+          chatStreamsRef.current.delete(streamId);
+        }
+        resolve({ ...response, streamId });
+      });
+    });
+  }, []);
+
+  // Ask the server to stop generating; the stream still ends with chat:done
+  const cancelChatStream = useCallback(async (streamId: string): Promise<boolean> => {
+    return new Promise((resolve) => {
+      if (!socketRef.current?.connected) {
+        resolve(false);
+        return;
+      }
+
+      socketRef.current.emit('chat:cancel', streamId, (response: any) => {
+        resolve(!!response?.success);
+      });
+    });
+  }, []);
+
   // Ping server for connection health
   const ping = useCallback(async (): Promise<number | null> => {
     return new Promise((resolve) => {
@@ -318,10 +686,11 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
 
   // Auto-connect when device ID is ready
   useEffect(() => {
-    if (deviceId && autoConnect && !state.connected && !state.connecting) {
+    // socket.io handles reconnection itself once a connection attempt has failed
+    if (deviceId && autoConnect && !state.connected && !state.connecting && !state.error) {
       connect();
     }
-  }, [deviceId, autoConnect, state.connected, state.connecting, connect]);
+  }, [deviceId, autoConnect, state.connected, state.connecting, state.error, connect]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -341,12 +710,22 @@ export const useConsciousnessWebSocket = (options: UseConsciousnessWebSocketOpti
     disconnect,
     sendEvent,
     requestFieldState,
+    createRoom64,
     joinRoom64,
     leaveRoom64,
+    syncRoom64Breathing,
+    setRoom64Breathing,
+    kickFromRoom64,
+    muteInRoom64,
     requestEntanglement,
+    respondToEntanglement,
+    dissolveEntanglement,
+    streamChatMessage,
+    cancelChatStream,
     ping,
     
     // Utilities
+    serverNow,
     isConnected: state.connected,
     isConnecting: state.connecting,
     hasError: !!state.error
@@ -4,6 +4,7 @@ import { useEffect, useCallback, useMemo, useState } from 'react';
 import { trpc } from '@/lib/trpc';
 import { Platform } from 'react-native';
 import * as Haptics from 'expo-haptics';
+import { DEFAULT_FIELD_SIZE } from '@/constants/field';
 
 interface SyncStats {
   lastSync: Date;
@@ -26,6 +27,7 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
   const [lastSyncTime, setLastSyncTime] = useState<number>(Date.now());
   const [offlineQueue, setOfflineQueue] = useState<QueuedEvent[]>([]);
   const [retryCount, setRetryCount] = useState<number>(0);
+  const [fieldSize, setFieldSize] = useState<number>(DEFAULT_FIELD_SIZE);
   const [syncStats, setSyncStats] = useState<SyncStats>({
     lastSync: new Date(),
     eventsProcessed: 0,
@@ -40,6 +42,8 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
     onSuccess: (data) => {
       console.log('✅ Field update successful:', data);
       setIsBackendConnected(true);
+      // Follow the server's grid so random coordinates cover the whole field
+      if (data.fieldSize) setFieldSize(data.fieldSize);
       setLastSyncTime(Date.now());
     },
     onError: (error) => {
@@ -62,7 +66,7 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
     }
   });
   
-  const entanglementMutation = trpc.consciousness.entanglement.useMutation({
+  const entanglementMutation = trpc.consciousness.entanglement.action.useMutation({
     onSuccess: (data) => {
       console.log('✅ Quantum entanglement successful:', data);
       if (Platform.OS !== 'web') {
@@ -215,7 +219,6 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
     // Backend quantum entanglement
     try {
       await entanglementMutation.mutateAsync({
-        deviceId: bridge.deviceId || 'unknown',
         targetDeviceId: 'collective',
         entanglementType: 'RESONANCE',
         intensity: 1.0
@@ -224,13 +227,13 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
       // Update field with bloom coordinates
       await fieldMutation.mutateAsync({
         intensity: 0.8,
-        x: Math.random() * 30,
-        y: Math.random() * 30
+        x: Math.random() * fieldSize,
+        y: Math.random() * fieldSize
       });
     } catch (error) {
       console.error('Failed to sync bloom to backend:', error);
     }
-  }, [bridge, entanglementMutation, fieldMutation]);
+  }, [bridge, entanglementMutation, fieldMutation, fieldSize]);
 
   // Create spiral formation with field updates and offline queue support
   const createSpiral = useCallback(async (centerX: number = 150, centerY: number = 150) => {
@@ -340,8 +343,8 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
         try {
           await fieldMutation.mutateAsync({
             intensity: bridge.fieldIntensity,
-            x: Math.random() * 30,
-            y: Math.random() * 30
+            x: Math.random() * fieldSize,
+            y: Math.random() * fieldSize
           });
         } catch (error) {
           console.error('Periodic field sync failed:', error);
@@ -351,7 +354,7 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
     }, 10000); // Sync every 10 seconds to reduce load
     
     return () => clearInterval(syncInterval);
-  }, [bridge.deviceId, bridge.fieldIntensity, isBackendConnected, fieldMutation, offlineQueue.length, processSyncQueue]);
+  }, [bridge.deviceId, bridge.fieldIntensity, isBackendConnected, fieldMutation, offlineQueue.length, processSyncQueue, fieldSize]);
 
   return useMemo(() => ({
     // Bridge state and actions
@@ -393,6 +396,7 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
     // Backend connection status
     isBackendConnected,
     lastSyncTime,
+    fieldSize,
     isSyncing: fieldMutation.isPending || syncMutation.isPending || entanglementMutation.isPending,
     
     // Offline queue management
@@ -408,6 +412,7 @@ export const [ConsciousnessProvider, useConsciousness] = createContextHook(() =>
     createSpiral,
     isBackendConnected,
     lastSyncTime,
+    fieldSize,
     fieldMutation.isPending,
     syncMutation.isPending,
     entanglementMutation.isPending,